@@ -1,7 +1,7 @@
 import { execSync, spawnSync } from "child_process";
 import type { Agent, AgentConfig, AuthStatus } from "./types.ts";
-
-const DEFAULT_CONTAINER_NAME = "ccc";
+import { getContainerName } from "../containers.ts";
+import { getSSHArgs, sshCommand } from "../utils/ssh.ts";
 
 export interface AuthCheckOptions {
   containerName?: string;
@@ -16,7 +16,7 @@ export function checkAuthStatus(
   config: AgentConfig,
   options: AuthCheckOptions = {}
 ): AuthStatus {
-  const { containerName = DEFAULT_CONTAINER_NAME, host = null } = options;
+  const { containerName = getContainerName(), host = null } = options;
 
   const authMethod = config.auth?.method || "none";
   const authCheckFiles = config.auth?.auth_check_files || agent.authCheckFiles || [];
@@ -42,7 +42,7 @@ export function checkAuthStatus(
     try {
       let result: string;
       if (host) {
-        result = execSync(`ssh ${host} "${dockerCmd}"`, {
+        result = execSync(`${sshCommand(host)} "${dockerCmd}"`, {
           encoding: "utf-8",
           stdio: "pipe",
         }).trim();
@@ -72,6 +72,27 @@ export function checkAuthStatus(
   };
 }
 
+/**
+ * Docker command printing the agent's version, or __NOT_INSTALLED__
+ */
+export function buildAgentVersionCommand(agent: Agent, containerName: string): string {
+  // Use bash -c to inherit Docker ENV PATH (npm-global, cargo, etc.)
+  return `docker exec ${containerName} bash -c '${agent.versionCmd} 2>/dev/null || echo "__NOT_INSTALLED__"'`;
+}
+
+/**
+ * Parse the output of buildAgentVersionCommand
+ */
+export function parseAgentVersion(result: string): { installed: boolean; version?: string } {
+  if (result === "__NOT_INSTALLED__" || result === "") {
+    return { installed: false };
+  }
+
+  // Extract version - often first line, maybe with prefix
+  const firstLine = result.split("\n")[0] || result;
+  return { installed: true, version: firstLine };
+}
+
 /**
  * Check if agent binary is installed in container
  */
@@ -79,15 +100,14 @@ export function checkAgentInstalled(
   agent: Agent,
   options: AuthCheckOptions = {}
 ): { installed: boolean; version?: string } {
-  const { containerName = DEFAULT_CONTAINER_NAME, host = null } = options;
+  const { containerName = getContainerName(), host = null } = options;
 
-  // Use bash -c to inherit Docker ENV PATH (npm-global, cargo, etc.)
-  const dockerCmd = `docker exec ${containerName} bash -c '${agent.versionCmd} 2>/dev/null || echo "__NOT_INSTALLED__"'`;
+  const dockerCmd = buildAgentVersionCommand(agent, containerName);
 
   try {
     let result: string;
     if (host) {
-      result = execSync(`ssh ${host} "${dockerCmd}"`, {
+      result = execSync(`${sshCommand(host)} "${dockerCmd}"`, {
         encoding: "utf-8",
         stdio: "pipe",
       }).trim();
@@ -98,13 +118,7 @@ export function checkAgentInstalled(
       }).trim();
     }
 
-    if (result === "__NOT_INSTALLED__" || result === "") {
-      return { installed: false };
-    }
-
-    // Extract version - often first line, maybe with prefix
-    const firstLine = result.split("\n")[0] || result;
-    return { installed: true, version: firstLine };
+    return parseAgentVersion(result);
   } catch {
     return { installed: false };
   }
@@ -117,14 +131,14 @@ export function installAgentInContainer(
   agent: Agent,
   options: AuthCheckOptions = {}
 ): boolean {
-  const { containerName = DEFAULT_CONTAINER_NAME, host = null } = options;
+  const { containerName = getContainerName(), host = null } = options;
 
   // Use bash -c to inherit Docker ENV PATH
   const dockerCmd = `docker exec ${containerName} bash -c '${agent.installCmd}'`;
 
   try {
     if (host) {
-      spawnSync("ssh", [host, dockerCmd], { stdio: "inherit" });
+      spawnSync("ssh", [...getSSHArgs(host), host, dockerCmd], { stdio: "inherit" });
     } else {
       spawnSync("docker", ["exec", containerName, "bash", "-c", agent.installCmd], {
         stdio: "inherit",
@@ -144,7 +158,7 @@ export function runAgentAuth(
   config: AgentConfig,
   options: AuthCheckOptions = {}
 ): boolean {
-  const { containerName = DEFAULT_CONTAINER_NAME, host = null } = options;
+  const { containerName = getContainerName(), host = null } = options;
 
   // Use auth_cmd if specified, otherwise fall back to run_cmd
   const authCmd = agent.authCmd || agent.runCmd;
@@ -152,7 +166,7 @@ export function runAgentAuth(
   try {
     if (host) {
       // Use ssh -t for TTY allocation
-      spawnSync("ssh", ["-t", host, `docker exec -it ${containerName} ${authCmd}`], {
+      spawnSync("ssh", ["-t", ...getSSHArgs(host), host, `docker exec -it ${containerName} ${authCmd}`], {
         stdio: "inherit",
       });
     } else {
@@ -170,10 +184,10 @@ export function runAgentAuth(
 /**
  * Check if remote container is running
  */
-export function checkRemoteContainerRunning(host: string, containerName = DEFAULT_CONTAINER_NAME): boolean {
+export function checkRemoteContainerRunning(host: string, containerName = getContainerName()): boolean {
   try {
     const result = execSync(
-      `ssh ${host} "docker inspect -f '{{.State.Running}}' ${containerName} 2>/dev/null"`,
+      `${sshCommand(host)} "docker inspect -f '{{.State.Running}}' ${containerName} 2>/dev/null"`,
       { encoding: "utf-8", stdio: "pipe" }
     );
     return result.trim() === "true";
@@ -1,11 +1,24 @@
 import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
 import * as TOML from "@iarna/toml";
+import { getContainerConfigDir } from "../containers.ts";
 import type { Agent, AgentConfig } from "./types.ts";
 import { getTemplate, getAvailableTemplates, type AgentTemplate } from "./templates.ts";
 
-const AGENTS_DIR = join(homedir(), ".config", "ccc", "agents");
+/**
+ * headless_cmd from an agent's built-in template. Agent configs written before
+ * the key existed don't have it, and the generic "-p" fallback is wrong for some
+ * agents (codex reads -p as --profile).
+ */
+function getTemplateHeadlessCmd(name: string): string | undefined {
+  const template = getTemplate(name);
+  if (!template) return undefined;
+  try {
+    return (TOML.parse(template.content) as unknown as AgentConfig).headless_cmd;
+  } catch {
+    return undefined;
+  }
+}
 
 function configToAgent(config: AgentConfig): Agent {
   return {
@@ -15,7 +28,9 @@ function configToAgent(config: AgentConfig): Agent {
     runCmd: config.run_cmd,
     authCmd: config.auth?.auth_cmd, // Separate auth command if specified
     firewallDomains: config.firewall?.domains || [],
+    firewallRules: config.firewall?.rules || [],
     skipPermissionsFlag: config.skip_permissions_flag,
+    headlessCmd: config.headless_cmd ?? getTemplateHeadlessCmd(config.name),
     configPath: config.config_path,
     authCheckFiles: config.auth?.auth_check_files,
     mcp: config.mcp ? { configPath: config.mcp.config_path, format: config.mcp.format } : undefined,
@@ -34,19 +49,20 @@ function configToAgent(config: AgentConfig): Agent {
   };
 }
 
-export function loadAgents(): Record<string, Agent> {
+export function loadAgents(container?: string): Record<string, Agent> {
   const agents: Record<string, Agent> = {};
+  const agentsDir = getAgentsDir(container);
 
-  if (!existsSync(AGENTS_DIR)) {
+  if (!existsSync(agentsDir)) {
     return agents;
   }
 
   try {
-    const files = readdirSync(AGENTS_DIR).filter((f) => f.endsWith(".toml"));
+    const files = readdirSync(agentsDir).filter((f) => f.endsWith(".toml"));
 
     for (const file of files) {
       try {
-        const filePath = join(AGENTS_DIR, file);
+        const filePath = join(agentsDir, file);
         const content = readFileSync(filePath, "utf-8");
         const config = TOML.parse(content) as unknown as AgentConfig;
 
@@ -65,17 +81,25 @@ export function loadAgents(): Record<string, Agent> {
   return agents;
 }
 
-export function getAgentsDir(): string {
-  return AGENTS_DIR;
+export function getAgentsDir(container?: string): string {
+  return join(getContainerConfigDir(container), "agents");
 }
 
 export function listAvailableAgents(): AgentTemplate[] {
   return getAvailableTemplates();
 }
 
+/**
+ * An agent from its built-in template, for agents not enabled in an environment.
+ */
+export function loadAgentTemplate(name: string): Agent | undefined {
+  const template = getTemplate(name);
+  return template ? configToAgent(TOML.parse(template.content) as unknown as AgentConfig) : undefined;
+}
+
 export function enableAgents(names: string[]): string[] {
-  if (!existsSync(AGENTS_DIR)) {
-    mkdirSync(AGENTS_DIR, { recursive: true });
+  if (!existsSync(getAgentsDir())) {
+    mkdirSync(getAgentsDir(), { recursive: true });
   }
 
   const enabled: string[] = [];
@@ -87,7 +111,7 @@ export function enableAgents(names: string[]): string[] {
       continue;
     }
 
-    const filePath = join(AGENTS_DIR, `${name}.toml`);
+    const filePath = join(getAgentsDir(), `${name}.toml`);
     writeFileSync(filePath, template.content);
     enabled.push(name);
   }
@@ -96,7 +120,7 @@ export function enableAgents(names: string[]): string[] {
 }
 
 export function disableAgent(name: string): boolean {
-  const filePath = join(AGENTS_DIR, `${name}.toml`);
+  const filePath = join(getAgentsDir(), `${name}.toml`);
   if (existsSync(filePath)) {
     unlinkSync(filePath);
     return true;
@@ -105,12 +129,12 @@ export function disableAgent(name: string): boolean {
 }
 
 export function isAgentEnabled(name: string): boolean {
-  return existsSync(join(AGENTS_DIR, `${name}.toml`));
+  return existsSync(join(getAgentsDir(), `${name}.toml`));
 }
 
 export function getAgentConfig(name: string): AgentConfig | undefined {
   // First check enabled agents
-  const filePath = join(AGENTS_DIR, `${name}.toml`);
+  const filePath = join(getAgentsDir(), `${name}.toml`);
   if (existsSync(filePath)) {
     try {
       const content = readFileSync(filePath, "utf-8");
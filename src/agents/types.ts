@@ -1,3 +1,5 @@
+import type { FirewallRule } from "../firewall/entries.ts";
+
 export type McpFormat = "claude" | "opencode" | "codex" | "gemini";
 export type SkillsFormat = "markdown" | "json";
 
@@ -18,7 +20,9 @@ export interface Agent {
   runCmd: string;
   authCmd?: string; // Separate auth command (e.g., "codex login --device-auth")
   firewallDomains: string[];
+  firewallRules?: FirewallRule[];
   skipPermissionsFlag?: string;
+  headlessCmd?: string; // Non-interactive command, the prompt is appended (ccc run)
   configPath?: string;
   authCheckFiles?: string[];
   mcp?: AgentMcpConfig;
@@ -48,10 +52,12 @@ export interface AgentConfig {
   run_cmd: string;
   version_cmd: string;
   skip_permissions_flag?: string;
+  headless_cmd?: string; // Defaults to the template's, then "<run_cmd> <skip_permissions_flag> -p"
   config_path?: string;
 
   firewall?: {
-    domains: string[];
+    domains?: string[];
+    rules?: FirewallRule[];
   };
 
   auth?: {
@@ -1,6 +1,6 @@
 import { Command } from "commander";
-import { existsSync, readFileSync } from "fs";
-import { join } from "path";
+import { existsSync, readFileSync, statSync } from "fs";
+import { join, resolve } from "path";
 import { homedir } from "os";
 
 // @ts-ignore - Bun supports this import syntax
@@ -13,6 +13,7 @@ import {
   disableAgent,
   isAgentEnabled,
   getAgentConfig,
+  loadAgentTemplate,
 } from "./agents/loader.ts";
 import type { Agent } from "./agents/types.ts";
 import {
@@ -24,15 +25,42 @@ import {
   getExtensionsDir,
   getExtensionConfig,
 } from "./extensions/loader.ts";
-import { injectMcpConfigToAllAgents, removeMcpConfigFromAllAgents } from "./extensions/mcp-injector.ts";
-import { installSkill, removeSkill } from "./extensions/skills-manager.ts";
+import { injectMcpConfigToAllAgents, removeMcpConfigFromAllAgents, syncMcpConfigs } from "./extensions/mcp-injector.ts";
+import { installSkill, removeSkill, syncSkills } from "./extensions/skills-manager.ts";
 import { startHostExtension, stopHostExtension, isHostExtensionRunning, installHostExtension } from "./extensions/host-manager.ts";
 import {
   getUserFirewallDomains,
+  loadFirewallConfig,
   addUserFirewallDomain,
   removeUserFirewallDomain,
   getFirewallConfigPath,
 } from "./firewall/config.ts";
+import {
+  parseFirewallEntry,
+  validateFirewallRule,
+  type FirewallEntryType,
+  type FirewallRule,
+} from "./firewall/entries.ts";
+import {
+  DEFAULT_FIREWALL_PROFILE,
+  LEARN_FIREWALL_PROFILE,
+  OPEN_FIREWALL_PROFILE,
+  resolveFirewallProfiles,
+} from "./firewall/profiles.ts";
+import { BLOCKED_LOG_PREFIX, LEARN_LOG_PREFIX, type FirewallDestination } from "./firewall/logs.ts";
+import { findFirewallSources } from "./firewall/probe.ts";
+import {
+  DEFAULT_CONTAINER,
+  cccCommand,
+  getActiveContainer,
+  getContainerName,
+  getContainerOutputDir,
+  getContainerSelector,
+  isValidContainerName,
+  isReservedContainerName,
+  listLocalContainers,
+  setActiveContainer,
+} from "./containers.ts";
 import {
   checkAuthStatus,
   checkAgentInstalled,
@@ -50,6 +78,13 @@ import {
   getDefaultAgent,
   setDefaultAgent,
   resolveTarget,
+  addProject,
+  getProjectContainer,
+  removeProject,
+  listProjects,
+  isValidProjectName,
+  projectNameFromUrl,
+  type RemoteSSHOptions,
 } from "./config.ts";
 import {
   generateFiles,
@@ -62,8 +97,38 @@ import {
   showLogs,
   restartContainer,
   getContainerStatus,
+  applyFirewall,
+  refreshFirewall,
+  getFirewallDestinations,
+  getFirewallIPv6State,
+  isFirewallLogVisible,
+  getProxyDestinations,
+  probeFirewall,
+  runSession,
+  writeProjectMounts,
+  cloneRepository,
+  listWorktrees,
+  addWorktree,
+  getWorktreeChanges,
+  removeWorktree,
+  getSessions,
+  enqueueTasks,
+  getQueue,
+  setQueueSettings,
+  removeQueuedTask,
+  resumeQueue,
+  startTask,
+  listTasks,
+  getTaskLog,
+  followTaskLog,
+  stopTask,
+  probeDoctorHost,
+  probeDoctorContainer,
+  readDeployedFiles,
+  type ContainerStatus,
   type InitOptions,
 } from "./deploy/local.ts";
+import type { FirewallIPv6State } from "./deploy/container.ts";
 import {
   initRemote,
   buildRemote,
@@ -74,12 +139,56 @@ import {
   showRemoteLogs,
   restartRemote,
   sshExec,
-  getRemoteHostStatus,
+  probeRemoteHost,
   updateRemoteBinary,
   syncRemoteFiles,
+  reportSyncChanges,
+  refreshRemoteFirewall,
+  runRemoteCcc,
+  startRemoteTask,
+  listRemoteTasks,
+  getRemoteTaskLog,
+  followRemoteTaskLog,
+  stopRemoteTask,
+  enqueueRemoteTasks,
+  getRemoteQueue,
+  setRemoteQueueSettings,
+  removeRemoteQueuedTask,
+  resumeRemoteQueue,
+  probeRemoteDoctorHost,
+  probeRemoteDoctorContainer,
+  readRemoteDeployedFiles,
 } from "./deploy/remote.ts";
+import type { QueuedTask, QueueSettings } from "./queue.ts";
+import { getContainerChecks, getHostChecks, type DoctorCheck } from "./doctor.ts";
+import { compareFiles, getComposeGitUser, getImageDrift } from "./drift.ts";
+import { generateContainerFiles, getGeneratedFileMap } from "./deploy/files.ts";
+import {
+  containerToJson,
+  printJson,
+  type AgentJson,
+  type AgentsJson,
+  type ContainerJson,
+  type ExtensionsJson,
+  type FirewallJson,
+  type HostJson,
+  type HostsJson,
+  type RemotesJson,
+} from "./json.ts";
+import { getEnvInitAnswers, getHostGitIdentity, loadInitAnswers, mergeInitAnswers, type InitAnswers } from "./init.ts";
+import { PROBE_COMMAND, type ProbeContainerJson, type ProbeJson } from "./probe.ts";
+import { buildTaskCommand, createTaskId, isValidTaskId, shellQuote, type TaskInfo, type TaskSpec } from "./tasks.ts";
+import {
+  getDefaultWorktreeBranch,
+  getWorktreePath,
+  isValidWorktreeSession,
+  parseWorktreeSpec,
+} from "./worktrees.ts";
+import { buildSSHArgs, sshCommand, sshLoginCommand } from "./utils/ssh.ts";
 import * as ui from "./utils/ui.ts";
 import {
+  checkSSHConnection,
+  getDockerVersion,
   requireDocker,
   requireContainer,
   requireContainerRunning,
@@ -89,7 +198,368 @@ function getAgents(): Record<string, Agent> {
   return loadAgents();
 }
 
-const DEFAULT_CONTAINER_NAME = "ccc";
+const FIREWALL_ENTRY_LABELS: Record<FirewallEntryType, string> = {
+  domain: "domain",
+  wildcard: "wildcard",
+  ip: "IP",
+  cidr: "CIDR block",
+};
+
+const FIREWALL_IPV6_LABELS: Record<FirewallIPv6State, string> = {
+  filtered: ui.style.success("filtered (allowlist applied)"),
+  blocked: ui.style.warning("blocked (IPv6 can't be filtered, all egress dropped)"),
+  disabled: "disabled in container",
+  unfiltered: ui.style.error("NOT filtered"),
+  unknown: ui.style.dim("unknown (container not running)"),
+};
+
+/** Regenerate the allowlist from current config and apply it to the local container */
+function applyLocalFirewall(agents: Agent[]): void {
+  const firewallConfig = loadFirewallConfig();
+  applyFirewall({
+    agents,
+    outputDir: getContainerOutputDir(),
+    extensions: Object.values(loadExtensions()),
+    userFirewallDomains: firewallConfig.domains,
+    userFirewallRules: firewallConfig.rules,
+    firewallSshPolicy: firewallConfig.ssh,
+    firewallMode: firewallConfig.mode,
+    firewallProfiles: firewallConfig.profiles,
+    firewallRefreshInterval: firewallConfig.refresh_interval,
+  });
+}
+
+/**
+ * Registered projects for the active environment that need their own mount, as name -> host path.
+ * Checkouts from `ccc clone` are already visible through the ./projects mount.
+ */
+function getProjectMounts(): Record<string, string> {
+  const projectsDir = join(getContainerOutputDir(), "projects");
+  return Object.fromEntries(
+    Object.entries(listProjects(getActiveContainer()))
+      .filter(([name, project]) => project.path !== join(projectsDir, name))
+      .map(([name, project]) => [name, project.path])
+  );
+}
+
+/** Format a port rule for display, e.g. "db.internal tcp/5432" */
+function formatFirewallRule(rule: FirewallRule): string {
+  const ports = Array.isArray(rule.ports) ? rule.ports.join(",") : "?";
+  return `${rule.host} ${ui.style.dim(`${rule.protocol ?? "tcp"}/${ports}`)}`;
+}
+
+/** Print aggregated firewall destinations as a table */
+function printFirewallDestinations(destinations: FirewallDestination[]): void {
+  const destWidth = 40;
+  const portWidth = 10;
+  const countWidth = 8;
+
+  console.log(
+    `  ${ui.style.dim("DESTINATION".padEnd(destWidth))}` +
+      `${ui.style.dim("PORT".padEnd(portWidth))}` +
+      `${ui.style.dim("COUNT".padEnd(countWidth))}` +
+      `${ui.style.dim("LAST SEEN")}`
+  );
+  console.log(`  ${ui.style.dim("─".repeat(destWidth + portWidth + countWidth + 10))}`);
+
+  for (const dest of destinations) {
+    const label = dest.hostname ? `${dest.hostname} (${dest.ip})` : dest.ip;
+    const port = dest.port ? `${dest.protocol}/${dest.port}` : dest.protocol;
+    const lastSeen = dest.lastSeen ? ui.formatTimeAgo(dest.lastSeen) : "-";
+    console.log(
+      `  ${label.padEnd(destWidth)}` +
+        `${port.padEnd(portWidth)}` +
+        `${String(dest.count).padEnd(countWidth)}` +
+        `${ui.style.dim(lastSeen)}`
+    );
+  }
+}
+
+/** Explain how to make the host keep LOG output from container network namespaces */
+function printNetnsLogHint(): void {
+  ui.hint(`Enable it on this host: ${ui.style.command("sudo sysctl -w net.netfilter.nf_log_all_netns=1")}`);
+  console.log(`  ${ui.style.dim("Persist it in /etc/sysctl.d/ to survive reboots")}`);
+}
+
+/** Format an allowlist entry for display, tagging anything that isn't a plain hostname */
+function formatFirewallEntry(entry: string): string {
+  const parsed = parseFirewallEntry(entry);
+  if (!parsed) return `${entry} ${ui.style.warning("(invalid)")}`;
+  if (parsed.type === "domain") return entry;
+  return `${entry} ${ui.style.dim(`(${FIREWALL_ENTRY_LABELS[parsed.type]})`)}`;
+}
+
+/** Prefix a host label with a container environment, e.g. "local +client-a" */
+function formatContainerLabel(host: string, container: string): string {
+  return container === DEFAULT_CONTAINER ? host : `${host} +${container}`;
+}
+
+/** Print one container's sessions for `ccc ls`, under a +name heading when given */
+function printContainerSessions(status: ContainerStatus, container?: string): void {
+  let indent = "    ";
+  if (container) {
+    console.log(`    ${ui.style.highlight(container === DEFAULT_CONTAINER ? "default" : `+${container}`)}`);
+    indent = "      ";
+  }
+
+  if (!status.exists) {
+    console.log(`${indent}${ui.style.dim("Container not initialized")}`);
+  } else if (!status.running) {
+    console.log(`${indent}${ui.style.dim("Container stopped")}`);
+  } else if (status.sessions.length === 0) {
+    console.log(`${indent}${ui.style.dim("No active sessions")}`);
+  } else {
+    for (const session of status.sessions) {
+      const worktree = status.worktrees.find((w) => w.session === session);
+      const detail = worktree ? `  ${ui.style.dim(`${worktree.project} @ ${worktree.branch ?? "detached"}`)}` : "";
+      console.log(`${indent}${ui.style.dim("•")} ${session}${detail}`);
+    }
+  }
+
+  // Worktrees left behind by killed sessions
+  for (const worktree of status.worktrees.filter((w) => !status.sessions.includes(w.session))) {
+    console.log(`${indent}${ui.style.dim(`◦ ${worktree.session}  ${worktree.project} @ ${worktree.branch ?? "detached"} (no session)`)}`);
+  }
+}
+
+// Status shown for every environment of a host that didn't answer
+const UNREACHABLE_STATUS = {
+  reachable: false,
+  exists: false,
+  running: false,
+  takopi: false,
+  sessions: [],
+  worktrees: [],
+  agents: [],
+};
+
+/**
+ * Status of every local environment, probed in parallel.
+ */
+async function getLocalStatuses(): Promise<Array<{ name: string; status: ContainerStatus }>> {
+  const containers = listLocalContainers();
+  const statuses = await Promise.all(containers.map((container) => getContainerStatus(getContainerName(container), container)));
+  return containers.map((name, index) => ({ name, status: statuses[index]! }));
+}
+
+/**
+ * Wait for probes started together, handing each result to render in order as
+ * soon as it and those before it have answered. A spinner names the probe being
+ * waited on.
+ */
+async function renderAsAnswered<T>(
+  probes: Array<{ label: string; probe: Promise<T> }>,
+  render: (result: T, index: number) => void
+): Promise<void> {
+  await probes.reduce(
+    (previous, { label, probe }, index) =>
+      previous.then(async () => {
+        const spinner = ui.createSpinner(`Checking ${label}...`);
+        spinner.start();
+        const result = await probe;
+        spinner.stop();
+        render(result, index);
+      }),
+    Promise.resolve()
+  );
+}
+
+/**
+ * Status of every container on the local host and each remote, for --json.
+ * With a scope, only the local host ("local") or the given remote host is included.
+ * Remote hosts are probed in parallel.
+ */
+async function collectHostsJson(scope?: string): Promise<HostJson[]> {
+  const defaultTarget = getDefault();
+
+  const targets =
+    scope === "local"
+      ? []
+      : Object.entries(listRemotes())
+          .filter(([, config]) => !scope || config.host === scope)
+          .map(([name, config]) => ({ target: `@${name}`, host: config.host, default: defaultTarget === `@${name}` }));
+  // A user@host target that isn't a configured remote
+  if (scope && scope !== "local" && targets.length === 0) {
+    targets.push({ target: scope, host: scope, default: false });
+  }
+  const probes = targets.map((target) => probeRemoteHost(target.host));
+
+  const hosts: HostJson[] = [];
+  if (!scope || scope === "local") {
+    hosts.push({
+      target: "local",
+      host: null,
+      default: defaultTarget === "local",
+      containers: (await getLocalStatuses()).map(({ name, status }) => containerToJson(name, getContainerName(name), status)),
+    });
+  }
+
+  for (const [index, probe] of (await Promise.all(probes)).entries()) {
+    hosts.push({
+      ...targets[index]!,
+      containers: probe.reachable
+        ? probe.containers.map(({ name, status }) =>
+            containerToJson(name, getContainerName(name), { ...status, reachable: true })
+          )
+        : [containerToJson(DEFAULT_CONTAINER, getContainerName(DEFAULT_CONTAINER), UNREACHABLE_STATUS)],
+    });
+  }
+
+  return hosts;
+}
+
+/**
+ * Everything ccc ls and ccc status show for this host, for a remote caller (ccc _probe).
+ * Environments without agent configs of their own are checked for agentNames.
+ */
+async function collectProbe(agentNames: string[]): Promise<Omit<ProbeJson, "version">> {
+  const containers = (await getLocalStatuses()).map(({ name, status }): ProbeContainerJson => {
+    const containerName = getContainerName(name);
+    const configured = loadAgents(name);
+    const agents =
+      Object.keys(configured).length > 0
+        ? Object.values(configured)
+        : agentNames.flatMap((agentName) => loadAgentTemplate(agentName) ?? []);
+
+    return {
+      name,
+      containerName,
+      exists: status.exists,
+      running: status.running,
+      takopi: status.takopi,
+      sessions: status.sessions,
+      worktrees: status.worktrees,
+      agents: agents.map((agent) => {
+        const installStatus = status.running ? checkAgentInstalled(agent, { containerName }) : { installed: false };
+        const config = getAgentConfig(agent.name);
+        return {
+          name: agent.name,
+          version: installStatus.installed ? (installStatus.version ?? "") : null,
+          authenticated: installStatus.installed && config ? checkAuthStatus(agent, config, { containerName }).authenticated : null,
+        };
+      }),
+      firewallIPv6: status.running ? getFirewallIPv6State(containerName) : "unknown",
+    };
+  });
+
+  return {
+    ccc: CLI_VERSION,
+    docker: getDockerVersion(),
+    containers,
+    extensions: Object.values(loadExtensions())
+      .filter((ext) => ext.type === "host" && ext.runCmd)
+      .map((ext) => ({ name: ext.name, running: isHostExtensionRunning(ext) })),
+  };
+}
+
+/**
+ * Git identity for the container from the init answers, prompting for missing
+ * parts when interactive. Missing parts stay empty rather than getting a placeholder.
+ */
+async function resolveGitIdentity(answers: InitAnswers, interactive: boolean): Promise<{ gitUserName: string; gitUserEmail: string }> {
+  let gitUserName = answers.gitName ?? "";
+  let gitUserEmail = answers.gitEmail ?? "";
+
+  if (interactive && (!gitUserName || !gitUserEmail)) {
+    const readline = await import("readline");
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    const ask = (label: string) =>
+      new Promise<string>((resolve) => {
+        rl.question(`  ${ui.style.dim(`${label}:`)} `, (answer) => resolve(answer.trim()));
+      });
+
+    if (!gitUserName) gitUserName = await ask("Git user name");
+    if (!gitUserEmail) gitUserEmail = await ask("Git email");
+    rl.close();
+  }
+
+  if (gitUserName && gitUserEmail) {
+    ui.item(`Git config: ${gitUserName} <${gitUserEmail}>`, "ok");
+  } else {
+    ui.item(`Git config incomplete: ${gitUserName || "no name"} <${gitUserEmail || "no email"}>`, "warn");
+    ui.hint("Pass --git-name and --git-email, or set user.name and user.email in your git config");
+  }
+  return { gitUserName, gitUserEmail };
+}
+
+const DOCTOR_GROUPS = ["Docker", "Agents", "Firewall", "Git", "Extensions"];
+
+function printDoctorChecks(checks: DoctorCheck[]): void {
+  for (const group of DOCTOR_GROUPS) {
+    const groupChecks = checks.filter((check) => check.group === group);
+    if (groupChecks.length === 0) continue;
+
+    ui.header(group);
+    for (const check of groupChecks) {
+      const details = check.details ? ` ${ui.style.dim(check.details)}` : "";
+      ui.item(`${check.name}${details}`, check.status);
+      if (check.status !== "ok" && check.fix) {
+        console.log(`      ${ui.style.dim("→")} ${ui.style.command(check.fix)}`);
+      }
+    }
+  }
+}
+
+function formatTaskState(task: TaskInfo, width: number): string {
+  const label = task.exitCode !== undefined && task.state === "failed" ? `failed (${task.exitCode})` : task.state;
+  const padded = label.padEnd(width);
+  switch (task.state) {
+    case "running":
+      return ui.style.highlight(padded);
+    case "done":
+      return ui.style.success(padded);
+    case "failed":
+      return ui.style.error(padded);
+    default:
+      return ui.style.dim(padded);
+  }
+}
+
+function printQueueSettings(settings: QueueSettings): void {
+  const rates = Object.entries(settings.rateLimits).map(([agent, limit]) => `${agent} ${limit}/h`);
+  ui.keyValue("Concurrency", String(settings.concurrency));
+  ui.keyValue("Rate limits", rates.length > 0 ? rates.join(", ") : "none");
+}
+
+/**
+ * Agent for a headless task: the given one, the default, or the first enabled.
+ */
+function resolveTaskAgent(name?: string): Agent {
+  const agents = getAgents();
+  const agentName = name || getDefaultAgent() || Object.keys(agents)[0];
+  const agent = agentName ? agents[agentName] : undefined;
+  if (!agent) {
+    ui.error(agentName ? `Unknown agent: ${agentName}` : "No agents enabled");
+    process.exit(1);
+  }
+  return agent;
+}
+
+/**
+ * Check a task's --project. Remote projects are only checked by name, they're registered on the remote.
+ */
+function requireTaskProject(project: string, host: string | null): void {
+  const known = host
+    ? isValidProjectName(project)
+    : Boolean(listProjects(getActiveContainer())[project]) ||
+      existsSync(join(getContainerOutputDir(), "projects", project));
+  if (!known) {
+    ui.error(`Unknown project: ${project}`);
+    ui.hint(`List projects: ${ui.style.command(cccCommand("project ls"))}`);
+    process.exit(1);
+  }
+}
+
+function requireTaskId(id: string): void {
+  if (!isValidTaskId(id)) {
+    ui.error(`Invalid task ID: ${id}`);
+    ui.hint(`List tasks: ${ui.style.command(cccCommand("task ls"))}`);
+    process.exit(1);
+  }
+}
 
 // Global target for @host prefix style commands
 let globalTarget: string | null = null;
@@ -101,17 +571,70 @@ let globalTargetRaw: string | null = null; // Original @alias for display
  */
 function extractGlobalTarget(): void {
   const firstArg = process.argv[2];
+  globalTarget = null;
+  globalTargetRaw = null;
   if (firstArg?.startsWith("@")) {
     globalTargetRaw = firstArg;
     globalTarget = resolveTarget(firstArg);
     process.argv.splice(2, 1); // Remove from argv so Commander doesn't see it
   } else if (firstArg === "local") {
     globalTargetRaw = "local";
-    globalTarget = null;
     process.argv.splice(2, 1);
   }
 }
 
+/**
+ * Extract the +name prefix or --container <name> option from argv before Commander parses.
+ * Selects which container environment every command works on (see containers.ts).
+ */
+function extractGlobalContainer(): void {
+  const args = process.argv;
+  let name: string | undefined;
+
+  for (let i = 2; i < args.length && args[i] !== "--"; i++) {
+    const arg = args[i]!;
+    if (i === 2 && arg.startsWith("+")) {
+      name = arg.slice(1);
+      args.splice(i--, 1);
+    } else if (arg === "--container") {
+      name = args[i + 1] ?? "";
+      args.splice(i--, 2);
+    } else if (arg.startsWith("--container=")) {
+      name = arg.slice("--container=".length);
+      args.splice(i--, 1);
+    }
+  }
+
+  if (name === undefined) return;
+  if (!isValidContainerName(name)) {
+    ui.error(`Invalid container name: ${name}`);
+    ui.hint("Use lowercase letters, digits, - and _ (up to 32 characters)");
+    process.exit(1);
+  }
+  if (isReservedContainerName(name)) {
+    ui.error(`Reserved container name: ${name}`);
+    ui.hint(`"proxy" and names ending in "-proxy" collide with the proxy sidecar containers`);
+    process.exit(1);
+  }
+  setActiveContainer(name);
+}
+
+// Global --json flag: status, ls and list commands print JSON instead of tables (see json.ts)
+let jsonOutput = false;
+
+/**
+ * Extract --json from argv before Commander parses, so it works after any subcommand.
+ */
+function extractJsonFlag(): void {
+  const args = process.argv;
+  const end = args.includes("--") ? args.indexOf("--") : args.length;
+  const index = args.slice(0, end).indexOf("--json", 2);
+  jsonOutput = index !== -1;
+  if (jsonOutput) {
+    args.splice(index, 1);
+  }
+}
+
 /** Get the resolved host from @host prefix, or null for local */
 function getGlobalTarget(): string | null {
   return globalTarget;
@@ -121,12 +644,20 @@ function getGlobalTarget(): string | null {
 function getGlobalTargetRaw(): string | null {
   return globalTargetRaw;
 }
-const DEFAULT_OUTPUT_DIR = join(homedir(), ".ccc");
+
+/** A ccc command line for the current target and environment, e.g. "ccc @vps +client-a start" */
+function targetCommand(command: string): string {
+  return globalTarget ? ["ccc", globalTargetRaw, getContainerSelector(), command].filter(Boolean).join(" ") : cccCommand(command);
+}
+
 const CLI_VERSION = (pkg as { version?: string }).version ?? "0.0.0";
 
 export function createCLI(): Command {
-  // Extract @host prefix before Commander parses
+  // Extract @host and +container prefixes (in either order) before Commander parses
+  extractGlobalContainer();
   extractGlobalTarget();
+  extractGlobalContainer();
+  extractJsonFlag();
 
   const program = new Command();
 
@@ -141,9 +672,13 @@ export function createCLI(): Command {
 
   program
     .argument("[session]", "Session name (default: main)")
+    .option("--container <name>", "Container environment to use (same as +name prefix)")
+    .option("--json", "Print JSON from status, ls and list commands")
     .option("-a, --agent <name>", "Agent to use (default: from config or first available)")
-    .option("-w, --workspace <dir>", "Project directory to mount")
+    .option("-w, --workspace <project>", "Start the session in a registered project (see ccc project ls)")
+    .option("--worktree <project[@branch]>", "Start the session in its own git worktree of a project")
     .option("--no-firewall", "Disable firewall for this session")
+    .option("--firewall-profile <name>", "Firewall profile for this session (e.g. strict, open)")
     .option("--yolo [prompt]", "Enable auto-permissions mode (optional prompt)")
     .option("-s, --session <name>", "Shpool session name", "main")
     .action(async (session, options) => {
@@ -157,14 +692,30 @@ export function createCLI(): Command {
       const yoloPrompt = typeof options.yolo === "string" ? options.yolo : undefined;
       const yoloEnabled = Boolean(options.yolo);
 
+      // --no-firewall opens this session only, through the open profile
+      let firewallProfile: string | undefined = options.firewallProfile;
+      if (!options.firewall) {
+        if (firewallProfile && firewallProfile !== OPEN_FIREWALL_PROFILE) {
+          ui.error("Use either --no-firewall or --firewall-profile, not both");
+          process.exit(1);
+        }
+        firewallProfile = OPEN_FIREWALL_PROFILE;
+      }
+      if (firewallProfile === DEFAULT_FIREWALL_PROFILE) {
+        firewallProfile = undefined;
+      }
+
+      // The remote's ccc checks the profile against its own firewall config
       const host = getGlobalTarget();
       if (host) {
         const sessionName = session || options.session || "main";
         attachRemote(host, sessionName, {
-          noFirewall: !options.firewall,
+          firewallProfile,
           yolo: yoloEnabled,
           prompt: yoloPrompt,
           agent,
+          workspace: options.workspace,
+          worktree: options.worktree,
         });
         return;
       }
@@ -175,13 +726,83 @@ export function createCLI(): Command {
         return;
       }
 
-      requireContainerRunning(DEFAULT_CONTAINER_NAME);
+      if (firewallProfile) {
+        const profiles = resolveFirewallProfiles(loadFirewallConfig().profiles);
+        if (!profiles[firewallProfile]) {
+          ui.error(`Unknown firewall profile: ${firewallProfile}`);
+          ui.hint(`Available: ${[DEFAULT_FIREWALL_PROFILE, ...Object.keys(profiles)].join(", ")}`);
+          process.exit(1);
+        }
+      }
+
+      const projects = listProjects(getActiveContainer());
+      if (options.workspace && !projects[options.workspace]) {
+        ui.error(`Unknown project: ${options.workspace}`);
+        const names = Object.keys(projects);
+        ui.hint(names.length > 0 ? `Available: ${names.join(", ")}` : `Add one: ${ui.style.command(cccCommand("project add <name> <path>"))}`);
+        process.exit(1);
+      }
+
+      const worktreeSpec = options.worktree ? parseWorktreeSpec(options.worktree) : null;
+      if (options.worktree) {
+        if (options.workspace) {
+          ui.error("Use either --workspace or --worktree, not both");
+          process.exit(1);
+        }
+        if (!worktreeSpec) {
+          ui.error(`Invalid worktree: ${options.worktree}`);
+          ui.hint("Expected <project> or <project>@<branch>");
+          process.exit(1);
+        }
+        if (!projects[worktreeSpec.project]) {
+          ui.error(`Unknown project: ${worktreeSpec.project}`);
+          ui.hint(`Register it first: ${ui.style.command(cccCommand("project add <name> <path>"))}`);
+          process.exit(1);
+        }
+        if (!isValidWorktreeSession(sessionName)) {
+          ui.error(`Invalid session name for a worktree: ${sessionName}`);
+          ui.hint("Use letters, numbers, dots, hyphens and underscores");
+          process.exit(1);
+        }
+      }
+
+      requireContainerRunning(getContainerName());
+
+      // A session's profile is set when it starts; re-attaching can't change it
+      if (firewallProfile && getSessions(getContainerName()).includes(sessionName)) {
+        ui.error(`Session '${sessionName}' is already running with its own firewall profile`);
+        ui.hint(`Attach without a profile, or end it first: ${ui.style.command(cccCommand(`kill ${sessionName}`))}`);
+        process.exit(1);
+      }
+
+      let workdir = options.workspace ? `/workspace/${options.workspace}` : undefined;
+      if (worktreeSpec) {
+        const existing = listWorktrees(getContainerName()).find((w) => w.session === sessionName);
+        if (!existing) {
+          const branch = worktreeSpec.branch ?? getDefaultWorktreeBranch(sessionName);
+          try {
+            addWorktree(getContainerName(), sessionName, worktreeSpec.project, branch);
+          } catch {
+            ui.error(`Failed to create worktree for '${sessionName}'`);
+            process.exit(1);
+          }
+        } else if (
+          existing.project !== worktreeSpec.project ||
+          (worktreeSpec.branch && existing.branch !== worktreeSpec.branch)
+        ) {
+          ui.error(`Session '${sessionName}' already has a worktree of ${existing.project} @ ${existing.branch ?? "detached"}`);
+          ui.hint(`Remove it first: ${ui.style.command(cccCommand(`kill ${sessionName} --worktree`))}`);
+          process.exit(1);
+        }
+        workdir = getWorktreePath(sessionName);
+      }
 
-      attachSession(DEFAULT_CONTAINER_NAME, sessionName, {
-        noFirewall: !options.firewall,
+      attachSession(getContainerName(), sessionName, {
+        firewallProfile,
         yolo: yoloEnabled,
         prompt: yoloPrompt,
         agent,
+        workdir,
       });
     });
 
@@ -189,11 +810,39 @@ export function createCLI(): Command {
     .command("init")
     .description("Initialize a new coding container")
     .option("--agents <names>", "Agent(s) to use (comma-separated, e.g., claude,codex)")
+    .option("--git-name <name>", "Git user name inside the container")
+    .option("--git-email <email>", "Git email inside the container")
+    .option("--config <file>", "Read answers from a TOML file (implies --yes)")
+    .option("-y, --yes", "Never prompt; use flags, environment and host git config")
     .option("--no-build", "Skip building the container")
     .option("--no-cache", "Build without Docker cache")
-    .action(async (options) => {
+    .action(async (options, command: Command) => {
       const host = getGlobalTarget();
 
+      let fileAnswers: InitAnswers = {};
+      if (options.config) {
+        try {
+          fileAnswers = loadInitAnswers(options.config);
+        } catch (error) {
+          ui.error(`Could not read ${options.config}: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      }
+
+      const answers = mergeInitAnswers(
+        {
+          agents: options.agents?.split(",").map((s: string) => s.trim()).filter(Boolean),
+          gitName: options.gitName,
+          gitEmail: options.gitEmail,
+          build: command.getOptionValueSource("build") === "cli" ? options.build : undefined,
+        },
+        getEnvInitAnswers(),
+        fileAnswers,
+        getHostGitIdentity()
+      );
+      const interactive = !options.yes && !options.config && process.stdin.isTTY === true;
+      const build = answers.build ?? true;
+
       let agents = getAgents();
 
       if (Object.keys(agents).length === 0) {
@@ -204,36 +853,51 @@ export function createCLI(): Command {
           process.exit(1);
         }
 
-        console.log(`\n${ui.symbols.sparkles} ${ui.style.bold("No agents configured. Select agents to enable:")}\n`);
+        let selectedNames: string[] = [];
 
-        for (let i = 0; i < availableTemplates.length; i++) {
-          const t = availableTemplates[i]!;
-          console.log(`  ${ui.style.highlight(`[${i + 1}]`)} ${ui.style.bold(t.name)} ${ui.style.dim(`- ${t.description}`)}`);
-        }
-        console.log(`  ${ui.style.highlight("[a]")} ${ui.style.bold("All agents")}`);
-        console.log();
+        if (answers.agents) {
+          for (const name of answers.agents) {
+            if (!availableTemplates.some((t) => t.name === name)) {
+              ui.error(`Unknown agent: ${name}`);
+              console.log(`  Available agents: ${availableTemplates.map((t) => t.name).join(", ")}`);
+              process.exit(1);
+            }
+          }
+          selectedNames = answers.agents;
+        } else if (!interactive) {
+          ui.error("No agents configured");
+          ui.hint(`Choose them with: ${ui.style.command(cccCommand("init --agents claude,codex"))} or CCC_AGENTS`);
+          process.exit(1);
+        } else {
+          console.log(`\n${ui.symbols.sparkles} ${ui.style.bold("No agents configured. Select agents to enable:")}\n`);
 
-        const readline = await import("readline");
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-        });
+          for (let i = 0; i < availableTemplates.length; i++) {
+            const t = availableTemplates[i]!;
+            console.log(`  ${ui.style.highlight(`[${i + 1}]`)} ${ui.style.bold(t.name)} ${ui.style.dim(`- ${t.description}`)}`);
+          }
+          console.log(`  ${ui.style.highlight("[a]")} ${ui.style.bold("All agents")}`);
+          console.log();
 
-        const answer = await new Promise<string>((resolve) => {
-          rl.question(`  ${ui.style.dim("Enter selection (e.g., 1,2 or a):")} `, resolve);
-        });
-        rl.close();
+          const readline = await import("readline");
+          const rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout,
+          });
 
-        let selectedNames: string[] = [];
+          const answer = await new Promise<string>((resolve) => {
+            rl.question(`  ${ui.style.dim("Enter selection (e.g., 1,2 or a):")} `, resolve);
+          });
+          rl.close();
 
-        if (answer.toLowerCase() === "a") {
-          selectedNames = availableTemplates.map((t) => t.name);
-        } else {
-          const indices = answer.split(",").map((s) => parseInt(s.trim(), 10) - 1);
-          for (const idx of indices) {
-            const template = availableTemplates[idx];
-            if (idx >= 0 && idx < availableTemplates.length && template) {
-              selectedNames.push(template.name);
+          if (answer.toLowerCase() === "a") {
+            selectedNames = availableTemplates.map((t) => t.name);
+          } else {
+            const indices = answer.split(",").map((s) => parseInt(s.trim(), 10) - 1);
+            for (const idx of indices) {
+              const template = availableTemplates[idx];
+              if (idx >= 0 && idx < availableTemplates.length && template) {
+                selectedNames.push(template.name);
+              }
             }
           }
         }
@@ -250,7 +914,7 @@ export function createCLI(): Command {
         }
 
         const firstEnabled = enabled[0];
-        if (firstEnabled && !getDefaultAgent()) {
+        if (firstEnabled && !getDefaultAgent() && !answers.defaultAgent) {
           setDefaultAgent(firstEnabled);
           ui.item(`Set ${firstEnabled} as default agent`, "ok");
         }
@@ -260,11 +924,20 @@ export function createCLI(): Command {
         agents = getAgents();
       }
 
+      if (answers.defaultAgent && answers.defaultAgent !== getDefaultAgent()) {
+        if (!agents[answers.defaultAgent]) {
+          ui.error(`Unknown default agent: ${answers.defaultAgent}`);
+          console.log(`  Available agents: ${Object.keys(agents).join(", ")}`);
+          process.exit(1);
+        }
+        setDefaultAgent(answers.defaultAgent);
+        ui.item(`Set ${answers.defaultAgent} as default agent`, "ok");
+      }
+
       let selectedAgents: Agent[] = [];
 
-      if (options.agents) {
-        const agentNames = options.agents.split(",").map((s: string) => s.trim());
-        for (const name of agentNames) {
+      if (answers.agents) {
+        for (const name of answers.agents) {
           const agent = agents[name];
           if (!agent) {
             ui.error(`Unknown agent: ${name}`);
@@ -287,37 +960,18 @@ export function createCLI(): Command {
         console.log(`${ui.symbols.rocket} ${ui.style.bold("Initializing remote container on")} ${ui.style.highlight(host)}\n`);
         console.log(`  ${ui.style.dim("Agents:")} ${selectedAgents.map((a) => a.name).join(", ")}\n`);
 
-        // Prompt for Git config
-        const readline = await import("readline");
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-        });
-
-        const gitUserName = await new Promise<string>((resolve) => {
-          rl.question(`  ${ui.style.dim("Git user name:")} `, (answer) => {
-            resolve(answer.trim() || "Developer");
-          });
-        });
-
-        const gitUserEmail = await new Promise<string>((resolve) => {
-          rl.question(`  ${ui.style.dim("Git email:")} `, (answer) => {
-            resolve(answer.trim() || "dev@example.com");
-          });
-        });
-        rl.close();
-
+        const { gitUserName, gitUserEmail } = await resolveGitIdentity(answers, interactive);
         console.log();
 
         try {
-          await initRemote(host, selectedAgents, { build: options.build, gitUserName, gitUserEmail });
+          await initRemote(host, selectedAgents, { build, gitUserName, gitUserEmail });
         } catch (error) {
           process.exit(1);
         }
         return;
       }
 
-      const outputDir = DEFAULT_OUTPUT_DIR;
+      const outputDir = getContainerOutputDir();
       ui.welcome();
       console.log(`${ui.symbols.rocket} ${ui.style.bold("Initializing local coding container...")}\n`);
       console.log(`  ${ui.style.dim("Agents:")} ${selectedAgents.map((a) => a.name).join(", ")}\n`);
@@ -332,37 +986,24 @@ export function createCLI(): Command {
       }
 
       ui.header(ui.step(2, 5, "Git configuration"));
-      const readline = await import("readline");
-      const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout,
-      });
-
-      const gitUserName = await new Promise<string>((resolve) => {
-        rl.question(`  ${ui.style.dim("Git user name:")} `, (answer) => {
-          resolve(answer.trim() || "Developer");
-        });
-      });
-
-      const gitUserEmail = await new Promise<string>((resolve) => {
-        rl.question(`  ${ui.style.dim("Git email:")} `, (answer) => {
-          resolve(answer.trim() || "dev@example.com");
-        });
-      });
-      rl.close();
-
-      ui.item(`Git config: ${gitUserName} <${gitUserEmail}>`, "ok");
+      const { gitUserName, gitUserEmail } = await resolveGitIdentity(answers, interactive);
 
       ui.header(ui.step(3, 5, "Generating container files"));
       const extensions = Object.values(loadExtensions());
-      const userFirewallDomains = getUserFirewallDomains();
+      const firewallConfig = loadFirewallConfig();
       generateFiles({
         agents: selectedAgents,
         outputDir,
         gitUserName,
         gitUserEmail,
         extensions,
-        userFirewallDomains,
+        userFirewallDomains: firewallConfig.domains,
+        userFirewallRules: firewallConfig.rules,
+        firewallSshPolicy: firewallConfig.ssh,
+        firewallMode: firewallConfig.mode,
+        firewallProfiles: firewallConfig.profiles,
+        firewallRefreshInterval: firewallConfig.refresh_interval,
+        projects: getProjectMounts(),
       });
 
       ui.header(ui.step(4, 5, "Setting up container SSH key"));
@@ -380,7 +1021,7 @@ export function createCLI(): Command {
 
       console.log(`\n  ${ui.symbols.folder} Output directory: ${ui.style.path(outputDir)}`);
 
-      if (options.build) {
+      if (build) {
         console.log(`\n  ${ui.symbols.package} Building container... ${ui.style.dim("(this may take a few minutes)")}`);
         await buildContainer(outputDir, { noCache: !options.cache });
 
@@ -389,7 +1030,7 @@ export function createCLI(): Command {
         ui.item("Container started", "ok");
       } else {
         console.log(`\n  ${ui.style.dim("Files created. To build and start the container:")}`);
-        ui.showCommand("ccc build && ccc start");
+        ui.showCommand(`${cccCommand("build")} && ${cccCommand("start")}`);
       }
 
       ui.success("Container initialized!");
@@ -404,7 +1045,7 @@ export function createCLI(): Command {
 
       console.log(`\n  ${ui.symbols.lightning} ${ui.style.bold("Next steps:")}`);
       console.log(`  ${ui.style.dim("1.")} Add the SSH key above to GitHub`);
-      console.log(`  ${ui.style.dim("2.")} Start coding: ${ui.style.command("ccc")}`);
+      console.log(`  ${ui.style.dim("2.")} Start coding: ${ui.style.command(cccCommand())}`);
 
       ui.hint(`Detach from session: ${ui.style.command("Ctrl+Space Ctrl+Q")}`);
     });
@@ -427,9 +1068,16 @@ export function createCLI(): Command {
           const allAgents = Object.values(getAgents());
           if (allAgents.length > 0) {
             console.log(`  ${ui.style.dim("Syncing container files...")}`);
-            syncRemoteFiles(host, allAgents);
-            ui.item("Files synced", "ok");
+            const sync = syncRemoteFiles(host, allAgents);
+            reportSyncChanges(sync);
             console.log();
+
+            // Nothing the image is built from changed since it was built
+            if (sync.imageCurrent && options.cache) {
+              ui.success("Container image is up to date");
+              ui.hint(`Rebuild anyway with: ${ui.style.command(targetCommand("build --no-cache"))}`);
+              return;
+            }
           }
           await buildRemote(host, { noCache: !options.cache });
         } catch {
@@ -440,13 +1088,13 @@ export function createCLI(): Command {
 
       console.log(`\n${ui.symbols.package} ${ui.style.bold("Building container...")}\n`);
 
-      if (!existsSync(join(DEFAULT_OUTPUT_DIR, "Dockerfile"))) {
+      if (!existsSync(join(getContainerOutputDir(), "Dockerfile"))) {
         ui.error("No Dockerfile found.");
-        console.log(`\n  Run ${ui.style.command("ccc init")} first to generate the container files.`);
+        console.log(`\n  Run ${ui.style.command(cccCommand("init"))} first to generate the container files.`);
         process.exit(1);
       }
 
-      await buildContainer(DEFAULT_OUTPUT_DIR, { noCache: !options.cache });
+      await buildContainer(getContainerOutputDir(), { noCache: !options.cache });
     });
 
   program
@@ -467,16 +1115,22 @@ export function createCLI(): Command {
       }
 
       console.log(`\n${ui.symbols.rocket} ${ui.style.bold("Starting container...")}\n`);
-      await startContainer(DEFAULT_OUTPUT_DIR);
+      await startContainer(getContainerOutputDir());
       ui.success("Container started!");
-      ui.hint(`Connect with: ${ui.style.command("ccc")}`);
+      ui.hint(`Connect with: ${ui.style.command(cccCommand())}`);
     });
 
   program
     .command("ls")
     .description("List all hosts and sessions (or sessions for a specific target with @host prefix)")
-    .action(() => {
+    .action(async () => {
       const host = getGlobalTarget();
+      if (jsonOutput) {
+        const scope = host ?? (getGlobalTargetRaw() === "local" ? "local" : undefined);
+        printJson<HostsJson>({ hosts: await collectHostsJson(scope) });
+        return;
+      }
+
       // If specific target provided via @host prefix, just show that one
       if (host) {
         console.log(`\n${ui.symbols.terminal} ${ui.style.bold("Active sessions on")} ${ui.style.highlight(host)}:\n`);
@@ -485,63 +1139,44 @@ export function createCLI(): Command {
       }
       if (getGlobalTargetRaw() === "local") {
         console.log(`\n${ui.symbols.terminal} ${ui.style.bold("Active sessions (local):")}\n`);
-        listSessions(DEFAULT_CONTAINER_NAME);
+        listSessions(getContainerName());
         return;
       }
 
       // Show all hosts and their sessions
-      const remotes = listRemotes();
+      const remotes = Object.entries(listRemotes());
       const defaultTarget = getDefault();
+      const probes = remotes.map(([name, config]) => ({ label: `@${name}`, probe: probeRemoteHost(config.host) }));
 
       console.log(`\n${ui.symbols.terminal} ${ui.style.bold("Hosts & Sessions")}\n`);
 
       // Local host
       const isLocalDefault = defaultTarget === "local";
       const localMarker = isLocalDefault ? ` ${ui.style.success("(default)")}` : "";
+      const localStatuses = await getLocalStatuses();
       console.log(`  ${ui.symbols.server} ${ui.style.bold("local")}${localMarker}`);
 
-      const localStatus = getContainerStatus(DEFAULT_CONTAINER_NAME);
-      if (!localStatus.exists) {
-        console.log(`    ${ui.style.dim("Container not initialized")}`);
-      } else if (!localStatus.running) {
-        console.log(`    ${ui.style.dim("Container stopped")}`);
-      } else {
-        if (localStatus.sessions.length === 0) {
-          console.log(`    ${ui.style.dim("No active sessions")}`);
-        } else {
-          for (const session of localStatus.sessions) {
-            console.log(`    ${ui.style.dim("•")} ${session}`);
-          }
-        }
+      for (const { name, status } of localStatuses) {
+        printContainerSessions(status, localStatuses.length > 1 ? name : undefined);
       }
       console.log();
 
-      // Remote hosts
-      for (const [name, config] of Object.entries(remotes)) {
+      // Remote hosts, printed in order as they answer
+      await renderAsAnswered(probes, (probe, index) => {
+        const [name, config] = remotes[index]!;
         const isDefault = defaultTarget === `@${name}`;
         const marker = isDefault ? ` ${ui.style.success("(default)")}` : "";
         console.log(`  ${ui.symbols.cloud} ${ui.style.bold(`@${name}`)}${marker} ${ui.style.dim(`(${config.host})`)}`);
 
-        const remoteStatus = getRemoteHostStatus(config.host);
-        if (!remoteStatus.reachable) {
-          console.log(`    ${ui.style.warning("unreachable")}`);
-        } else if (!remoteStatus.exists) {
-          console.log(`    ${ui.style.dim("Container not initialized")}`);
-        } else if (!remoteStatus.running) {
-          console.log(`    ${ui.style.dim("Container stopped")}`);
-        } else {
-          if (remoteStatus.sessions.length === 0) {
-            console.log(`    ${ui.style.dim("No active sessions")}`);
-          } else {
-            for (const session of remoteStatus.sessions) {
-              console.log(`    ${ui.style.dim("•")} ${session}`);
-            }
-          }
+        if (!probe.reachable) {
+          console.log(`    ${ui.style.warning(probe.timedOut ? "timed out" : "unreachable")}`);
+        }
+        for (const { name: container, status } of probe.containers) {
+          printContainerSessions(status, probe.containers.length > 1 ? container : undefined);
         }
         console.log();
-      }
-
-      if (Object.keys(remotes).length === 0) {
+      });
+      if (remotes.length === 0) {
         console.log(`  ${ui.style.dim("No remotes configured")}`);
         ui.hint(`Add a remote: ${ui.style.command("ccc remote add <name> <user@host>")}`);
       }
@@ -550,14 +1185,20 @@ export function createCLI(): Command {
   program
     .command("status")
     .description("Show status of all hosts (containers, takopi, sessions, agents)")
-    .action(() => {
-      const remotes = listRemotes();
+    .action(async () => {
+      if (jsonOutput) {
+        printJson<HostsJson>({ hosts: await collectHostsJson() });
+        return;
+      }
+
+      const remotes = Object.entries(listRemotes());
       const defaultTarget = getDefault();
+      const probes = remotes.map(([name, config]) => ({ label: `@${name}`, probe: probeRemoteHost(config.host) }));
 
       console.log(`\n${ui.symbols.gear} ${ui.style.bold("Host Status")}\n`);
 
       // Table header
-      const hostWidth = 16;
+      const hostWidth = 24;
       const statusWidth = 12;
       const takopiWidth = 10;
       const sessionsWidth = 6;
@@ -597,107 +1238,137 @@ export function createCLI(): Command {
         );
       };
 
-      // Local host
-      const localLabel = defaultTarget === "local" ? "local *" : "local";
-      const localStatus = getContainerStatus(DEFAULT_CONTAINER_NAME);
-
-      if (!localStatus.exists) {
-        formatRow(
-          localLabel,
-          ui.style.dim("○"), "not init", ui.style.dim("not init"),
-          ui.style.dim("-"), "-", ui.style.dim("-"),
-          0, []
-        );
-      } else if (!localStatus.running) {
-        formatRow(
-          localLabel,
-          ui.style.warn(), "stopped", ui.style.warning("stopped"),
-          ui.style.dim("-"), "-", ui.style.dim("-"),
-          0, []
-        );
-      } else {
-        if (localStatus.takopi) {
-          formatRow(
-            localLabel,
-            ui.style.ok(), "running", ui.style.success("running"),
-            ui.style.ok(), "running", ui.style.success("running"),
-            localStatus.sessions.length, localStatus.agents
-          );
-        } else {
+      // One row per container environment
+      const formatStatus = (label: string, status: ContainerStatus & { reachable?: boolean; timedOut?: boolean }) => {
+        if (status.timedOut) {
           formatRow(
-            localLabel,
-            ui.style.ok(), "running", ui.style.success("running"),
-            ui.style.dim("○"), "off", ui.style.dim("off"),
-            localStatus.sessions.length, localStatus.agents
+            label,
+            ui.style.fail(), "timed out", ui.style.error("timed out"),
+            ui.style.dim("-"), "-", ui.style.dim("-"),
+            0, []
           );
-        }
-      }
-
-      // Remote hosts
-      for (const [name, config] of Object.entries(remotes)) {
-        const isDefault = defaultTarget === `@${name}`;
-        const label = isDefault ? `@${name} *` : `@${name}`;
-        const remoteStatus = getRemoteHostStatus(config.host);
-
-        if (!remoteStatus.reachable) {
+        } else if (status.reachable === false) {
           formatRow(
             label,
             ui.style.fail(), "unreachable", ui.style.error("unreachable"),
             ui.style.dim("-"), "-", ui.style.dim("-"),
             0, []
           );
-        } else if (!remoteStatus.exists) {
+        } else if (!status.exists) {
           formatRow(
             label,
             ui.style.dim("○"), "not init", ui.style.dim("not init"),
             ui.style.dim("-"), "-", ui.style.dim("-"),
             0, []
           );
-        } else if (!remoteStatus.running) {
+        } else if (!status.running) {
           formatRow(
             label,
             ui.style.warn(), "stopped", ui.style.warning("stopped"),
             ui.style.dim("-"), "-", ui.style.dim("-"),
             0, []
           );
+        } else if (status.takopi) {
+          formatRow(
+            label,
+            ui.style.ok(), "running", ui.style.success("running"),
+            ui.style.ok(), "running", ui.style.success("running"),
+            status.sessions.length, status.agents
+          );
         } else {
-          if (remoteStatus.takopi) {
-            formatRow(
-              label,
-              ui.style.ok(), "running", ui.style.success("running"),
-              ui.style.ok(), "running", ui.style.success("running"),
-              remoteStatus.sessions.length, remoteStatus.agents
-            );
-          } else {
-            formatRow(
-              label,
-              ui.style.ok(), "running", ui.style.success("running"),
-              ui.style.dim("○"), "off", ui.style.dim("off"),
-              remoteStatus.sessions.length, remoteStatus.agents
-            );
-          }
+          formatRow(
+            label,
+            ui.style.ok(), "running", ui.style.success("running"),
+            ui.style.dim("○"), "off", ui.style.dim("off"),
+            status.sessions.length, status.agents
+          );
         }
+      };
+
+      // Local host
+      const localLabel = defaultTarget === "local" ? "local *" : "local";
+      for (const { name, status } of await getLocalStatuses()) {
+        formatStatus(formatContainerLabel(localLabel, name), status);
       }
 
+      // Remote hosts, one row per environment as each host answers
+      await renderAsAnswered(probes, (probe, index) => {
+        const [name] = remotes[index]!;
+        const label = defaultTarget === `@${name}` ? `@${name} *` : `@${name}`;
+        if (!probe.reachable) {
+          formatStatus(formatContainerLabel(label, DEFAULT_CONTAINER), { ...UNREACHABLE_STATUS, timedOut: probe.timedOut });
+          return;
+        }
+        for (const { name: container, status } of probe.containers) {
+          formatStatus(formatContainerLabel(label, container), status);
+        }
+      });
+
       console.log();
       console.log(`  ${ui.style.dim("* = default target")}`);
 
       ui.hint(`Use ${ui.style.command("ccc ls")} to see session details`);
     });
 
+  // Internal: one-pass status of this host for ccc ls / ccc status on another machine (see probe.ts)
+  program
+    .command(PROBE_COMMAND, { hidden: true })
+    .option("--agents <names>", "Agents to check in environments without agent configs", "")
+    .action(async (options) => {
+      const agentNames = options.agents.split(",").map((s: string) => s.trim()).filter(Boolean);
+      printJson<ProbeJson>(await collectProbe(agentNames));
+    });
+
   program
     .command("kill <session>")
     .description("Kill a session")
-    .action((session) => {
+    .option("--worktree", "Also remove the session's git worktree (refuses if it has uncommitted changes)")
+    .action((session, options) => {
       const host = getGlobalTarget();
 
       if (host) {
+        if (options.worktree) {
+          runRemoteCcc(host, ["kill", session, "--worktree"]);
+          return;
+        }
         killRemoteSession(host, session);
         return;
       }
 
-      killSession(DEFAULT_CONTAINER_NAME, session);
-      ui.success(`Session '${session}' killed`);
+      const worktree = listWorktrees(getContainerName()).find((w) => w.session === session);
+
+      if (!options.worktree) {
+        killSession(getContainerName(), session);
+        ui.success(`Session '${session}' killed`);
+        if (worktree) {
+          ui.hint(`Worktree kept at ${worktree.path}; remove it with ${ui.style.command(cccCommand(`kill ${session} --worktree`))}`);
+        }
+        return;
+      }
+
+      if (!worktree) {
+        ui.error(`Session '${session}' has no worktree`);
+        process.exit(1);
+      }
+
+      const changes = getWorktreeChanges(getContainerName(), worktree);
+      if (changes.length > 0) {
+        ui.error(`Worktree ${worktree.path} has uncommitted changes:`);
+        for (const change of changes.slice(0, 10)) {
+          console.log(`  ${change}`);
+        }
+        if (changes.length > 10) {
+          console.log(`  ${ui.style.dim(`... and ${changes.length - 10} more`)}`);
+        }
+        ui.hint(`Commit or stash them first: ${ui.style.command(cccCommand(session))}`);
+        process.exit(1);
+      }
+
+      if (getSessions(getContainerName()).includes(session)) {
+        killSession(getContainerName(), session);
+      }
+      removeWorktree(getContainerName(), worktree);
+      ui.success(`Removed worktree ${worktree.path} (branch ${worktree.branch ?? "detached"} kept)`);
     });
 
   program
@@ -713,7 +1384,7 @@ export function createCLI(): Command {
       }
 
       console.log(`\n${ui.symbols.file} ${ui.style.bold("Container logs:")}\n`);
-      showLogs(DEFAULT_CONTAINER_NAME);
+      showLogs(getContainerName());
     });
 
   program
@@ -729,7 +1400,7 @@ export function createCLI(): Command {
       }
 
       console.log(`\n${ui.symbols.gear} ${ui.style.bold("Restarting container...")}`);
-      restartContainer(DEFAULT_CONTAINER_NAME);
+      restartContainer(getContainerName());
       ui.success("Container restarted!");
     });
 
@@ -740,7 +1411,7 @@ export function createCLI(): Command {
     .option("--binary", "Update the ccc binary on remote host")
     .action(async (options) => {
       const host = getGlobalTarget();
-      const containerName = DEFAULT_CONTAINER_NAME;
+      const containerName = getContainerName();
       const { execSync } = await import("child_process");
       const agents = getAgents();
 
@@ -779,20 +1450,645 @@ export function createCLI(): Command {
 
         ui.item(`Updating ${name}...`, "pending");
 
-        try {
-          const updateCmd = `docker exec ${containerName} bash -c "${agent.installCmd}"`;
-          if (host) {
-            execSync(`ssh ${host} "${updateCmd}"`, { stdio: "inherit" });
-          } else {
-            execSync(updateCmd, { stdio: "inherit" });
-          }
-          ui.item(`${name} updated`, "ok");
-        } catch (err) {
-          ui.item(`Failed to update ${name}`, "fail");
+        try {
+          const updateCmd = `docker exec ${containerName} bash -c "${agent.installCmd}"`;
+          if (host) {
+            execSync(`${sshCommand(host)} "${updateCmd}"`, { stdio: "inherit" });
+          } else {
+            execSync(updateCmd, { stdio: "inherit" });
+          }
+          ui.item(`${name} updated`, "ok");
+        } catch (err) {
+          ui.item(`Failed to update ${name}`, "fail");
+        }
+      }
+
+      ui.success("Update complete!");
+    });
+
+  program
+    .command("doctor")
+    .description("Check Docker, the container, agents, firewall, Git access and extensions")
+    .action(() => {
+      const host = getGlobalTarget();
+
+      console.log(`\n${ui.symbols.gear} ${ui.style.bold("Doctor")} ${ui.style.dim(host ? `(${host})` : "(local)")}`);
+
+      const checks: DoctorCheck[] = [];
+      if (host && !checkSSHConnection(host)) {
+        checks.push({ group: "Docker", name: "SSH", status: "fail", details: `cannot connect to ${host}`, fix: sshLoginCommand(host) });
+      } else {
+        if (host) checks.push({ group: "Docker", name: "SSH", status: "ok", details: host });
+
+        const hostProbe = host ? probeRemoteDoctorHost(host) : probeDoctorHost(getContainerOutputDir());
+        checks.push(...getHostChecks(hostProbe, targetCommand));
+
+        if (hostProbe.container === "running") {
+          const agents = getAgents();
+          const containerProbe = host
+            ? probeRemoteDoctorContainer(host, Object.values(agents))
+            : probeDoctorContainer(getContainerName(), Object.values(agents));
+
+          for (const [name, agent] of Object.entries(agents)) {
+            const installStatus = checkAgentInstalled(agent, { host });
+            if (!installStatus.installed) {
+              checks.push({ group: "Agents", name, status: "fail", details: "not installed", fix: targetCommand(`update -a ${name}`) });
+              continue;
+            }
+            checks.push({ group: "Agents", name, status: "ok", details: installStatus.version });
+
+            const config = getAgentConfig(name);
+            if (!config) continue;
+            const authStatus = checkAuthStatus(agent, config, { host });
+            checks.push({
+              group: "Agents",
+              name: `${name} auth`,
+              status: authStatus.authenticated ? "ok" : "warn",
+              details: authStatus.details,
+              fix: targetCommand(`agent auth ${name}`),
+            });
+          }
+
+          checks.push(...getContainerChecks(containerProbe, targetCommand));
+
+          for (const [name, ext] of Object.entries(loadExtensions())) {
+            if (ext.type !== "host" || !ext.runCmd) continue;
+            const running = isHostExtensionRunning(ext, { host: host ?? undefined });
+            checks.push({
+              group: "Extensions",
+              name,
+              status: running ? "ok" : "fail",
+              details: running ? "running" : "not running",
+              fix: targetCommand(`extension start ${name}`),
+            });
+          }
+        }
+      }
+
+      printDoctorChecks(checks);
+
+      const failed = checks.filter((check) => check.status === "fail").length;
+      const warnings = checks.filter((check) => check.status === "warn").length;
+      if (failed > 0) {
+        ui.error(`${failed} check${failed === 1 ? "" : "s"} failed${warnings > 0 ? `, ${warnings} warning${warnings === 1 ? "" : "s"}` : ""}`);
+        process.exit(1);
+      }
+      if (warnings > 0) {
+        ui.warning(`All checks passed with ${warnings} warning${warnings === 1 ? "" : "s"}`);
+      } else {
+        ui.success("All checks passed");
+      }
+    });
+
+  program
+    .command("diff")
+    .description("Show how the deployed container files differ from the current config")
+    .action(() => {
+      const host = getGlobalTarget();
+      const firewallConfig = loadFirewallConfig();
+      const fileNames = ["Dockerfile", "docker-compose.yml", "entrypoint.sh", "init-firewall.sh", "squid.conf"];
+      const deployed = host
+        ? readRemoteDeployedFiles(host, fileNames)
+        : readDeployedFiles(getContainerOutputDir(), fileNames);
+
+      if (!deployed.files["Dockerfile"]) {
+        ui.error(host ? `No container files on ${host}` : "No container files found");
+        ui.hint(`Generate them with: ${ui.style.command(cccCommand("init"))}`);
+        process.exit(1);
+      }
+
+      const generated = getGeneratedFileMap(
+        generateContainerFiles({
+          agents: Object.values(getAgents()),
+          extensions: Object.values(loadExtensions()),
+          userFirewallDomains: firewallConfig.domains,
+          userFirewallRules: firewallConfig.rules,
+          firewallSshPolicy: firewallConfig.ssh,
+          firewallMode: firewallConfig.mode,
+          firewallProfiles: firewallConfig.profiles,
+          firewallRefreshInterval: firewallConfig.refresh_interval,
+          ...getComposeGitUser(deployed.files["docker-compose.yml"]),
+        })
+      );
+      const drift = compareFiles(generated, deployed.files);
+      const image = getImageDrift(deployed);
+
+      const location = host ? `${getGlobalTargetRaw()} (${host})` : getContainerOutputDir();
+      console.log(`\n${ui.symbols.file} ${ui.style.bold("Container files vs config")} ${ui.style.dim(location)}\n`);
+      for (const file of drift) {
+        if (file.state === "unchanged") {
+          ui.item(`${file.name} ${ui.style.dim("up to date")}`, "ok");
+        } else {
+          ui.item(`${file.name} ${ui.style.warning(file.state === "missing" ? "not deployed" : "changed")}`, "warn");
+        }
+      }
+
+      for (const file of drift.filter((f) => f.diff)) {
+        console.log();
+        for (const line of file.diff!.trimEnd().split("\n")) {
+          if (line.startsWith("+++") || line.startsWith("---")) console.log(ui.style.bold(line));
+          else if (line.startsWith("+")) console.log(ui.style.success(line));
+          else if (line.startsWith("-")) console.log(ui.style.error(line));
+          else if (line.startsWith("@@")) console.log(ui.style.info(line));
+          else console.log(line);
+        }
+      }
+
+      const imageLabels: Record<typeof image, string> = {
+        current: ui.style.success("built from the deployed files"),
+        outdated: ui.style.warning("built from older files"),
+        unlabeled: ui.style.warning("built before ccc recorded file hashes"),
+        "no-container": ui.style.dim("no container"),
+      };
+      console.log(`\n  ${ui.style.dim("Image:")} ${imageLabels[image]}`);
+
+      const filesChanged = drift.some((file) => file.state !== "unchanged");
+      if (filesChanged) {
+        ui.hint(
+          host
+            ? `Sync and rebuild: ${ui.style.command(targetCommand("build"))}`
+            : `Regenerate the files: ${ui.style.command(cccCommand("init"))}`
+        );
+      } else if (image === "outdated" || image === "unlabeled") {
+        ui.hint(`Rebuild and recreate the container: ${ui.style.command(`${targetCommand("build")} && ${targetCommand("start")}`)}`);
+      }
+
+      if (filesChanged || image === "outdated" || image === "unlabeled") process.exit(1);
+    });
+
+  // Project registry - host directories mounted at /workspace/<name>
+  const projectCmd = program.command("project").description("Manage project directories mounted into the container");
+
+  projectCmd
+    .command("add <name> <path>")
+    .description("Mount a host directory at /workspace/<name>")
+    .action((name: string, path: string) => {
+      const host = getGlobalTarget();
+
+      // Paths live on the remote host, so register them there
+      if (host) {
+        sshExec(host, cccCommand(`project add ${name} '${path}'`), { stdio: "inherit" });
+        return;
+      }
+
+      if (!isValidProjectName(name)) {
+        ui.error(`Invalid project name: ${name}`);
+        ui.hint("Use letters, digits, ., - and _");
+        process.exit(1);
+      }
+
+      const projectPath = resolve(path.replace(/^~(?=$|\/)/, homedir()));
+      if (!existsSync(projectPath) || !statSync(projectPath).isDirectory()) {
+        ui.error(`Not a directory: ${projectPath}`);
+        process.exit(1);
+      }
+
+      const container = getActiveContainer();
+      const owner = getProjectContainer(name);
+      if (owner !== undefined && owner !== container) {
+        ui.error(`Project '${name}' is already registered in the '${owner}' environment`);
+        ui.hint(`Project names are shared by all environments. Pick another name, or remove it there: ${ui.style.command(["ccc", getContainerSelector(owner), `project rm ${name}`].filter(Boolean).join(" "))}`);
+        process.exit(1);
+      }
+
+      addProject(name, projectPath, container === DEFAULT_CONTAINER ? undefined : container);
+      ui.success(`Project '${name}' added: ${projectPath} -> /workspace/${name}`);
+
+      if (existsSync(join(getContainerOutputDir(), "docker-compose.yml"))) {
+        writeProjectMounts(getContainerOutputDir(), getProjectMounts());
+        ui.hint(`Mount it: ${ui.style.command(cccCommand("start"))} ${ui.style.dim("(recreates the container)")}`);
+      }
+      ui.hint(`Start a session in it: ${ui.style.command(cccCommand(`-w ${name}`))}`);
+    });
+
+  projectCmd
+    .command("list")
+    .alias("ls")
+    .description("List registered projects")
+    .action(() => {
+      const host = getGlobalTarget();
+
+      if (host) {
+        sshExec(host, cccCommand("project ls"), { stdio: "inherit" });
+        return;
+      }
+
+      const projects = listProjects(getActiveContainer());
+
+      console.log(`\n${ui.symbols.folder} ${ui.style.bold("Projects")}\n`);
+      if (Object.keys(projects).length === 0) {
+        console.log(`  ${ui.style.dim("(no projects registered)")}`);
+        ui.hint(`Add one: ${ui.style.command(cccCommand("project add <name> <path>"))}`);
+        return;
+      }
+
+      for (const [name, project] of Object.entries(projects)) {
+        const missing = existsSync(project.path) ? "" : ` ${ui.style.warning("(missing)")}`;
+        console.log(`  ${ui.style.highlight(name.padEnd(20))} ${project.path}${missing}`);
+        console.log(`  ${" ".repeat(20)} ${ui.style.dim(`/workspace/${name}`)}`);
+      }
+      console.log();
+    });
+
+  projectCmd
+    .command("rm <name>")
+    .description("Unregister a project (files are not touched)")
+    .action((name: string) => {
+      const host = getGlobalTarget();
+
+      if (host) {
+        sshExec(host, cccCommand(`project rm ${name}`), { stdio: "inherit" });
+        return;
+      }
+
+      if (!removeProject(name, getActiveContainer())) {
+        const owner = getProjectContainer(name);
+        ui.error(owner ? `Project '${name}' belongs to the '${owner}' environment` : `Project '${name}' not found`);
+        process.exit(1);
+      }
+      ui.success(`Project '${name}' removed`);
+
+      if (existsSync(join(getContainerOutputDir(), "docker-compose.yml"))) {
+        writeProjectMounts(getContainerOutputDir(), getProjectMounts());
+        ui.hint(`Unmount it: ${ui.style.command(cccCommand("start"))} ${ui.style.dim("(recreates the container)")}`);
+      }
+    });
+
+  program
+    .command("clone <url> [name]")
+    .description("Clone a git repository into /workspace/<name> and register it as a project")
+    .option("-b, --branch <branch>", "Branch to check out")
+    .option("-s, --session [name]", "Open a session in the checkout running the default agent")
+    .option("-a, --agent <name>", "Agent for --session (default: from config or first available)")
+    .action(async (url: string, nameArg: string | undefined, options) => {
+      const host = getGlobalTarget();
+
+      // Clone with the remote container's key and register the project there
+      if (host) {
+        const args = ["clone", shellQuote(url)];
+        if (nameArg) args.push(shellQuote(nameArg));
+        if (options.branch) args.push("--branch", shellQuote(options.branch));
+        if (options.session) args.push(typeof options.session === "string" ? `--session ${shellQuote(options.session)}` : "--session");
+        if (options.agent) args.push("--agent", shellQuote(options.agent));
+        runRemoteCcc(host, args);
+        return;
+      }
+
+      const name = nameArg ?? projectNameFromUrl(url);
+      if (!name || !isValidProjectName(name)) {
+        ui.error(nameArg ? `Invalid project name: ${nameArg}` : `Can't derive a project name from ${url}`);
+        ui.hint(`Pass one explicitly: ${ui.style.command(cccCommand(`clone ${url} <name>`))}`);
+        process.exit(1);
+      }
+
+      const outputDir = getContainerOutputDir();
+      const checkoutPath = join(outputDir, "projects", name);
+      if (getProjectContainer(name) !== undefined || existsSync(checkoutPath)) {
+        ui.error(`Project '${name}' already exists`);
+        ui.hint(`Pick another name: ${ui.style.command(cccCommand(`clone ${url} <name>`))}`);
+        process.exit(1);
+      }
+
+      requireContainerRunning(getContainerName());
+
+      // The key is bind-mounted, so a new one is visible without a restart
+      if (!existsSync(join(outputDir, "ssh-keys", "id_ed25519"))) {
+        await generateContainerSSHKeys(outputDir);
+      }
+
+      console.log(`\n${ui.symbols.package} ${ui.style.bold("Cloning")} ${ui.style.highlight(url)} ${ui.style.dim(`-> /workspace/${name}`)}\n`);
+      try {
+        cloneRepository(getContainerName(), url, name, options.branch);
+      } catch {
+        ui.error("Clone failed");
+        ui.hint(`The container authenticates with ${ui.style.path(join(outputDir, "ssh-keys", "id_ed25519.pub"))} - add it to your git host`);
+        ui.hint(`Check the firewall allows the git host: ${ui.style.command(cccCommand("firewall ls"))}`);
+        process.exit(1);
+      }
+
+      const container = getActiveContainer();
+      addProject(name, checkoutPath, container === DEFAULT_CONTAINER ? undefined : container);
+      ui.success(`Cloned into /workspace/${name} and registered project '${name}'`);
+
+      if (!options.session) {
+        ui.hint(`Start a session in it: ${ui.style.command(cccCommand(`-w ${name}`))}`);
+        return;
+      }
+
+      const agents = getAgents();
+      const agentName = options.agent || getDefaultAgent() || Object.keys(agents)[0];
+      const agent = agentName ? agents[agentName] : undefined;
+      if (!agent) {
+        ui.error(agentName ? `Unknown agent: ${agentName}` : "No agents enabled");
+        process.exit(1);
+      }
+
+      attachSession(getContainerName(), typeof options.session === "string" ? options.session : name, {
+        agent,
+        workdir: `/workspace/${name}`,
+        startAgent: true,
+      });
+    });
+
+  // Headless agent runs - output is captured in the container, see tasks.ts
+  program
+    .command("run <prompt>")
+    .description("Run an agent on a prompt in the background and print its task ID")
+    .option("-a, --agent <name>", "Agent to use (default: from config or first available)")
+    .option("-p, --project <name>", "Run in /workspace/<project>")
+    .action((prompt: string, options) => {
+      const host = getGlobalTarget();
+      const agent = resolveTaskAgent(options.agent);
+      const project: string | undefined = options.project;
+      if (project) {
+        requireTaskProject(project, host);
+      }
+
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+
+      const task: TaskSpec = {
+        id: createTaskId(),
+        agent: agent.name,
+        prompt,
+        project,
+      };
+      const command = buildTaskCommand(agent, prompt);
+
+      try {
+        if (host) {
+          startRemoteTask(host, task, command);
+        } else {
+          startTask(getContainerName(), task, command);
+        }
+      } catch {
+        ui.error("Failed to start task");
+        process.exit(1);
+      }
+
+      const where = project ? ` in /workspace/${project}` : "";
+      ui.success(`Task ${ui.style.highlight(task.id)} started (${agent.name}${where})`);
+      ui.hint(`Follow it: ${ui.style.command(cccCommand(`task logs ${task.id} -f`))}`);
+    });
+
+  const taskCmd = program
+    .command("task")
+    .description("Manage headless agent tasks (see ccc run)");
+
+  taskCmd
+    .command("ls")
+    .description("List tasks")
+    .action(() => {
+      const host = getGlobalTarget();
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+      const tasks = host ? listRemoteTasks(host) : listTasks(getContainerName());
+
+      console.log(`\n${ui.symbols.terminal} ${ui.style.bold("Tasks")}${host ? ` on ${ui.style.highlight(host)}` : ""}\n`);
+      if (tasks.length === 0) {
+        console.log(`  ${ui.style.dim("No tasks")}`);
+        ui.hint(`Start one: ${ui.style.command(cccCommand('run "<prompt>"'))}`);
+        return;
+      }
+
+      const idWidth = 10;
+      const stateWidth = 12;
+      const startedWidth = 10;
+      const agentWidth = 10;
+      const projectWidth = 14;
+      console.log(
+        `  ${ui.style.dim("ID".padEnd(idWidth))}` +
+          `${ui.style.dim("STATE".padEnd(stateWidth))}` +
+          `${ui.style.dim("STARTED".padEnd(startedWidth))}` +
+          `${ui.style.dim("AGENT".padEnd(agentWidth))}` +
+          `${ui.style.dim("PROJECT".padEnd(projectWidth))}` +
+          `${ui.style.dim("PROMPT")}`
+      );
+      for (const task of tasks) {
+        const prompt = task.prompt.replace(/\s+/g, " ");
+        console.log(
+          `  ${task.id.padEnd(idWidth)}` +
+            `${formatTaskState(task, stateWidth)}` +
+            `${ui.formatTimeAgo(new Date(task.started)).padEnd(startedWidth)}` +
+            `${task.agent.padEnd(agentWidth)}` +
+            `${(task.project ?? "-").padEnd(projectWidth)}` +
+            `${ui.style.dim(prompt.length > 50 ? `${prompt.slice(0, 49)}…` : prompt)}`
+        );
+      }
+    });
+
+  taskCmd
+    .command("logs <id>")
+    .description("Show a task's output")
+    .option("-f, --follow", "Keep streaming output until the task ends")
+    .action(async (id: string, options) => {
+      const host = getGlobalTarget();
+      requireTaskId(id);
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+
+      if (options.follow) {
+        await (host ? followRemoteTaskLog(host, id) : followTaskLog(getContainerName(), id));
+        return;
+      }
+
+      try {
+        const log = host ? getRemoteTaskLog(host, id) : getTaskLog(getContainerName(), id);
+        if (log) console.log(log);
+      } catch {
+        ui.error(`Task not found: ${id}`);
+        ui.hint(`List tasks: ${ui.style.command(cccCommand("task ls"))}`);
+        process.exit(1);
+      }
+    });
+
+  taskCmd
+    .command("stop <id>")
+    .description("Stop a running task")
+    .action((id: string) => {
+      const host = getGlobalTarget();
+      requireTaskId(id);
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+
+      const stopped = host ? stopRemoteTask(host, id) : stopTask(getContainerName(), id);
+      if (!stopped) {
+        ui.error(`Task ${id} is not running`);
+        ui.hint(`List tasks: ${ui.style.command(cccCommand("task ls"))}`);
+        process.exit(1);
+      }
+      ui.success(`Task ${id} stopped`);
+    });
+
+  // Persistent queue of headless tasks, run by a runner inside the container (see queue.ts)
+  const queueCmd = program
+    .command("queue")
+    .description("Queue headless agent tasks, run with per-host concurrency and per-agent rate limits");
+
+  queueCmd
+    .command("add <prompts...>")
+    .description("Queue one task per prompt")
+    .option("-a, --agent <name>", "Agent to use (default: from config or first available)")
+    .option("-p, --project <name>", "Run in /workspace/<project>")
+    .action((prompts: string[], options) => {
+      const host = getGlobalTarget();
+      const agent = resolveTaskAgent(options.agent);
+      const project: string | undefined = options.project;
+      if (project) {
+        requireTaskProject(project, host);
+      }
+
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+
+      const queued = new Date().toISOString();
+      const entries = prompts.map((prompt) => {
+        const task: QueuedTask = { id: createTaskId(), agent: agent.name, prompt, project, queued };
+        return { task, command: buildTaskCommand(agent, prompt) };
+      });
+
+      try {
+        if (host) {
+          enqueueRemoteTasks(host, entries);
+        } else {
+          enqueueTasks(getContainerName(), entries);
+        }
+      } catch {
+        ui.error("Failed to queue tasks");
+        process.exit(1);
+      }
+
+      ui.success(`Queued ${entries.length} task${entries.length === 1 ? "" : "s"} for ${agent.name}`);
+      for (const { task } of entries) {
+        console.log(`  ${ui.style.highlight(task.id)}  ${ui.style.dim(task.prompt.replace(/\s+/g, " "))}`);
+      }
+      ui.hint(`Check progress: ${ui.style.command(cccCommand("queue ls"))}, ${ui.style.command(cccCommand("task ls"))}`);
+    });
+
+  queueCmd
+    .command("ls")
+    .description("Show queue limits and pending tasks")
+    .action(() => {
+      const host = getGlobalTarget();
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+      const queue = host ? getRemoteQueue(host) : getQueue(getContainerName());
+
+      console.log(`\n${ui.symbols.terminal} ${ui.style.bold("Queue")}${host ? ` on ${ui.style.highlight(host)}` : ""}\n`);
+      printQueueSettings(queue.settings);
+
+      if (queue.pending.length === 0) {
+        console.log(`\n  ${ui.style.dim("No pending tasks")}`);
+        ui.hint(`Started tasks: ${ui.style.command(cccCommand("task ls"))}`);
+        return;
+      }
+
+      if (!queue.runnerActive) {
+        // The runner doesn't survive a container restart until the entrypoint has run again
+        if (host) {
+          resumeRemoteQueue(host);
+        } else {
+          resumeQueue(getContainerName());
+        }
+      }
+
+      const idWidth = 10;
+      const agentWidth = 10;
+      const projectWidth = 14;
+      const queuedWidth = 10;
+      console.log(
+        `\n  ${ui.style.dim("ID".padEnd(idWidth))}` +
+          `${ui.style.dim("AGENT".padEnd(agentWidth))}` +
+          `${ui.style.dim("PROJECT".padEnd(projectWidth))}` +
+          `${ui.style.dim("QUEUED".padEnd(queuedWidth))}` +
+          `${ui.style.dim("PROMPT")}`
+      );
+      for (const task of queue.pending) {
+        const prompt = task.prompt.replace(/\s+/g, " ");
+        console.log(
+          `  ${task.id.padEnd(idWidth)}` +
+            `${task.agent.padEnd(agentWidth)}` +
+            `${(task.project ?? "-").padEnd(projectWidth)}` +
+            `${ui.formatTimeAgo(new Date(task.queued)).padEnd(queuedWidth)}` +
+            `${ui.style.dim(prompt.length > 50 ? `${prompt.slice(0, 49)}…` : prompt)}`
+        );
+      }
+    });
+
+  queueCmd
+    .command("rm <id>")
+    .description("Remove a pending task")
+    .action((id: string) => {
+      const host = getGlobalTarget();
+      requireTaskId(id);
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+
+      const removed = host ? removeRemoteQueuedTask(host, id) : removeQueuedTask(getContainerName(), id);
+      if (!removed) {
+        ui.error(`Task ${id} is not queued`);
+        ui.hint(`Started tasks are stopped with ${ui.style.command(cccCommand(`task stop ${id}`))}`);
+        process.exit(1);
+      }
+      ui.success(`Removed task ${id} from the queue`);
+    });
+
+  queueCmd
+    .command("config")
+    .description("Show or change the host's queue limits")
+    .option("--concurrency <n>", "Max tasks running at once on this host")
+    .option("--rate-limit <agent=n...>", "Max task starts per hour for an agent (0 removes the limit)")
+    .action((options) => {
+      const host = getGlobalTarget();
+      if (!host) {
+        requireContainerRunning(getContainerName());
+      }
+      const settings = (host ? getRemoteQueue(host) : getQueue(getContainerName())).settings;
+
+      if (!options.concurrency && !options.rateLimit) {
+        console.log(`\n${ui.symbols.gear} ${ui.style.bold("Queue limits")}${host ? ` on ${ui.style.highlight(host)}` : ""}\n`);
+        printQueueSettings(settings);
+        return;
+      }
+
+      if (options.concurrency) {
+        const concurrency = Number(options.concurrency);
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          ui.error(`Invalid concurrency: ${options.concurrency}`);
+          process.exit(1);
+        }
+        settings.concurrency = concurrency;
+      }
+
+      for (const value of (options.rateLimit as string[] | undefined) ?? []) {
+        const [agent, limitText] = value.split("=");
+        const limit = Number(limitText);
+        if (!agent || !/^[\w.-]+$/.test(agent) || !Number.isInteger(limit) || limit < 0) {
+          ui.error(`Invalid rate limit: ${value}`);
+          ui.hint("Expected <agent>=<starts per hour>, e.g. claude=20");
+          process.exit(1);
+        }
+        if (limit === 0) {
+          delete settings.rateLimits[agent];
+        } else {
+          settings.rateLimits[agent] = limit;
         }
       }
 
-      ui.success("Update complete!");
+      if (host) {
+        setRemoteQueueSettings(host, settings);
+      } else {
+        setQueueSettings(getContainerName(), settings);
+      }
+      ui.success("Queue limits updated");
+      printQueueSettings(settings);
     });
 
   const remoteCmd = program
@@ -803,8 +2099,20 @@ export function createCLI(): Command {
     .command("add <name> <host>")
     .description("Add a remote host (e.g., ccc remote add myserver user@192.168.1.100)")
     .option("--alias <aliases...>", "Additional aliases for this remote")
+    .option("--port <port>", "SSH port")
+    .option("--identity <file>", "SSH private key file")
+    .option("--jump <host>", "Jump host (ProxyJump) to connect through")
+    .option("--user <user>", "SSH login user, for hosts given without user@")
+    .option("-o, --ssh-option <options...>", "Extra SSH options, e.g. ServerAliveInterval=30")
     .action((name, host, options) => {
-      addRemote(name, host, options.alias);
+      const ssh: RemoteSSHOptions = {
+        port: options.port === undefined ? undefined : Number(options.port),
+        identity: options.identity,
+        jump: options.jump,
+        user: options.user,
+        ssh_options: options.sshOption,
+      };
+      addRemote(name, host, options.alias, ssh);
 
       console.log(`\n${ui.symbols.check} ${ui.style.success("Remote added!")}\n`);
       ui.keyValue("Name", `@${name}`);
@@ -812,6 +2120,10 @@ export function createCLI(): Command {
       if (options.alias) {
         ui.keyValue("Aliases", options.alias.join(", "));
       }
+      const sshArgs = buildSSHArgs(ssh);
+      if (sshArgs.length > 0) {
+        ui.keyValue("SSH", sshArgs.join(" "));
+      }
 
       ui.hint(`Initialize container on remote: ${ui.style.command(`ccc init @${name}`)}`);
     });
@@ -835,6 +2147,24 @@ export function createCLI(): Command {
       const remotes = listRemotes();
       const defaultTarget = getDefault();
 
+      if (jsonOutput) {
+        printJson<RemotesJson>({
+          default: defaultTarget,
+          remotes: Object.entries(remotes).map(([name, config]) => ({
+            name,
+            host: config.host,
+            aliases: config.alias ?? [],
+            default: defaultTarget === `@${name}`,
+            port: config.port ?? null,
+            identity: config.identity ?? null,
+            jump: config.jump ?? null,
+            user: config.user ?? null,
+            sshOptions: config.ssh_options ?? [],
+          })),
+        });
+        return;
+      }
+
       console.log(`\n${ui.symbols.cloud} ${ui.style.bold("Configured remotes:")}\n`);
       console.log(`  ${ui.style.dim("Default:")} ${ui.style.highlight(defaultTarget)}\n`);
 
@@ -852,6 +2182,10 @@ export function createCLI(): Command {
         if (config.alias && config.alias.length > 0) {
           console.log(`    ${ui.style.dim("Aliases:")} ${config.alias.join(", ")}`);
         }
+        const sshArgs = buildSSHArgs(config);
+        if (sshArgs.length > 0) {
+          console.log(`    ${ui.style.dim("SSH:")} ${sshArgs.join(" ")}`);
+        }
         console.log();
       }
     });
@@ -876,25 +2210,6 @@ export function createCLI(): Command {
       const templates = listAvailableAgents();
       const enabledAgents = getAgents();
 
-      console.log(`\n${ui.symbols.gear} ${ui.style.bold("Agent Status")}`);
-      if (host) {
-        console.log(`  ${ui.style.dim("Target:")} ${ui.style.highlight(host)}`);
-      }
-      console.log();
-
-      // Table header
-      const nameWidth = 12;
-      const statusWidth = 12;
-      const authWidth = 22;
-
-      console.log(
-        `  ${ui.style.dim("NAME".padEnd(nameWidth))}` +
-          `${ui.style.dim("STATUS".padEnd(statusWidth))}` +
-          `${ui.style.dim("AUTH".padEnd(authWidth))}` +
-          `${ui.style.dim("VERSION")}`
-      );
-      console.log(`  ${ui.style.dim("─".repeat(60))}`);
-
       // Check if container is running for installed/auth checks
       let containerRunning = false;
       try {
@@ -903,7 +2218,7 @@ export function createCLI(): Command {
         } else {
           const { execSync } = await import("child_process");
           const result = execSync(
-            `docker inspect -f '{{.State.Running}}' ${DEFAULT_CONTAINER_NAME} 2>/dev/null`,
+            `docker inspect -f '{{.State.Running}}' ${getContainerName()} 2>/dev/null`,
             { encoding: "utf-8", stdio: "pipe" }
           );
           containerRunning = result.trim() === "true";
@@ -912,10 +2227,42 @@ export function createCLI(): Command {
         containerRunning = false;
       }
 
+      const defaultAgent = getDefaultAgent();
+      const statuses: AgentJson[] = [];
+
+      // Table columns
+      const nameWidth = 12;
+      const statusWidth = 12;
+      const authWidth = 22;
+
+      if (!jsonOutput) {
+        console.log(`\n${ui.symbols.gear} ${ui.style.bold("Agent Status")}`);
+        if (host) {
+          console.log(`  ${ui.style.dim("Target:")} ${ui.style.highlight(host)}`);
+        }
+        console.log();
+
+        console.log(
+          `  ${ui.style.dim("NAME".padEnd(nameWidth))}` +
+            `${ui.style.dim("STATUS".padEnd(statusWidth))}` +
+            `${ui.style.dim("AUTH".padEnd(authWidth))}` +
+            `${ui.style.dim("VERSION")}`
+        );
+        console.log(`  ${ui.style.dim("─".repeat(60))}`);
+      }
+
       for (const template of templates) {
         const agent = enabledAgents[template.name];
         const config = getAgentConfig(template.name);
         const isEnabled = isAgentEnabled(template.name);
+        const status: AgentJson = {
+          name: template.name,
+          enabled: isEnabled,
+          installed: false,
+          auth: { authenticated: false, method: config?.auth?.method ?? "none" },
+          default: template.name === defaultAgent,
+        };
+        statuses.push(status);
 
         let statusIcon: string;
         let statusText: string;
@@ -941,6 +2288,7 @@ export function createCLI(): Command {
         } else {
           // Check if installed in container
           const installStatus = checkAgentInstalled(agent, { host });
+          status.installed = installStatus.installed;
 
           if (!installStatus.installed) {
             statusIcon = ui.style.ok();
@@ -951,10 +2299,12 @@ export function createCLI(): Command {
             statusIcon = ui.style.ok();
             statusText = ui.style.success("enabled");
             version = installStatus.version || "-";
+            status.version = installStatus.version;
 
             // Check auth status
             if (config) {
               const authStatus = checkAuthStatus(agent, config, { host });
+              status.auth = authStatus;
               if (authStatus.authenticated) {
                 authIcon = ui.style.ok();
                 authText = ui.style.success(authStatus.details || "authenticated");
@@ -969,6 +2319,8 @@ export function createCLI(): Command {
           }
         }
 
+        if (jsonOutput) continue;
+
         // Truncate version if too long
         if (version.length > 20) {
           version = version.substring(0, 17) + "...";
@@ -982,13 +2334,17 @@ export function createCLI(): Command {
         );
       }
 
+      if (jsonOutput) {
+        printJson<AgentsJson>({ target: getGlobalTargetRaw() ?? "local", containerRunning, agents: statuses });
+        return;
+      }
+
       // Show default agent
-      const defaultAgent = getDefaultAgent();
       if (defaultAgent) {
         console.log(`\n  ${ui.style.dim("Default:")} ${ui.style.highlight(defaultAgent)}`);
       }
 
-      ui.hint(`Add agent: ${ui.style.command("ccc agent add <name>")}`);
+      ui.hint(`Add agent: ${ui.style.command(cccCommand("agent add <name>"))}`);
     });
 
   agentCmd
@@ -1041,13 +2397,12 @@ export function createCLI(): Command {
           if (host) {
             // Regenerate and sync files to remote, then rebuild
             console.log(`  ${ui.style.dim("Syncing container files to remote...")}`);
-            syncRemoteFiles(host, allAgents);
-            ui.item("Files synced to remote", "ok");
+            reportSyncChanges(syncRemoteFiles(host, allAgents));
 
             console.log(`\n  ${ui.style.dim("Building container...")}\n`);
             await buildRemote(host, { noCache: !options.cache });
           } else {
-            if (!existsSync(join(DEFAULT_OUTPUT_DIR, "Dockerfile"))) {
+            if (!existsSync(join(getContainerOutputDir(), "Dockerfile"))) {
               ui.error("No Dockerfile found. Run 'ccc init' first.");
               process.exit(1);
             }
@@ -1055,17 +2410,23 @@ export function createCLI(): Command {
             // Regenerate files with all agents
             console.log(`  ${ui.style.dim("Regenerating Docker files with all agents...")}`);
             const allExtensions = Object.values(loadExtensions());
-            const allUserDomains = getUserFirewallDomains();
+            const firewallConfig = loadFirewallConfig();
             generateFiles({
               agents: allAgents,
-              outputDir: DEFAULT_OUTPUT_DIR,
+              outputDir: getContainerOutputDir(),
               extensions: allExtensions,
-              userFirewallDomains: allUserDomains,
+              userFirewallDomains: firewallConfig.domains,
+              userFirewallRules: firewallConfig.rules,
+              firewallSshPolicy: firewallConfig.ssh,
+              firewallMode: firewallConfig.mode,
+              firewallProfiles: firewallConfig.profiles,
+              firewallRefreshInterval: firewallConfig.refresh_interval,
+              projects: getProjectMounts(),
             });
 
             // Build container
             console.log(`\n  ${ui.style.dim("Building container...")}\n`);
-            await buildContainer(DEFAULT_OUTPUT_DIR, { noCache: !options.cache });
+            await buildContainer(getContainerOutputDir(), { noCache: !options.cache });
           }
           ui.item("Container rebuilt", "ok");
 
@@ -1074,7 +2435,7 @@ export function createCLI(): Command {
           if (host) {
             await startRemote(host);
           } else {
-            await startContainer(DEFAULT_OUTPUT_DIR, true); // force recreate
+            await startContainer(getContainerOutputDir(), true); // force recreate
           }
           ui.item("Container started", "ok");
         } catch (err) {
@@ -1097,13 +2458,13 @@ export function createCLI(): Command {
           if (authStatus.authenticated) {
             ui.success(`${name} is ready!`);
           } else {
-            ui.hint("If auth didn't complete, run: " + ui.style.command(`ccc agent auth ${name}`));
+            ui.hint("If auth didn't complete, run: " + ui.style.command(cccCommand(`agent auth ${name}`)));
           }
         }
       } else {
         ui.success(`Agent '${name}' config enabled!`);
-        ui.hint(`Run ${ui.style.command("ccc agent add <more-agents> --no-build")} to add more`);
-        ui.hint(`Then ${ui.style.command("ccc build && ccc agent auth " + name)} to install and authenticate`);
+        ui.hint(`Run ${ui.style.command(cccCommand("agent add <more-agents> --no-build"))} to add more`);
+        ui.hint(`Then ${ui.style.command(`${cccCommand("build")} && ${cccCommand(`agent auth ${name}`)}`)} to install and authenticate`);
       }
     });
 
@@ -1149,7 +2510,7 @@ export function createCLI(): Command {
         ui.error(`Agent '${name}' not found or not enabled`);
         const templates = listAvailableAgents();
         if (templates.find((t) => t.name === name)) {
-          ui.hint(`Enable it first: ${ui.style.command(`ccc agent add ${name}`)}`);
+          ui.hint(`Enable it first: ${ui.style.command(cccCommand(`agent add ${name}`))}`);
         }
         process.exit(1);
       }
@@ -1168,7 +2529,7 @@ export function createCLI(): Command {
         } else {
           const { execSync } = await import("child_process");
           const result = execSync(
-            `docker inspect -f '{{.State.Running}}' ${DEFAULT_CONTAINER_NAME} 2>/dev/null`,
+            `docker inspect -f '{{.State.Running}}' ${getContainerName()} 2>/dev/null`,
             { encoding: "utf-8", stdio: "pipe" }
           );
           containerRunning = result.trim() === "true";
@@ -1179,7 +2540,7 @@ export function createCLI(): Command {
 
       if (!containerRunning) {
         ui.error("Container is not running");
-        ui.hint(`Start it first: ${ui.style.command("ccc start")}`);
+        ui.hint(`Start it first: ${ui.style.command(cccCommand("start"))}`);
         process.exit(1);
       }
 
@@ -1218,7 +2579,7 @@ export function createCLI(): Command {
           );
         } else {
           console.log(`\n${ui.style.dim("No default agent set")}`);
-          ui.hint(`Set one: ${ui.style.command("ccc agent default <name>")}`);
+          ui.hint(`Set one: ${ui.style.command(cccCommand("agent default <name>"))}`);
         }
         return;
       }
@@ -1246,14 +2607,44 @@ export function createCLI(): Command {
 
       // For remote targets, run the command via SSH
       if (host) {
+        if (jsonOutput) {
+          sshExec(host, cccCommand("firewall ls --json"), { stdio: "inherit" });
+          return;
+        }
         console.log(`\n${ui.symbols.shield} ${ui.style.bold("Firewall Domains on")} ${ui.style.highlight(host)}\n`);
-        sshExec(host, "ccc firewall ls", { stdio: "inherit" });
+        sshExec(host, cccCommand("firewall ls"), { stdio: "inherit" });
         return;
       }
 
       const agents = getAgents();
       const extensions = loadExtensions();
       const userDomains = getUserFirewallDomains();
+      const firewallConfig = loadFirewallConfig();
+
+      if (jsonOutput) {
+        printJson<FirewallJson>({
+          mode: firewallConfig.mode ?? "ip",
+          ssh: firewallConfig.ssh ?? "any",
+          ipv6: getFirewallIPv6State(getContainerName()),
+          sources: [
+            ...Object.entries(agents).map(([name, agent]) => ({
+              kind: "agent" as const,
+              name,
+              entries: agent.firewallDomains,
+              rules: agent.firewallRules ?? [],
+            })),
+            ...Object.entries(extensions).map(([name, ext]) => ({
+              kind: "extension" as const,
+              name,
+              entries: ext.firewallDomains,
+              rules: ext.firewallRules ?? [],
+            })),
+            { kind: "user", name: "user", entries: userDomains, rules: firewallConfig.rules ?? [] },
+          ],
+          profiles: resolveFirewallProfiles(firewallConfig.profiles),
+        });
+        return;
+      }
 
       console.log(`\n${ui.symbols.shield} ${ui.style.bold("Firewall Domains")}\n`);
 
@@ -1266,7 +2657,7 @@ export function createCLI(): Command {
           if (agent.firewallDomains.length > 0) {
             console.log(`    ${ui.style.highlight(name)} ${ui.style.dim(`(${agent.firewallDomains.length} domains)`)}`);
             for (const domain of agent.firewallDomains) {
-              console.log(`      ${ui.style.dim("•")} ${domain}`);
+              console.log(`      ${ui.style.dim("•")} ${formatFirewallEntry(domain)}`);
             }
           }
         }
@@ -1277,13 +2668,13 @@ export function createCLI(): Command {
       console.log(`  ${ui.style.bold("Extensions:")}`);
       if (Object.keys(extensions).length === 0) {
         console.log(`    ${ui.style.dim("(no extensions enabled)")}`);
-        ui.hint(`Enable extensions: ${ui.style.command("ccc extension add takopi")}`);
+        ui.hint(`Enable extensions: ${ui.style.command(cccCommand("extension add takopi"))}`);
       } else {
         for (const [name, ext] of Object.entries(extensions)) {
           if (ext.firewallDomains.length > 0) {
             console.log(`    ${ui.style.highlight(name)} ${ui.style.dim(`(${ext.firewallDomains.length} domains)`)}`);
             for (const domain of ext.firewallDomains) {
-              console.log(`      ${ui.style.dim("•")} ${domain}`);
+              console.log(`      ${ui.style.dim("•")} ${formatFirewallEntry(domain)}`);
             }
           }
         }
@@ -1294,14 +2685,50 @@ export function createCLI(): Command {
       console.log(`  ${ui.style.bold("User:")}`);
       if (userDomains.length === 0) {
         console.log(`    ${ui.style.dim("(no custom domains)")}`);
-        ui.hint(`Add custom domain: ${ui.style.command("ccc firewall add example.com")}`);
+        ui.hint(`Add custom domain: ${ui.style.command(cccCommand("firewall add example.com"))}`);
       } else {
         for (const domain of userDomains) {
-          console.log(`    ${ui.style.dim("•")} ${domain}`);
+          console.log(`    ${ui.style.dim("•")} ${formatFirewallEntry(domain)}`);
         }
       }
       console.log();
 
+      // Port rules from every source
+      const rules = [
+        ...Object.entries(agents).flatMap(([name, agent]) => (agent.firewallRules ?? []).map((rule) => ({ source: name, rule }))),
+        ...Object.entries(extensions).flatMap(([name, ext]) => (ext.firewallRules ?? []).map((rule) => ({ source: name, rule }))),
+        ...(firewallConfig.rules ?? []).map((rule) => ({ source: "user", rule })),
+      ];
+      if (rules.length > 0) {
+        console.log(`  ${ui.style.bold("Port rules:")}`);
+        for (const { source, rule } of rules) {
+          const problem = validateFirewallRule(rule);
+          const status = problem ? ui.style.warning(`(ignored: ${problem})`) : ui.style.dim(`(${source})`);
+          console.log(`    ${ui.style.dim("•")} ${formatFirewallRule(rule)} ${status}`);
+        }
+        console.log();
+      }
+
+      // Session profiles
+      console.log(`  ${ui.style.bold("Profiles:")} ${ui.style.dim("(ccc --firewall-profile <name>)")}`);
+      console.log(`    ${ui.style.highlight(DEFAULT_FIREWALL_PROFILE)} ${ui.style.dim("full allowlist above")}`);
+      for (const [name, profile] of Object.entries(resolveFirewallProfiles(firewallConfig.profiles))) {
+        const extra = profile.domains?.length ? ` + ${profile.domains.join(", ")}` : "";
+        const summary = profile.allow_all
+          ? "no filtering"
+          : profile.learn
+            ? "full allowlist, logs the rest instead of blocking (ccc firewall learn)"
+            : `${profile.base === "strict" ? "agent domains only" : "full allowlist"}${extra}`;
+        console.log(`    ${ui.style.highlight(name)} ${ui.style.dim(summary)}`);
+      }
+      console.log();
+
+      const mode = firewallConfig.mode === "proxy" ? "proxy (web traffic filtered by hostname)" : "ip (allowlisted IPs)";
+      console.log(`  ${ui.style.dim("Mode:")} ${mode}`);
+      const sshPolicy = firewallConfig.ssh === "allowlist" ? "allowlisted hosts only" : "any host";
+      console.log(`  ${ui.style.dim("Outbound SSH:")} ${sshPolicy}`);
+      console.log(`  ${ui.style.dim("IPv6:")} ${FIREWALL_IPV6_LABELS[getFirewallIPv6State(getContainerName())]}`);
+
       // Total count
       const allDomains = new Set<string>();
       for (const agent of Object.values(agents)) {
@@ -1317,21 +2744,38 @@ export function createCLI(): Command {
     });
 
   firewallCmd
-    .command("add <domain>")
-    .description("Add a custom firewall domain")
-    .action((domain) => {
+    .command("add <entries...>")
+    .description("Add custom firewall entries (domain, *.wildcard, IP or CIDR)")
+    .action((entries: string[]) => {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc firewall add ${domain}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`firewall add ${entries.map((e) => `'${e}'`).join(" ")}`), { stdio: "inherit" });
         return;
       }
 
-      if (addUserFirewallDomain(domain)) {
-        ui.success(`Added domain: ${ui.style.highlight(domain)}`);
-        ui.hint("Rebuild container to apply: " + ui.style.command("ccc build"));
-      } else {
-        ui.warning(`Domain already exists: ${domain}`);
+      // Validate everything before writing anything
+      const parsed = entries.map((entry) => ({ entry, parsed: parseFirewallEntry(entry) }));
+      const invalid = parsed.filter((p) => !p.parsed).map((p) => p.entry);
+      if (invalid.length > 0) {
+        ui.error(`Invalid firewall entry: ${invalid.join(", ")}`);
+        console.log(`\n  ${ui.style.dim("Expected a hostname, *.suffix wildcard, IP address or CIDR block (e.g. 10.0.0.0/8)")}`);
+        process.exit(1);
+      }
+
+      let added = 0;
+      for (const { parsed: entry } of parsed) {
+        if (!entry) continue;
+        if (addUserFirewallDomain(entry.value)) {
+          ui.success(`Added ${FIREWALL_ENTRY_LABELS[entry.type]}: ${ui.style.highlight(entry.value)}`);
+          added++;
+        } else {
+          ui.warning(`Entry already exists: ${entry.value}`);
+        }
+      }
+
+      if (added > 0) {
+        ui.hint("Apply to running container: " + ui.style.command(cccCommand("firewall apply")));
       }
     });
 
@@ -1343,19 +2787,370 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc firewall rm ${domain}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`firewall rm ${domain}`), { stdio: "inherit" });
         return;
       }
 
       if (removeUserFirewallDomain(domain)) {
         ui.success(`Removed domain: ${domain}`);
-        ui.hint("Rebuild container to apply: " + ui.style.command("ccc build"));
+        ui.hint("Apply to running container: " + ui.style.command(cccCommand("firewall apply")));
       } else {
         ui.error(`Domain not found: ${domain}`);
         ui.hint("Note: Only user-added domains can be removed. Agent and extension domains are managed via their configs.");
       }
     });
 
+  firewallCmd
+    .command("apply")
+    .description("Apply allowlist changes to the running container without rebuilding")
+    .action(() => {
+      const host = getGlobalTarget();
+
+      // The host's ccc regenerates the rules from its own firewall.toml, the one add and rm edit
+      if (host) {
+        runRemoteCcc(host, ["firewall", "apply"]);
+        return;
+      }
+
+      const agents = Object.values(getAgents());
+
+      if (!existsSync(join(getContainerOutputDir(), "Dockerfile"))) {
+        ui.error("No container files found. Run 'ccc init' first.");
+        process.exit(1);
+      }
+
+      requireContainerRunning(getContainerName());
+
+      console.log(`\n${ui.symbols.shield} ${ui.style.bold("Applying firewall...")}\n`);
+      try {
+        applyLocalFirewall(agents);
+      } catch {
+        ui.error("Failed to apply firewall");
+        process.exit(1);
+      }
+      ui.success("Firewall applied!");
+      ui.hint(`Running sessions keep going. ${ui.style.command(cccCommand("build"))} bakes the new rules into the image.`);
+    });
+
+  firewallCmd
+    .command("learn [session]")
+    .description("Run a session that logs instead of blocking, then pick destinations to allow")
+    .action(async (session = "learn") => {
+      const host = getGlobalTarget();
+
+      if (host) {
+        runRemoteCcc(host, ["firewall", "learn", session]);
+        return;
+      }
+
+      requireContainerRunning(getContainerName());
+
+      if (isFirewallLogVisible(getContainerName()) === false) {
+        ui.error("The kernel discards iptables LOG output from containers, so learn mode would record nothing");
+        printNetnsLogHint();
+        process.exit(1);
+      }
+
+      // The learn profile is set when the session starts, so it has to be a new one
+      if (getSessions(getContainerName()).includes(session)) {
+        ui.error(`Session '${session}' is already running`);
+        ui.hint(`Pick another name, or end it first: ${ui.style.command(cccCommand(`kill ${session}`))}`);
+        process.exit(1);
+      }
+
+      // Containers set up before the learn profile existed need the current rules
+      try {
+        applyLocalFirewall(Object.values(getAgents()));
+      } catch {
+        ui.error("Failed to apply the firewall");
+        process.exit(1);
+      }
+
+      console.log(`\n${ui.symbols.shield} ${ui.style.bold("Firewall learn mode")}\n`);
+      console.log(`  ${ui.style.dim("Traffic from this session that the allowlist would block is logged and let through.")}`);
+      console.log(`  ${ui.style.dim("Other sessions stay filtered. The session is closed when you detach.")}`);
+      console.log(`  ${ui.style.dim("Use your toolchain as usual, then detach with")} ${ui.style.command("Ctrl+Space Ctrl+Q")}\n`);
+
+      const since = new Date();
+      runSession(getContainerName(), session, { firewallProfile: LEARN_FIREWALL_PROFILE });
+
+      // Close the session so nothing keeps running unfiltered in the learn profile
+      try {
+        killSession(getContainerName(), session);
+      } catch {
+        // Already gone (the shell exited)
+      }
+
+      let destinations: FirewallDestination[];
+      try {
+        destinations = getFirewallDestinations(getContainerName(), LEARN_LOG_PREFIX, since);
+      } catch {
+        ui.error("Could not read the kernel log (iptables LOG output)");
+        ui.hint("Allow passwordless sudo for dmesg, or set kernel.dmesg_restrict=0 on the host");
+        process.exit(1);
+      }
+
+      // Collapse per-IP destinations into one candidate per hostname (or bare IP)
+      const candidates = new Map<string, { ports: Set<string>; count: number }>();
+      for (const dest of destinations) {
+        const entry = dest.hostname || dest.ip;
+        const candidate = candidates.get(entry) ?? { ports: new Set<string>(), count: 0 };
+        candidate.ports.add(dest.port ? `${dest.protocol}/${dest.port}` : dest.protocol);
+        candidate.count += dest.count;
+        candidates.set(entry, candidate);
+      }
+
+      if (candidates.size === 0) {
+        ui.success("Nothing was blocked during the session");
+        return;
+      }
+
+      const entries = Array.from(candidates.keys());
+      console.log(`\n  ${ui.style.bold("Destinations that would have been blocked:")}\n`);
+      entries.forEach((entry, i) => {
+        const candidate = candidates.get(entry)!;
+        const details = `${Array.from(candidate.ports).join(", ")}, ${candidate.count} attempt${candidate.count === 1 ? "" : "s"}`;
+        console.log(`  ${ui.style.highlight(`[${i + 1}]`)} ${ui.style.bold(entry)} ${ui.style.dim(`(${details})`)}`);
+      });
+      console.log(`  ${ui.style.highlight("[a]")} ${ui.style.bold("All")}`);
+      console.log();
+
+      const readline = await import("readline");
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+
+      const answer = await new Promise<string>((resolve) => {
+        rl.question(`  ${ui.style.dim("Allow which? (e.g., 1,2 or a, empty for none):")} `, resolve);
+      });
+      rl.close();
+
+      const selected =
+        answer.trim().toLowerCase() === "a"
+          ? entries
+          : answer
+              .split(",")
+              .map((s) => entries[parseInt(s.trim(), 10) - 1])
+              .filter((entry): entry is string => Boolean(entry));
+
+      let added = 0;
+      for (const entry of selected) {
+        if (!parseFirewallEntry(entry)) {
+          ui.item(`Skipped invalid entry: ${entry}`, "warn");
+        } else if (addUserFirewallDomain(entry)) {
+          ui.item(`Allowed ${entry}`, "ok");
+          added++;
+        }
+      }
+
+      if (added === 0) {
+        ui.hint("No changes made");
+        return;
+      }
+
+      try {
+        applyLocalFirewall(Object.values(getAgents()));
+        ui.success(`Allowed ${added} destination${added === 1 ? "" : "s"} and applied the firewall`);
+      } catch {
+        ui.warning("Entries saved but applying failed");
+        ui.hint("Apply manually: " + ui.style.command(cccCommand("firewall apply")));
+      }
+    });
+
+  firewallCmd
+    .command("blocked")
+    .description("Show connections denied by the firewall")
+    .option("-s, --since <minutes>", "Only show attempts from the last N minutes")
+    .option("-f, --follow", "Keep watching for new denied connections")
+    .action(async (options: { since?: string; follow?: boolean }) => {
+      const host = getGlobalTarget();
+
+      let since: Date | undefined;
+      if (options.since !== undefined) {
+        const minutes = Number(options.since);
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+          ui.error(`Invalid --since value: ${options.since}`);
+          process.exit(1);
+        }
+        since = new Date(Date.now() - minutes * 60_000);
+      }
+
+      // The firewall mode and logs are the host's, so its ccc reads them
+      if (host) {
+        const args = ["firewall", "blocked"];
+        if (options.since !== undefined) args.push("--since", options.since);
+        if (options.follow) args.push("--follow");
+        runRemoteCcc(host, args);
+        return;
+      }
+
+      requireContainerRunning(getContainerName());
+
+      const proxyMode = loadFirewallConfig().mode === "proxy";
+      if (isFirewallLogVisible(getContainerName()) === false) {
+        if (!proxyMode) {
+          ui.error("The kernel discards iptables LOG output from containers, so blocked connections can't be listed");
+          printNetnsLogHint();
+          process.exit(1);
+        }
+        ui.warning("Only requests denied by the proxy are shown: the kernel discards iptables LOG output from containers");
+        printNetnsLogHint();
+      }
+
+      const readKernelLog = () => getFirewallDestinations(getContainerName(), BLOCKED_LOG_PREFIX, since);
+
+      const read = (): FirewallDestination[] => {
+        if (!proxyMode) return readKernelLog();
+        const denied = getProxyDestinations(getContainerName(), since);
+        try {
+          return [...denied, ...readKernelLog()];
+        } catch {
+          // Web traffic is in the proxy log, which is readable without kernel log access
+          return denied;
+        }
+      };
+
+      const render = () => {
+        let destinations: FirewallDestination[];
+        try {
+          destinations = read();
+        } catch {
+          ui.error("Could not read the kernel log (iptables LOG output)");
+          ui.hint("Allow passwordless sudo for dmesg, or set kernel.dmesg_restrict=0 on the host");
+          process.exit(1);
+        }
+
+        console.log(`\n${ui.symbols.shield} ${ui.style.bold("Blocked Connections")}\n`);
+
+        if (destinations.length === 0) {
+          console.log(`  ${ui.style.dim("(nothing blocked)")}`);
+        } else {
+          printFirewallDestinations(destinations);
+          console.log();
+          ui.hint("Allow a destination: " + ui.style.command(cccCommand("firewall add <domain>")));
+        }
+      };
+
+      render();
+      if (!options.follow) return;
+
+      // Redraw until interrupted
+      await new Promise<never>(() => {
+        setInterval(() => {
+          console.clear();
+          render();
+          console.log(`\n  ${ui.style.dim("Watching... (Ctrl+C to stop)")}`);
+        }, 5000);
+      });
+    });
+
+  firewallCmd
+    .command("refresh")
+    .description("Re-resolve allowed domains in the running container")
+    .action(() => {
+      const host = getGlobalTarget();
+
+      if (host) {
+        console.log(`\n${ui.symbols.shield} ${ui.style.bold("Refreshing firewall on")} ${ui.style.highlight(host)}\n`);
+        try {
+          refreshRemoteFirewall(host);
+        } catch {
+          ui.error("Firewall refresh failed");
+          process.exit(1);
+        }
+        ui.success("Firewall allowlist refreshed");
+        return;
+      }
+
+      requireContainerRunning(getContainerName());
+
+      console.log(`\n${ui.symbols.shield} ${ui.style.bold("Refreshing firewall...")}\n`);
+      try {
+        refreshFirewall(getContainerName());
+      } catch {
+        ui.error("Firewall refresh failed");
+        process.exit(1);
+      }
+      ui.success("Firewall allowlist refreshed");
+    });
+
+  firewallCmd
+    .command("test <host>")
+    .description("Check DNS, allowlist and TLS for a domain from inside the container")
+    .action((input: string) => {
+      const host = getGlobalTarget();
+
+      // For remote targets, run the command via SSH
+      if (host) {
+        console.log(`\n${ui.symbols.shield} ${ui.style.bold("Firewall test on")} ${ui.style.highlight(host)}`);
+        try {
+          sshExec(host, cccCommand(`firewall test ${input}`), { stdio: "inherit" });
+        } catch {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const entry = parseFirewallEntry(input);
+      if (!entry || (entry.type !== "domain" && entry.type !== "ip")) {
+        ui.error(`Invalid host: ${input}`);
+        ui.hint("Expected a domain name or IP address");
+        process.exit(1);
+      }
+
+      requireContainerRunning(getContainerName());
+
+      console.log(`\n${ui.symbols.shield} ${ui.style.bold("Firewall test")} ${ui.style.highlight(entry.value)}\n`);
+      const probe = probeFirewall(getContainerName(), entry.value);
+      const proxyMode = loadFirewallConfig().mode === "proxy";
+
+      // Allowlist sources, matched against the name and every resolved address
+      const sources = findFirewallSources([entry.value, ...probe.addresses.map((address) => address.ip)], {
+        agents: getAgents(),
+        extensions: loadExtensions(),
+        userDomains: getUserFirewallDomains(),
+      });
+      console.log(`  ${ui.style.bold("Allowlist:")}`);
+      if (sources.length === 0) {
+        console.log(`    ${ui.style.warning("not allowlisted")}`);
+      }
+      for (const source of sources) {
+        const name = source.kind === "user" ? "user" : `${source.kind} ${ui.style.highlight(source.name)}`;
+        console.log(`    ${ui.style.dim("•")} ${name} ${ui.style.dim(`(${source.entry})`)}`);
+      }
+      console.log();
+
+      // DNS and ipset membership (proxy mode filters web traffic by hostname instead)
+      console.log(`  ${ui.style.bold("DNS:")}`);
+      if (probe.addresses.length === 0) {
+        console.log(`    ${ui.style.warning("does not resolve")}`);
+      }
+      for (const address of probe.addresses) {
+        const status = proxyMode
+          ? ui.style.dim("(via proxy)")
+          : address.set
+            ? ui.style.success(`allowed (${address.set})`)
+            : ui.style.warning("blocked (not in any allowlist set)");
+        console.log(`    ${ui.style.dim("•")} ${address.ip} ${status}`);
+      }
+      console.log();
+
+      console.log(`  ${ui.style.bold("TLS handshake:")}`);
+      if (probe.tls.ok) {
+        console.log(`    ${ui.style.success("ok")}`);
+        console.log();
+        return;
+      }
+      console.log(`    ${ui.style.warning(`failed${probe.tls.error ? `: ${probe.tls.error}` : ""}`)}`);
+      if (sources.length === 0) {
+        ui.hint("Allow it: " + ui.style.command(cccCommand(`firewall add ${entry.value}`)));
+      } else if (!proxyMode && probe.addresses.some((address) => !address.set)) {
+        ui.hint("Addresses may have changed: " + ui.style.command(cccCommand("firewall refresh")));
+      }
+      process.exit(1);
+    });
+
   // Extension management commands
   const extensionCmd = program.command("extension").description("Manage extensions (takopi, context7, etc.)");
 
@@ -1367,14 +3162,36 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
+        if (jsonOutput) {
+          sshExec(host, cccCommand("extension ls --json"), { stdio: "inherit" });
+          return;
+        }
         console.log(`\n${ui.symbols.gear} ${ui.style.bold("Extensions on")} ${ui.style.highlight(host)}\n`);
-        sshExec(host, "ccc extension ls", { stdio: "inherit" });
+        sshExec(host, cccCommand("extension ls"), { stdio: "inherit" });
         return;
       }
 
       const templates = listAvailableExtensions();
       const enabled = loadExtensions();
 
+      if (jsonOutput) {
+        printJson<ExtensionsJson>({
+          extensions: templates.map((template) => {
+            const type = template.type || "host";
+            const ext = enabled[template.name];
+            const isEnabled = isExtensionEnabled(template.name);
+            return {
+              name: template.name,
+              type,
+              description: template.description,
+              enabled: isEnabled,
+              running: type === "host" && isEnabled && ext?.runCmd ? isHostExtensionRunning(ext) : null,
+            };
+          }),
+        });
+        return;
+      }
+
       console.log(`\n${ui.symbols.gear} ${ui.style.bold("Extensions")}\n`);
 
       // Group by type
@@ -1415,7 +3232,7 @@ export function createCLI(): Command {
         console.log();
       }
 
-      ui.hint(`Enable: ${ui.style.command("ccc extension add <name>")}`);
+      ui.hint(`Enable: ${ui.style.command(cccCommand("extension add <name>"))}`);
     });
 
   extensionCmd
@@ -1425,7 +3242,7 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc extension add ${name}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`extension add ${name}`), { stdio: "inherit" });
         return;
       }
 
@@ -1472,14 +3289,14 @@ export function createCLI(): Command {
 
           case "host":
             if (name === "takopi") {
-              ui.hint("Configure and start: " + ui.style.command("ccc setup-takopi"));
+              ui.hint("Configure and start: " + ui.style.command(cccCommand("setup-takopi")));
             } else {
-              ui.hint("Start with: " + ui.style.command(`ccc extension start ${name}`));
+              ui.hint("Start with: " + ui.style.command(cccCommand(`extension start ${name}`)));
             }
             break;
         }
 
-        ui.hint("Rebuild container to apply firewall changes: " + ui.style.command("ccc build"));
+        ui.hint("Apply firewall changes: " + ui.style.command(cccCommand("firewall apply")));
       }
     });
 
@@ -1491,7 +3308,7 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc extension rm ${name}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`extension rm ${name}`), { stdio: "inherit" });
         return;
       }
 
@@ -1528,10 +3345,22 @@ export function createCLI(): Command {
 
       if (disableExtension(name)) {
         ui.success(`Disabled extension: ${name}`);
-        ui.hint("Rebuild container to apply firewall changes: " + ui.style.command("ccc build"));
+        ui.hint("Apply firewall changes: " + ui.style.command(cccCommand("firewall apply")));
       }
     });
 
+  // Internal: run on the host by remote syncs so skills/ and mcp-configs/ match its enabled extensions
+  extensionCmd
+    .command("sync", { hidden: true })
+    .action(() => {
+      const extensions = Object.values(loadExtensions());
+      const removed = [
+        ...syncSkills(extensions).map((file) => `skills/${file}`),
+        ...syncMcpConfigs(Object.values(getAgents()), extensions).map((file) => `mcp-configs/${file}`),
+      ];
+      for (const path of removed) ui.item(`${path} ${ui.style.dim("removed")}`, "ok");
+    });
+
   extensionCmd
     .command("start <name>")
     .description("Start a host extension")
@@ -1539,7 +3368,7 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc extension start ${name}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`extension start ${name}`), { stdio: "inherit" });
         return;
       }
 
@@ -1575,7 +3404,7 @@ export function createCLI(): Command {
         // Process died immediately - likely needs configuration
         ui.error(`${name} crashed immediately (missing configuration?)`);
         if (name === "takopi") {
-          ui.hint(`Configure takopi first: ${ui.style.command("ccc setup-takopi")}`);
+          ui.hint(`Configure takopi first: ${ui.style.command(cccCommand("setup-takopi"))}`);
         } else {
           ui.hint("Check that the extension is properly configured");
         }
@@ -1591,7 +3420,7 @@ export function createCLI(): Command {
       const host = getGlobalTarget();
 
       if (host) {
-        sshExec(host, `ccc extension stop ${name}`, { stdio: "inherit" });
+        sshExec(host, cccCommand(`extension stop ${name}`), { stdio: "inherit" });
         return;
       }
 
@@ -1653,12 +3482,12 @@ export function createCLI(): Command {
       console.log(`\n${ui.symbols.sparkles} ${ui.style.bold("Takopi Setup")}\n`);
 
       const host = getGlobalTarget();
-      const containerName = DEFAULT_CONTAINER_NAME;
+      const containerName = getContainerName();
 
       const { execSync } = await import("child_process");
       try {
         if (host) {
-          execSync(`ssh ${host} "docker inspect ${containerName}" >/dev/null 2>&1`);
+          execSync(`${sshCommand(host)} "docker inspect ${containerName}" >/dev/null 2>&1`);
         } else {
           execSync(`docker inspect ${containerName} >/dev/null 2>&1`);
         }
@@ -1671,7 +3500,7 @@ export function createCLI(): Command {
       try {
         const installCmd = `docker exec ${containerName} uv tool install takopi --python 3.14`;
         if (host) {
-          execSync(`ssh ${host} "${installCmd}"`, { stdio: "inherit" });
+          execSync(`${sshCommand(host)} "${installCmd}"`, { stdio: "inherit" });
         } else {
           execSync(installCmd, { stdio: "inherit" });
         }
@@ -1723,8 +3552,8 @@ default_engine = "claude"`;
 
       try {
         if (host) {
-          execSync(`ssh ${host} "${killCmd}"`, { stdio: "pipe" });
-          execSync(`ssh ${host} "${startCmd}"`, { stdio: "pipe" });
+          execSync(`${sshCommand(host)} "${killCmd}"`, { stdio: "pipe" });
+          execSync(`${sshCommand(host)} "${startCmd}"`, { stdio: "pipe" });
         } else {
           execSync(killCmd, { stdio: "pipe" });
           execSync(startCmd, { stdio: "pipe" });
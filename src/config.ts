@@ -2,6 +2,7 @@ import { homedir } from "os";
 import { join } from "path";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as TOML from "@iarna/toml";
+import { DEFAULT_CONTAINER } from "./containers.ts";
 
 const CONFIG_DIR = join(homedir(), ".config", "ccc");
 const CONFIG_FILE = join(CONFIG_DIR, "config.toml");
@@ -39,20 +40,72 @@ function assertValidHost(host: string): void {
 export interface RemoteConfig {
   host: string;
   alias?: string[];
+  // SSH connection options, applied to every ssh and scp call (see utils/ssh.ts)
+  port?: number;
+  identity?: string; // Private key file
+  jump?: string; // ProxyJump host
+  user?: string; // Login user, for hosts given without user@
+  ssh_options?: string[]; // Extra -o options, e.g. "ServerAliveInterval=30"
+}
+
+export type RemoteSSHOptions = Omit<RemoteConfig, "host" | "alias">;
+
+const SSH_OPTION_PATTERN = /^[A-Za-z]+=\S.*$/;
+
+function assertValidSSHOptions(host: string, ssh: RemoteSSHOptions): void {
+  if (ssh.port !== undefined && (!Number.isInteger(ssh.port) || ssh.port < 1 || ssh.port > 65535)) {
+    console.error(`Invalid port: ${ssh.port}`);
+    process.exit(1);
+  }
+
+  if (ssh.user !== undefined) {
+    if (host.includes("@")) {
+      console.error(`Host ${host} already has a user; drop --user or the user@ prefix`);
+      process.exit(1);
+    }
+    if (!/^[A-Za-z0-9._~-]+$/.test(ssh.user)) {
+      console.error(`Invalid user: ${ssh.user}`);
+      process.exit(1);
+    }
+  }
+
+  if (ssh.jump !== undefined) {
+    for (const jump of ssh.jump.split(",")) {
+      assertValidHost(jump);
+    }
+  }
+
+  for (const option of ssh.ssh_options ?? []) {
+    if (!SSH_OPTION_PATTERN.test(option)) {
+      console.error(`Invalid SSH option: ${option} (expected Key=value)`);
+      process.exit(1);
+    }
+  }
+}
+
+/** A host directory mounted at /workspace/<name> (ccc project add) */
+export interface ProjectConfig {
+  path: string;
+  container?: string; // Environment it's mounted into (see containers.ts), default if unset
 }
 
 export interface Config {
   default: string;
   default_agent?: string;
   remotes: Record<string, RemoteConfig>;
+  projects: Record<string, ProjectConfig>;
 }
 
 const DEFAULT_CONFIG: Config = {
   default: "local",
   default_agent: undefined,
   remotes: {},
+  projects: {},
 };
 
+// Project names become directory names under /workspace
+const PROJECT_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]{0,63}$/;
+
 export function ensureConfigDir(): void {
   if (!existsSync(CONFIG_DIR)) {
     mkdirSync(CONFIG_DIR, { recursive: true });
@@ -73,6 +126,7 @@ export function loadConfig(): Config {
       default: parsed.default || "local",
       default_agent: parsed.default_agent,
       remotes: parsed.remotes || {},
+      projects: parsed.projects || {},
     };
   } catch (error) {
     console.error(`Warning: Could not parse config file: ${error}`);
@@ -120,13 +174,15 @@ export function resolveTarget(target?: string): string | null {
   process.exit(1);
 }
 
-export function addRemote(name: string, host: string, aliases?: string[]): void {
+export function addRemote(name: string, host: string, aliases?: string[], ssh: RemoteSSHOptions = {}): void {
   const config = loadConfig();
   assertValidHost(host);
+  assertValidSSHOptions(host, ssh);
 
   config.remotes[name] = {
     host,
     alias: aliases,
+    ...ssh,
   };
 
   saveConfig(config);
@@ -149,6 +205,13 @@ export function removeRemote(name: string): boolean {
   return true;
 }
 
+/**
+ * The configured remote for a resolved host, to look up its SSH options.
+ */
+export function getRemoteForHost(host: string): RemoteConfig | undefined {
+  return Object.values(loadConfig().remotes).find((remote) => remote.host === host);
+}
+
 export function setDefault(target: string): void {
   const config = loadConfig();
   config.default = target;
@@ -175,3 +238,57 @@ export function setDefaultAgent(agent: string): void {
   config.default_agent = agent;
   saveConfig(config);
 }
+
+export function isValidProjectName(name: string): boolean {
+  return PROJECT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Derive a project name from a git URL, e.g. "git@github.com:org/api.git" -> "api".
+ */
+export function projectNameFromUrl(url: string): string | null {
+  const name = url.replace(/[/\\]+$/, "").replace(/\.git$/, "").split(/[/:]/).pop() ?? "";
+  return isValidProjectName(name) ? name : null;
+}
+
+/**
+ * Environment a project is registered in. Projects are keyed by name alone,
+ * so a name belongs to one environment at a time.
+ */
+export function getProjectContainer(name: string): string | undefined {
+  const project = loadConfig().projects[name];
+  return project ? (project.container ?? DEFAULT_CONTAINER) : undefined;
+}
+
+export function addProject(name: string, path: string, container?: string): void {
+  const config = loadConfig();
+  config.projects[name] = container ? { path, container } : { path };
+  saveConfig(config);
+}
+
+/**
+ * Unregister a project. With a container, only if the project belongs to that environment.
+ */
+export function removeProject(name: string, container?: string): boolean {
+  const config = loadConfig();
+  const project = config.projects[name];
+
+  if (!project || (container !== undefined && (project.container ?? DEFAULT_CONTAINER) !== container)) {
+    return false;
+  }
+
+  delete config.projects[name];
+  saveConfig(config);
+  return true;
+}
+
+/**
+ * Projects mounted into an environment (all projects when no environment is given).
+ */
+export function listProjects(container?: string): Record<string, ProjectConfig> {
+  const projects = loadConfig().projects;
+  if (container === undefined) return projects;
+  return Object.fromEntries(
+    Object.entries(projects).filter(([, project]) => (project.container ?? DEFAULT_CONTAINER) === container)
+  );
+}
@@ -0,0 +1,94 @@
+import { existsSync, readdirSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * Named container environments (ccc +name / --container name).
+ *
+ * Each environment has its own output directory, Docker container, home volume,
+ * SSH key, agents, extensions and firewall config. The default environment keeps
+ * the original locations (~/.ccc, container "ccc", ~/.config/ccc).
+ */
+
+export const DEFAULT_CONTAINER = "default";
+
+// Used in container, volume and directory names
+const CONTAINER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+let activeContainer = DEFAULT_CONTAINER;
+
+export function isValidContainerName(name: string): boolean {
+  return CONTAINER_NAME_PATTERN.test(name);
+}
+
+/**
+ * Names whose Docker container would take another environment's proxy sidecar name:
+ * "proxy" is "ccc-proxy" (the default environment's), "x-proxy" is "ccc-x-proxy".
+ */
+export function isReservedContainerName(name: string): boolean {
+  return name === "proxy" || name.endsWith("-proxy");
+}
+
+/** Select the environment used by the rest of the CLI for this invocation */
+export function setActiveContainer(name: string): void {
+  activeContainer = name;
+}
+
+export function getActiveContainer(): string {
+  return activeContainer;
+}
+
+/** Docker container name: "ccc" for the default environment, "ccc-<name>" otherwise */
+export function getContainerName(name: string = activeContainer): string {
+  return name === DEFAULT_CONTAINER ? "ccc" : `ccc-${name}`;
+}
+
+/** Generated files directory on this machine (~/.ccc or ~/.ccc-<name>) */
+export function getContainerOutputDir(name: string = activeContainer): string {
+  return join(homedir(), `.${getContainerName(name)}`);
+}
+
+/** Generated files directory on a remote host */
+export function getRemoteContainerDir(name: string = activeContainer): string {
+  return `~/.${getContainerName(name)}`;
+}
+
+/** Agents, extensions and firewall config (~/.config/ccc or ~/.config/ccc/containers/<name>) */
+export function getContainerConfigDir(name: string = activeContainer): string {
+  const configDir = join(homedir(), ".config", "ccc");
+  return name === DEFAULT_CONTAINER ? configDir : join(configDir, "containers", name);
+}
+
+/** CLI prefix selecting the environment, for ccc commands run on a remote host */
+export function getContainerSelector(name: string = activeContainer): string {
+  return name === DEFAULT_CONTAINER ? "" : `+${name}`;
+}
+
+/** A ccc command line for the active environment, e.g. "ccc +client-a start" */
+export function cccCommand(command = ""): string {
+  return ["ccc", getContainerSelector(), command].filter(Boolean).join(" ");
+}
+
+/**
+ * Environment names from output directory names (".ccc", ".ccc-client-a", ...).
+ * The default environment is always listed first.
+ */
+export function parseContainerDirs(dirs: string[]): string[] {
+  const names = dirs
+    .map((dir) => dir.replace(/\/+$/, "").split("/").pop() ?? "")
+    .filter((dir) => dir.startsWith(".ccc-"))
+    .map((dir) => dir.slice(".ccc-".length))
+    .filter((name) => isValidContainerName(name) && name !== DEFAULT_CONTAINER);
+  return [DEFAULT_CONTAINER, ...new Set(names.toSorted())];
+}
+
+/**
+ * List environments initialized on this machine.
+ */
+export function listLocalContainers(): string[] {
+  const home = homedir();
+  const dirs = existsSync(home)
+    ? readdirSync(home).filter((dir) => existsSync(join(home, dir, "docker-compose.yml")))
+    : [];
+  return parseContainerDirs(dirs);
+}
@@ -2,6 +2,7 @@ import { existsSync, mkdirSync, writeFileSync, chmodSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
 import { execSync } from "child_process";
+import { sshCommand } from "../utils/ssh.ts";
 import * as ui from "../utils/ui.ts";
 
 const BINARIES_DIR = join(homedir(), ".ccc", "binaries");
@@ -15,7 +16,7 @@ export interface PlatformInfo {
 
 export function detectRemotePlatform(host: string): PlatformInfo | null {
   try {
-    const result = execSync(`ssh ${host} "uname -sm"`, {
+    const result = execSync(`${sshCommand(host)} "uname -sm"`, {
       encoding: "utf-8",
       stdio: "pipe",
     }).trim();
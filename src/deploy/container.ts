@@ -1,7 +1,57 @@
-import type { Executor } from "./executor.ts";
+import type { ExecOptions, Executor } from "./executor.ts";
 import type { Agent } from "../agents/types.ts";
 import { loadAgents } from "../agents/loader.ts";
-import { checkAgentInstalled } from "../agents/auth.ts";
+import { buildAgentVersionCommand, parseAgentVersion } from "../agents/auth.ts";
+import {
+  aggregateFirewallLog,
+  readDnsNames,
+  readKernelFirewallLog,
+  readNetnsLogging,
+  readProxyFirewallLog,
+  type FirewallDestination,
+} from "../firewall/logs.ts";
+import { buildFirewallProbeScript, parseFirewallProbe, type FirewallProbe } from "../firewall/probe.ts";
+import { getProxyName } from "../templates/proxy.ts";
+import { cccCommand, getContainerName } from "../containers.ts";
+import {
+  buildDoctorContainerScript,
+  buildDoctorHostScript,
+  parseDoctorContainerProbe,
+  parseDoctorHostProbe,
+  type DoctorContainerProbe,
+  type DoctorHostProbe,
+} from "../doctor.ts";
+import { buildDeployedFilesScript, parseDeployedFiles, type DeployedFiles } from "../drift.ts";
+import {
+  buildQueueAddScript,
+  buildQueueListScript,
+  buildQueueRemoveScript,
+  buildQueueResumeScript,
+  buildQueueSettingsScript,
+  buildTaskSlotScript,
+  parseQueueState,
+  type QueuedTask,
+  type QueueSettings,
+  type QueueState,
+} from "../queue.ts";
+import {
+  buildTaskListScript,
+  buildTaskScript,
+  buildTaskStopScript,
+  getTaskDir,
+  getTaskLogPath,
+  parseTaskList,
+  shellQuote,
+  type TaskInfo,
+  type TaskSpec,
+} from "../tasks.ts";
+import {
+  getWorktreePath,
+  parseWorktreeList,
+  parseWorktreeRepos,
+  WORKTREES_DIR,
+  type SessionWorktree,
+} from "../worktrees.ts";
 import * as ui from "../utils/ui.ts";
 
 export interface ContainerStatus {
@@ -9,14 +59,26 @@ export interface ContainerStatus {
   running: boolean;
   takopi: boolean;
   sessions: string[];
+  worktrees: SessionWorktree[];
   agents: string[];
 }
 
+// How init-firewall.sh handled IPv6 ("unknown" if the container isn't running or predates IPv6 support)
+export type FirewallIPv6State = "filtered" | "blocked" | "disabled" | "unfiltered" | "unknown";
+
+const FIREWALL_IPV6_STATES: FirewallIPv6State[] = ["filtered", "blocked", "disabled", "unfiltered"];
+
 export interface BuildOptions {
   noCache?: boolean;
 }
 
-const CONTAINER_NAME = "ccc";
+/**
+ * Session names from `shpool list` output (first column, after the header line).
+ */
+function parseSessionList(output: string): string[] {
+  const lines = output.trim().split("\n").filter(Boolean);
+  return lines.slice(1).map((line) => line.split(/\s+/)[0]).filter(Boolean) as string[];
+}
 
 /**
  * Unified container operations that work with any executor (local or remote).
@@ -24,7 +86,7 @@ const CONTAINER_NAME = "ccc";
 export class ContainerManager {
   constructor(
     private executor: Executor,
-    private containerName: string = CONTAINER_NAME
+    private containerName: string = getContainerName()
   ) {}
 
   /**
@@ -84,67 +146,154 @@ export class ContainerManager {
     ui.success(msg);
   }
 
+  /**
+   * Copy init-firewall.sh from the work dir into the running container and
+   * re-run it, so allowlist changes apply without a rebuild or restart.
+   */
+  applyFirewall(): void {
+    this.executor.exec(
+      `docker cp init-firewall.sh ${this.containerName}:/usr/local/bin/init-firewall.sh`
+    );
+    this.executor.exec(
+      `docker exec ${this.containerName} sudo /usr/local/bin/init-firewall.sh`,
+      { stdio: "inherit" }
+    );
+  }
+
+  /**
+   * Make the proxy sidecar re-read its (bind-mounted) squid.conf.
+   */
+  reloadProxy(): void {
+    this.executor.exec(`docker exec ${getProxyName(this.containerName)} squid -k reconfigure`);
+  }
+
+  /**
+   * Re-resolve the firewall allowlist inside the running container.
+   */
+  refreshFirewall(): void {
+    this.executor.exec(
+      `docker exec ${this.containerName} sudo /usr/local/bin/init-firewall.sh --refresh`,
+      { stdio: "inherit" }
+    );
+  }
+
+  /**
+   * Collect destinations hit by a firewall LOG rule, with hostnames from the DNS log.
+   */
+  getFirewallDestinations(prefix: string, since?: Date): FirewallDestination[] {
+    const entries = readKernelFirewallLog(this.executor, this.containerName, prefix, since);
+    return aggregateFirewallLog(entries, readDnsNames(this.executor, this.containerName));
+  }
+
+  /**
+   * Whether firewall LOG rules in the container reach the host kernel log.
+   */
+  isFirewallLogVisible(): boolean | undefined {
+    return readNetnsLogging(this.executor);
+  }
+
+  /**
+   * Collect hosts denied by the proxy sidecar (firewall mode = "proxy").
+   */
+  getProxyDestinations(since?: Date): FirewallDestination[] {
+    return aggregateFirewallLog(readProxyFirewallLog(this.executor, this.containerName, since));
+  }
+
+  /**
+   * Resolve a host inside the container, check its addresses against the
+   * firewall ipsets and try a TLS handshake to it.
+   */
+  probeFirewall(host: string): FirewallProbe {
+    return parseFirewallProbe(this.execScript(buildFirewallProbeScript(host), { ignoreError: true }));
+  }
+
+  /**
+   * Read the IPv6 state recorded by the last firewall run.
+   */
+  getFirewallIPv6State(): FirewallIPv6State {
+    const state = this.executor.exec(`docker exec ${this.containerName} cat /run/ccc-firewall/ipv6`, {
+      ignoreError: true,
+    });
+    return FIREWALL_IPV6_STATES.find((s) => s === state) ?? "unknown";
+  }
+
+  /**
+   * Probe Docker, the container and its image from the work dir (ccc doctor).
+   */
+  probeDoctorHost(): DoctorHostProbe {
+    return parseDoctorHostProbe(this.execHostScript(buildDoctorHostScript(this.containerName)));
+  }
+
+  /**
+   * Probe the firewall, GitHub access, MCP configs and skills inside the container (ccc doctor).
+   */
+  probeDoctorContainer(agents: Agent[]): DoctorContainerProbe {
+    return parseDoctorContainerProbe(this.execScript(buildDoctorContainerScript(agents), { ignoreError: true }));
+  }
+
+  /**
+   * Read generated files from the work dir and the build hash label of the container's image (ccc diff).
+   */
+  readDeployedFiles(names: string[]): DeployedFiles {
+    return parseDeployedFiles(this.execHostScript(buildDeployedFilesScript(this.containerName, names)));
+  }
+
   /**
    * Get container status information.
    */
-  getStatus(checkContext?: { containerName?: string; host?: string }): ContainerStatus {
+  async getStatus(
+    checkContext?: { containerName?: string; host?: string; container?: string },
+    signal?: AbortSignal
+  ): Promise<ContainerStatus> {
     const status: ContainerStatus = {
       exists: false,
       running: false,
       takopi: false,
       sessions: [],
+      worktrees: [],
       agents: [],
     };
+    const exec = (cmd: string) => this.executor.execAsync(cmd, { ignoreError: true, signal });
 
     // Check container state
-    try {
-      const result = this.executor.exec(
-        `docker inspect -f '{{.State.Running}}' ${this.containerName} 2>/dev/null`,
-        { ignoreError: true }
-      );
-      if (result) {
-        status.exists = true;
-        status.running = result.trim() === "true";
-      }
-    } catch {
-      return status;
+    const result = await exec(`docker inspect -f '{{.State.Running}}' ${this.containerName} 2>/dev/null`);
+    if (result) {
+      status.exists = true;
+      status.running = result.trim() === "true";
     }
 
     if (!status.running) return status;
 
-    // Check takopi process
-    try {
-      this.executor.exec(`docker exec ${this.containerName} pgrep -f takopi >/dev/null 2>&1`);
-      status.takopi = true;
-    } catch {
-      status.takopi = false;
-    }
+    // Agents enabled for this environment (see containers.ts)
+    const enabledAgents = Object.entries(loadAgents(checkContext?.container));
+    const [takopi, sessions, worktrees, versions] = await Promise.all([
+      exec(`docker exec ${this.containerName} pgrep -f takopi`),
+      exec(`docker exec ${this.containerName} shpool list 2>/dev/null`),
+      this.listWorktreesAsync(signal),
+      Promise.all(enabledAgents.map(([, agent]) => exec(buildAgentVersionCommand(agent, this.containerName)))),
+    ]);
+
+    status.takopi = takopi !== "";
+    status.sessions = parseSessionList(sessions);
+    status.worktrees = worktrees;
+    status.agents = enabledAgents.filter((_, index) => parseAgentVersion(versions[index]!).installed).map(([name]) => name);
 
-    // Get sessions
+    return status;
+  }
+
+  /**
+   * Names of the active shpool sessions.
+   */
+  getSessions(): string[] {
     try {
       const sessionsOutput = this.executor.exec(
         `docker exec ${this.containerName} shpool list 2>/dev/null`,
         { ignoreError: true }
       );
-      if (sessionsOutput) {
-        const lines = sessionsOutput.trim().split("\n").filter(Boolean);
-        // Parse shpool list output - skip header line
-        status.sessions = lines.slice(1).map((line) => line.split(/\s+/)[0]).filter(Boolean) as string[];
-      }
+      return parseSessionList(sessionsOutput);
     } catch {
-      status.sessions = [];
+      return [];
     }
-
-    // Check installed agents
-    const enabledAgents = loadAgents();
-    for (const [name, agent] of Object.entries(enabledAgents)) {
-      const installStatus = checkAgentInstalled(agent, checkContext || {});
-      if (installStatus.installed) {
-        status.agents.push(name);
-      }
-    }
-
-    return status;
   }
 
   /**
@@ -159,16 +308,215 @@ export class ContainerManager {
 
       if (result?.trim()) {
         console.log(result);
+        const worktrees = this.listWorktrees();
+        if (worktrees.length > 0) {
+          console.log(`\n${ui.style.bold("Worktrees:")}`);
+          for (const worktree of worktrees) {
+            console.log(`  ${worktree.session}  ${ui.style.dim(`${worktree.project} @ ${worktree.branch ?? "detached"}`)}`);
+          }
+        }
       } else {
         console.log(`  ${ui.style.dim("No active sessions")}`);
-        ui.hint(`Start a session: ${ui.style.command("ccc")}`);
+        ui.hint(`Start a session: ${ui.style.command(cccCommand())}`);
       }
     } catch {
       console.log(`  ${ui.style.dim("Container not running or no sessions")}`);
-      ui.hint(`Start the container: ${ui.style.command("ccc start")}`);
+      ui.hint(`Start the container: ${ui.style.command(cccCommand("start"))}`);
+    }
+  }
+
+  /**
+   * Clone a repository to /workspace/<dir> as the container user (uses the container SSH key).
+   */
+  cloneRepository(url: string, dir: string, branch?: string): void {
+    const branchFlag = branch ? ` --branch ${shellQuote(branch)}` : "";
+    this.execScript(`git clone${branchFlag} ${shellQuote(url)} ${shellQuote(`/workspace/${dir}`)}`, { stdio: "inherit" });
+  }
+
+  /**
+   * List session worktrees under /workspace/.worktrees.
+   * Looks up the owning repositories first, then asks each for its worktrees.
+   */
+  listWorktrees(): SessionWorktree[] {
+    const gitdirs = this.executor.exec(this.worktreeGitdirsCommand(), { ignoreError: true });
+    return parseWorktreeRepos(gitdirs).flatMap((repo) =>
+      parseWorktreeList(this.executor.exec(this.worktreeListCommand(repo), { ignoreError: true }))
+    );
+  }
+
+  /**
+   * listWorktrees without blocking, asking the repositories in parallel.
+   */
+  private async listWorktreesAsync(signal?: AbortSignal): Promise<SessionWorktree[]> {
+    const gitdirs = await this.executor.execAsync(this.worktreeGitdirsCommand(), { ignoreError: true, signal });
+    const lists = await Promise.all(
+      parseWorktreeRepos(gitdirs).map((repo) =>
+        this.executor.execAsync(this.worktreeListCommand(repo), { ignoreError: true, signal })
+      )
+    );
+    return lists.flatMap(parseWorktreeList);
+  }
+
+  private worktreeGitdirsCommand(): string {
+    return `docker exec ${this.containerName} find ${WORKTREES_DIR} -mindepth 2 -maxdepth 2 -name .git -type f -exec grep -H gitdir: {} +`;
+  }
+
+  private worktreeListCommand(repo: string): string {
+    return `docker exec ${this.containerName} git -C ${repo} worktree list --porcelain`;
+  }
+
+  /**
+   * Create /workspace/.worktrees/<session> from /workspace/<project>, checking out
+   * the branch if it exists or creating it from the project's HEAD.
+   */
+  addWorktree(session: string, project: string, branch: string): void {
+    const repo = `/workspace/${project}`;
+    const exists = this.executor.exec(
+      `docker exec ${this.containerName} git -C ${repo} rev-parse --verify --quiet 'refs/heads/${branch}'`,
+      { ignoreError: true }
+    );
+    const args = exists ? `${getWorktreePath(session)} '${branch}'` : `-b '${branch}' ${getWorktreePath(session)}`;
+    this.executor.exec(`docker exec ${this.containerName} git -C ${repo} worktree add ${args}`, {
+      stdio: "inherit",
+    });
+  }
+
+  /**
+   * Uncommitted changes in a worktree (git status --porcelain lines).
+   */
+  getWorktreeChanges(worktree: SessionWorktree): string[] {
+    const output = this.executor.exec(`docker exec ${this.containerName} git -C ${worktree.path} status --porcelain`);
+    return output.split("\n").filter(Boolean);
+  }
+
+  /**
+   * Remove a worktree. Its branch is kept.
+   */
+  removeWorktree(worktree: SessionWorktree): void {
+    this.executor.exec(
+      `docker exec ${this.containerName} git -C /workspace/${worktree.project} worktree remove ${worktree.path}`,
+      { stdio: "inherit" }
+    );
+  }
+
+  /**
+   * Start a headless task in the background (see tasks.ts). It takes a queue
+   * slot, so it counts against the host's concurrency limit.
+   */
+  startTask(task: TaskSpec, command: string): void {
+    this.execScript([buildTaskSlotScript(task.id), buildTaskScript(task, command)].join("\n"), {
+      detach: true,
+      session: true,
+    });
+  }
+
+  /**
+   * List headless tasks, newest first.
+   */
+  listTasks(): TaskInfo[] {
+    return parseTaskList(this.execScript(buildTaskListScript(), { ignoreError: true }));
+  }
+
+  /**
+   * Read a task's output so far.
+   */
+  getTaskLog(id: string): string {
+    return this.executor.exec(`docker exec ${this.containerName} cat ${getTaskLogPath(id)}`);
+  }
+
+  /**
+   * Stream a task's output until the task ends.
+   */
+  followTaskLog(id: string): Promise<void> {
+    const pid = this.executor.exec(`docker exec ${this.containerName} cat ${getTaskDir(id)}/pid`, {
+      ignoreError: true,
+    });
+    const args = ["exec", this.containerName, "tail", "-n", "+1", "-f"];
+    if (pid) {
+      args.push(`--pid=${pid}`);
+    }
+    args.push(getTaskLogPath(id));
+
+    return new Promise((resolve) => {
+      const result = this.executor.spawn("docker", args, { stdio: "inherit" });
+      result.on("close", () => resolve());
+      result.on("error", () => resolve());
+    });
+  }
+
+  /**
+   * Stop a running task and everything it started. Returns false if it wasn't running.
+   */
+  stopTask(id: string): boolean {
+    try {
+      this.execScript(buildTaskStopScript(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Add tasks to the queue and make sure the queue runner is going (see queue.ts).
+   */
+  enqueueTasks(entries: Array<{ task: QueuedTask; command: string }>): void {
+    this.execScript(buildQueueAddScript(entries));
+  }
+
+  /**
+   * Queue settings, runner state and pending tasks.
+   */
+  getQueue(): QueueState {
+    return parseQueueState(this.execScript(buildQueueListScript(), { ignoreError: true }));
+  }
+
+  setQueueSettings(settings: QueueSettings): void {
+    this.execScript(buildQueueSettingsScript(settings));
+  }
+
+  /**
+   * Drop a pending task. Returns false if it isn't queued.
+   */
+  removeQueuedTask(id: string): boolean {
+    try {
+      this.execScript(buildQueueRemoveScript(id));
+      return true;
+    } catch {
+      return false;
     }
   }
 
+  /**
+   * Restart the queue runner if tasks are waiting (e.g. after a container restart).
+   */
+  resumeQueue(): void {
+    this.execScript(buildQueueResumeScript(), { ignoreError: true });
+  }
+
+  /**
+   * Run a bash script in the container. The script is passed base64-encoded so
+   * it reaches the container unchanged through the local shell and ssh.
+   * With session, it runs in a new session (process group) via setsid.
+   */
+  private execScript(script: string, options: ExecOptions & { detach?: boolean; session?: boolean } = {}): string {
+    const { detach, session, ...execOptions } = options;
+    const encoded = Buffer.from(script).toString("base64");
+    const shell = session ? "setsid bash" : "bash";
+    return this.executor.exec(
+      `docker exec${detach ? " -d" : ""} ${this.containerName} bash -c 'echo ${encoded} | base64 -d | ${shell}'`,
+      execOptions
+    );
+  }
+
+  /**
+   * Run a bash script on the Docker host from the work dir, passed base64-encoded
+   * like execScript. Errors are ignored; scripts report failures in their output.
+   */
+  private execHostScript(script: string): string {
+    const encoded = Buffer.from(script).toString("base64");
+    return this.executor.exec(`echo ${encoded} | base64 -d | bash`, { ignoreError: true });
+  }
+
   /**
    * Kill a specific session.
    */
@@ -1,17 +1,42 @@
-import { execSync, spawn, type SpawnOptions, type ChildProcess } from "child_process";
+import { exec, execSync, spawn, type SpawnOptions, type ChildProcess } from "child_process";
+import { getSSHArgs, sshCommand } from "../utils/ssh.ts";
 
 export interface ExecOptions {
   stdio?: "pipe" | "inherit";
   ignoreError?: boolean;
 }
 
+export interface AsyncExecOptions {
+  ignoreError?: boolean;
+  signal?: AbortSignal; // Aborting kills the command
+}
+
 export interface Executor {
   exec(cmd: string, opts?: ExecOptions): string;
+  execAsync(cmd: string, opts?: AsyncExecOptions): Promise<string>;
   spawn(cmd: string, args: string[], opts?: SpawnOptions): ChildProcess;
   readonly isRemote: boolean;
   readonly workDir: string;
 }
 
+/**
+ * Run a shell command without blocking, so several hosts can be probed at once.
+ * Resolves with the trimmed stdout; rejects on failure unless ignoreError.
+ */
+export function runCommandAsync(cmd: string, opts: AsyncExecOptions & { cwd?: string } = {}): Promise<string> {
+  const { ignoreError = false, signal, cwd } = opts;
+  return new Promise((resolve, reject) => {
+    exec(cmd, { cwd, signal, encoding: "utf-8" }, (error, stdout) => {
+      if (error) {
+        if (ignoreError) resolve("");
+        else reject(error);
+        return;
+      }
+      resolve(stdout?.trim() || "");
+    });
+  });
+}
+
 export class LocalExecutor implements Executor {
   readonly isRemote = false;
 
@@ -32,6 +57,10 @@ export class LocalExecutor implements Executor {
     }
   }
 
+  execAsync(cmd: string, opts: AsyncExecOptions = {}): Promise<string> {
+    return runCommandAsync(cmd, { ...opts, cwd: this.workDir });
+  }
+
   spawn(cmd: string, args: string[], opts: SpawnOptions = {}): ChildProcess {
     return spawn(cmd, args, { cwd: this.workDir, ...opts });
   }
@@ -47,11 +76,9 @@ export class RemoteExecutor implements Executor {
 
   exec(cmd: string, opts: ExecOptions = {}): string {
     const { stdio = "pipe", ignoreError = false } = opts;
-    const remoteCmd = `cd ${this.workDir} && ${cmd}`;
-    const sshCmd = `ssh ${this.host} "${remoteCmd.replace(/"/g, '\\"')}"`;
 
     try {
-      const result = execSync(sshCmd, {
+      const result = execSync(this.sshCommand(`cd ${this.workDir} && ${cmd}`), {
         encoding: "utf-8",
         stdio: stdio === "inherit" ? "inherit" : "pipe",
       });
@@ -62,18 +89,21 @@ export class RemoteExecutor implements Executor {
     }
   }
 
+  execAsync(cmd: string, opts: AsyncExecOptions = {}): Promise<string> {
+    return runCommandAsync(this.sshCommand(`cd ${this.workDir} && ${cmd}`), opts);
+  }
+
   spawn(cmd: string, args: string[], opts: SpawnOptions = {}): ChildProcess {
     const remoteCmd = `cd ${this.workDir} && ${cmd} ${args.join(" ")}`;
-    return spawn("ssh", [this.host, remoteCmd], opts);
+    return spawn("ssh", [...getSSHArgs(this.host), this.host, remoteCmd], opts);
   }
 
   // SSH-specific helper for commands that don't need workDir
   execRaw(cmd: string, opts: ExecOptions = {}): string {
     const { stdio = "pipe", ignoreError = false } = opts;
-    const sshCmd = `ssh ${this.host} "${cmd.replace(/"/g, '\\"')}"`;
 
     try {
-      const result = execSync(sshCmd, {
+      const result = execSync(this.sshCommand(cmd), {
         encoding: "utf-8",
         stdio: stdio === "inherit" ? "inherit" : "pipe",
       });
@@ -83,4 +113,8 @@ export class RemoteExecutor implements Executor {
       throw error;
     }
   }
+
+  private sshCommand(remoteCmd: string): string {
+    return `${sshCommand(this.host)} "${remoteCmd.replace(/"/g, '\\"')}"`;
+  }
 }
@@ -1,9 +1,15 @@
+import { createHash } from "crypto";
 import type { Agent } from "../agents/types.ts";
 import type { Extension } from "../extensions/types.ts";
 import { generateDockerfile } from "../templates/dockerfile.ts";
 import { generateCompose } from "../templates/compose.ts";
 import { generateEntrypoint } from "../templates/entrypoint.ts";
 import { generateFirewall } from "../templates/firewall.ts";
+import { generateProxyConfig, getProxyName } from "../templates/proxy.ts";
+import type { FirewallRule } from "../firewall/entries.ts";
+import type { FirewallMode, FirewallSshPolicy } from "../firewall/config.ts";
+import type { FirewallProfile } from "../firewall/profiles.ts";
+import { getContainerName } from "../containers.ts";
 
 export interface GenerateFilesOptions {
   agents: Agent[];
@@ -14,6 +20,11 @@ export interface GenerateFilesOptions {
   gitUserEmail?: string;
   extensions?: Extension[];
   userFirewallDomains?: string[];
+  userFirewallRules?: FirewallRule[];
+  firewallSshPolicy?: FirewallSshPolicy;
+  firewallMode?: FirewallMode;
+  firewallProfiles?: Record<string, FirewallProfile>;
+  firewallRefreshInterval?: number;
 }
 
 export interface GeneratedFiles {
@@ -21,6 +32,34 @@ export interface GeneratedFiles {
   compose: string;
   entrypoint: string;
   firewall: string;
+  proxyConfig?: string; // squid.conf, only in proxy mode
+}
+
+// Files copied into the image; their hash labels it (see BUILD_HASH_LABEL)
+type BuildFiles = Pick<GeneratedFiles, "dockerfile" | "entrypoint" | "firewall">;
+
+/**
+ * Hash of the files an image is built from.
+ */
+export function hashBuildFiles(files: BuildFiles): string {
+  const hash = createHash("sha256");
+  for (const content of [files.dockerfile, files.entrypoint, files.firewall]) {
+    hash.update(content).update("\0");
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Generated files by their name in the output directory.
+ */
+export function getGeneratedFileMap(files: GeneratedFiles): Record<string, string> {
+  return {
+    Dockerfile: files.dockerfile,
+    "docker-compose.yml": files.compose,
+    "entrypoint.sh": files.entrypoint,
+    "init-firewall.sh": files.firewall,
+    ...(files.proxyConfig ? { "squid.conf": files.proxyConfig } : {}),
+  };
 }
 
 /**
@@ -30,19 +69,51 @@ export interface GeneratedFiles {
 export function generateContainerFiles(options: GenerateFilesOptions): GeneratedFiles {
   const {
     agents,
-    containerName = "ccc",
+    containerName = getContainerName(),
     timezone = "UTC",
     projectsDir = "./projects",
     gitUserName,
     gitUserEmail,
     extensions = [],
     userFirewallDomains = [],
+    userFirewallRules = [],
+    firewallSshPolicy,
+    firewallMode = "ip",
+    firewallProfiles,
+    firewallRefreshInterval,
   } = options;
 
-  return {
+  const buildFiles: BuildFiles = {
     dockerfile: generateDockerfile({ agents, timezone }),
-    compose: generateCompose({ containerName, timezone, projectsDir, agents, gitUserName, gitUserEmail }),
     entrypoint: generateEntrypoint({ agents, extensions }),
-    firewall: generateFirewall({ agents, extensions, userDomains: userFirewallDomains }),
+    firewall: generateFirewall({
+      agents,
+      extensions,
+      userDomains: userFirewallDomains,
+      userRules: userFirewallRules,
+      sshPolicy: firewallSshPolicy,
+      mode: firewallMode,
+      proxyHost: getProxyName(containerName),
+      profiles: firewallProfiles,
+      refreshInterval: firewallRefreshInterval,
+    }),
+  };
+
+  return {
+    ...buildFiles,
+    compose: generateCompose({
+      containerName,
+      timezone,
+      projectsDir,
+      agents,
+      gitUserName,
+      gitUserEmail,
+      firewallMode,
+      buildHash: hashBuildFiles(buildFiles),
+    }),
+    proxyConfig:
+      firewallMode === "proxy"
+        ? generateProxyConfig({ agents, extensions, userDomains: userFirewallDomains })
+        : undefined,
   };
 }
@@ -1,28 +1,43 @@
-import { existsSync, mkdirSync, writeFileSync, chmodSync, readFileSync } from "fs";
+import { existsSync, mkdirSync, writeFileSync, chmodSync, readFileSync, rmSync } from "fs";
 import { join } from "path";
-import { execSync, spawn } from "child_process";
+import { execSync, spawn, spawnSync } from "child_process";
 import type { Agent } from "../agents/types.ts";
 import type { Extension } from "../extensions/types.ts";
 import { generateContainerFiles, type GenerateFilesOptions } from "./files.ts";
+import { generateProjectsCompose, PROJECTS_COMPOSE_FILE } from "../templates/compose.ts";
 import { LocalExecutor } from "./executor.ts";
-import { ContainerManager, type ContainerStatus, type BuildOptions } from "./container.ts";
+import {
+  ContainerManager,
+  type ContainerStatus,
+  type BuildOptions,
+  type FirewallIPv6State,
+} from "./container.ts";
+import type { FirewallDestination } from "../firewall/logs.ts";
+import type { FirewallProbe } from "../firewall/probe.ts";
+import { getContainerName } from "../containers.ts";
+import type { SessionWorktree } from "../worktrees.ts";
+import type { TaskInfo, TaskSpec } from "../tasks.ts";
+import type { QueuedTask, QueueSettings, QueueState } from "../queue.ts";
+import type { DoctorContainerProbe, DoctorHostProbe } from "../doctor.ts";
+import type { DeployedFiles } from "../drift.ts";
 import * as ui from "../utils/ui.ts";
 
 export { type ContainerStatus };
 
 // Re-export InitOptions for backwards compatibility
-export type InitOptions = GenerateFilesOptions & { outputDir: string };
+export type InitOptions = GenerateFilesOptions & {
+  outputDir: string;
+  projects?: Record<string, string>; // Project name -> host path, mounted at /workspace/<name>
+};
 
-const DEFAULT_CONTAINER_NAME = "ccc";
-
-// Singleton managers for the default output directory
+// Singleton managers for the active environment's output directory
 let _localExecutor: LocalExecutor | null = null;
 let _containerManager: ContainerManager | null = null;
 
 function getManager(outputDir: string): ContainerManager {
   if (!_containerManager || _localExecutor?.workDir !== outputDir) {
     _localExecutor = new LocalExecutor(outputDir);
-    _containerManager = new ContainerManager(_localExecutor, DEFAULT_CONTAINER_NAME);
+    _containerManager = new ContainerManager(_localExecutor, getContainerName());
   }
   return _containerManager;
 }
@@ -31,7 +46,7 @@ function getManager(outputDir: string): ContainerManager {
  * Generate all container configuration files and write them to disk.
  */
 export function generateFiles(options: InitOptions): void {
-  const { outputDir, ...fileOptions } = options;
+  const { outputDir, projects = {}, ...fileOptions } = options;
 
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
@@ -55,6 +70,13 @@ export function generateFiles(options: InitOptions): void {
   chmodSync(firewallPath, 0o755);
   ui.item("init-firewall.sh", "ok");
 
+  if (files.proxyConfig) {
+    writeFileSync(join(outputDir, "squid.conf"), files.proxyConfig);
+    ui.item("squid.conf", "ok");
+  }
+
+  writeProjectMounts(outputDir, projects, fileOptions.containerName);
+
   // Create directories
   for (const dir of ["projects", "skills", "mcp-configs"]) {
     const dirPath = join(outputDir, dir);
@@ -65,6 +87,25 @@ export function generateFiles(options: InitOptions): void {
   }
 }
 
+/**
+ * Write the compose override mounting registered projects, or remove it when there are none.
+ * Takes effect the next time the container is started.
+ */
+export function writeProjectMounts(
+  outputDir: string,
+  projects: Record<string, string>,
+  containerName: string = getContainerName()
+): void {
+  const overridePath = join(outputDir, PROJECTS_COMPOSE_FILE);
+  if (Object.keys(projects).length === 0) {
+    rmSync(overridePath, { force: true });
+    return;
+  }
+
+  writeFileSync(overridePath, generateProjectsCompose({ containerName, projects }));
+  ui.item(PROJECTS_COMPOSE_FILE, "ok");
+}
+
 /**
  * Generate SSH keys for the container.
  */
@@ -78,7 +119,7 @@ export async function generateContainerSSHKeys(outputDir: string): Promise<strin
   const keyPath = join(sshDir, "id_ed25519");
 
   if (!existsSync(keyPath)) {
-    execSync(`ssh-keygen -t ed25519 -f "${keyPath}" -N "" -C "ccc-container" -q`, { stdio: "pipe" });
+    execSync(`ssh-keygen -t ed25519 -f "${keyPath}" -N "" -C "${getContainerName()}-container" -q`, { stdio: "pipe" });
     ui.item("SSH key generated", "ok");
 
     const knownHostsPath = join(sshDir, "known_hosts");
@@ -114,6 +155,28 @@ export async function startContainer(outputDir: string, forceRecreate = false):
   getManager(outputDir).start(forceRecreate);
 }
 
+/**
+ * Regenerate init-firewall.sh and apply it to the running container.
+ */
+export function applyFirewall(options: InitOptions): void {
+  const { outputDir, ...fileOptions } = options;
+  const files = generateContainerFiles(fileOptions);
+
+  const firewallPath = join(outputDir, "init-firewall.sh");
+  writeFileSync(firewallPath, files.firewall);
+  chmodSync(firewallPath, 0o755);
+  ui.item("init-firewall.sh", "ok");
+
+  const manager = getManager(outputDir);
+  if (files.proxyConfig) {
+    writeFileSync(join(outputDir, "squid.conf"), files.proxyConfig);
+    ui.item("squid.conf", "ok");
+    manager.reloadProxy();
+  }
+
+  manager.applyFirewall();
+}
+
 // Helper to get a manager for container-name based operations
 function getManagerByName(containerName: string): ContainerManager {
   const executor = new LocalExecutor(".");
@@ -131,8 +194,150 @@ export function restartContainer(containerName: string): void {
 /**
  * Get container status.
  */
-export function getContainerStatus(containerName: string): ContainerStatus {
-  return getManagerByName(containerName).getStatus({ containerName });
+export function getContainerStatus(containerName: string, container?: string): Promise<ContainerStatus> {
+  return getManagerByName(containerName).getStatus({ containerName, container });
+}
+
+/**
+ * Probe Docker, the container and its image (ccc doctor).
+ */
+export function probeDoctorHost(outputDir: string): DoctorHostProbe {
+  return getManager(outputDir).probeDoctorHost();
+}
+
+/**
+ * Read generated files from the output directory and the container image's build hash (ccc diff).
+ */
+export function readDeployedFiles(outputDir: string, names: string[]): DeployedFiles {
+  return getManager(outputDir).readDeployedFiles(names);
+}
+
+/**
+ * Probe the firewall, GitHub access, MCP configs and skills in the container (ccc doctor).
+ */
+export function probeDoctorContainer(containerName: string, agents: Agent[]): DoctorContainerProbe {
+  return getManagerByName(containerName).probeDoctorContainer(agents);
+}
+
+/**
+ * Re-resolve the firewall allowlist in the running container.
+ */
+export function refreshFirewall(containerName: string): void {
+  getManagerByName(containerName).refreshFirewall();
+}
+
+/**
+ * Collect destinations logged by the firewall with the given LOG prefix.
+ */
+export function getFirewallDestinations(containerName: string, prefix: string, since?: Date): FirewallDestination[] {
+  return getManagerByName(containerName).getFirewallDestinations(prefix, since);
+}
+
+export function getProxyDestinations(containerName: string, since?: Date): FirewallDestination[] {
+  return getManagerByName(containerName).getProxyDestinations(since);
+}
+
+/**
+ * Check DNS, ipset membership and TLS for a host from inside the container.
+ */
+export function probeFirewall(containerName: string, host: string): FirewallProbe {
+  return getManagerByName(containerName).probeFirewall(host);
+}
+
+/**
+ * Whether the host keeps the container's firewall LOG output (undefined if unknown).
+ */
+export function isFirewallLogVisible(containerName: string): boolean | undefined {
+  return getManagerByName(containerName).isFirewallLogVisible();
+}
+
+/**
+ * Get how the container firewall is handling IPv6.
+ */
+export function getFirewallIPv6State(containerName: string): FirewallIPv6State {
+  return getManagerByName(containerName).getFirewallIPv6State();
+}
+
+/**
+ * Clone a repository into the container's /workspace/<dir>.
+ */
+export function cloneRepository(containerName: string, url: string, dir: string, branch?: string): void {
+  getManagerByName(containerName).cloneRepository(url, dir, branch);
+}
+
+/**
+ * List session worktrees (see worktrees.ts).
+ */
+export function listWorktrees(containerName: string): SessionWorktree[] {
+  return getManagerByName(containerName).listWorktrees();
+}
+
+/**
+ * Create a session worktree of a project, on an existing or new branch.
+ */
+export function addWorktree(containerName: string, session: string, project: string, branch: string): void {
+  getManagerByName(containerName).addWorktree(session, project, branch);
+}
+
+export function getWorktreeChanges(containerName: string, worktree: SessionWorktree): string[] {
+  return getManagerByName(containerName).getWorktreeChanges(worktree);
+}
+
+export function removeWorktree(containerName: string, worktree: SessionWorktree): void {
+  getManagerByName(containerName).removeWorktree(worktree);
+}
+
+/**
+ * Start a headless agent task in the background.
+ */
+export function startTask(containerName: string, task: TaskSpec, command: string): void {
+  getManagerByName(containerName).startTask(task, command);
+}
+
+export function listTasks(containerName: string): TaskInfo[] {
+  return getManagerByName(containerName).listTasks();
+}
+
+export function getTaskLog(containerName: string, id: string): string {
+  return getManagerByName(containerName).getTaskLog(id);
+}
+
+export function followTaskLog(containerName: string, id: string): Promise<void> {
+  return getManagerByName(containerName).followTaskLog(id);
+}
+
+export function stopTask(containerName: string, id: string): boolean {
+  return getManagerByName(containerName).stopTask(id);
+}
+
+/**
+ * Add tasks to the container's queue.
+ */
+export function enqueueTasks(containerName: string, entries: Array<{ task: QueuedTask; command: string }>): void {
+  getManagerByName(containerName).enqueueTasks(entries);
+}
+
+export function getQueue(containerName: string): QueueState {
+  return getManagerByName(containerName).getQueue();
+}
+
+export function setQueueSettings(containerName: string, settings: QueueSettings): void {
+  getManagerByName(containerName).setQueueSettings(settings);
+}
+
+export function removeQueuedTask(containerName: string, id: string): boolean {
+  return getManagerByName(containerName).removeQueuedTask(id);
+}
+
+export function resumeQueue(containerName: string): void {
+  getManagerByName(containerName).resumeQueue();
+}
+
+/**
+ * Names of the active sessions.
+ */
+export function getSessions(containerName: string): string[] {
+  return getManagerByName(containerName).getSessions();
 }
 
 /**
@@ -156,46 +361,72 @@ export function showLogs(containerName: string): void {
   getManagerByName(containerName).showLogs();
 }
 
-/**
- * Attach to a session in the container.
- * This is local-specific due to direct docker exec with TTY.
- */
-export function attachSession(
-  containerName: string,
-  sessionName: string = "main",
-  options: { noFirewall?: boolean; yolo?: boolean; prompt?: string; agent?: Agent } = {}
-): void {
-  const args = ["exec", "-it"];
+export interface AttachOptions {
+  firewallProfile?: string;
+  yolo?: boolean;
+  prompt?: string;
+  agent?: Agent;
+  workdir?: string; // Working directory for a new session (e.g. /workspace/<project>)
+  startAgent?: boolean; // Run the agent instead of a shell in a new session
+}
 
-  if (options.noFirewall) {
-    try {
-      execSync(`docker exec ${containerName} sudo iptables -F OUTPUT 2>/dev/null || true`, {
-        stdio: "ignore",
-      });
-    } catch {
-      // Ignore firewall flush errors
-    }
+function buildAttachArgs(containerName: string, sessionName: string, options: AttachOptions): string[] {
+  const args = ["exec", "-it"];
+  if (options.workdir) {
+    // shpool starts new shells in the attaching client's directory
+    args.push("-w", options.workdir);
   }
-
   args.push(containerName);
 
   // Setup XDG_RUNTIME_DIR for shpool (docker exec bypasses entrypoint)
   const xdgSetup = 'export XDG_RUNTIME_DIR=/run/user/$(id -u) && sudo mkdir -p $XDG_RUNTIME_DIR && sudo chown $(id -u):$(id -g) $XDG_RUNTIME_DIR && sudo chmod 700 $XDG_RUNTIME_DIR';
 
+  // Profile sessions start through ccc-session so the shell runs in the profile's group.
+  // This only takes effect when the session is created, not on re-attach.
+  const sessionCmd = options.firewallProfile ? [`ccc-session ${options.firewallProfile}`] : [];
+
   if (options.yolo && options.prompt && options.agent) {
-    const agentArgs = [options.agent.runCmd];
+    const agentArgs = [...sessionCmd, options.agent.runCmd];
     if (options.agent.skipPermissionsFlag) {
       agentArgs.push(options.agent.skipPermissionsFlag);
     }
     agentArgs.push("-p", options.prompt);
     args.push("bash", "-c", `${xdgSetup} && shpool attach -f ${sessionName} -c '${agentArgs.join(" ")}'`);
   } else {
-    args.push("bash", "-c", `${xdgSetup} && shpool attach ${sessionName}`);
+    const command = [...sessionCmd];
+    if (options.startAgent && options.agent) {
+      command.push(options.agent.runCmd);
+    }
+    const cmdFlag = command.length > 0 ? ` -c '${command.join(" ")}'` : "";
+    args.push("bash", "-c", `${xdgSetup} && shpool attach ${sessionName}${cmdFlag}`);
   }
 
+  return args;
+}
+
+/**
+ * Attach to a session in the container.
+ * This is local-specific due to direct docker exec with TTY.
+ */
+export function attachSession(
+  containerName: string,
+  sessionName: string = "main",
+  options: AttachOptions = {}
+): void {
+  const args = buildAttachArgs(containerName, sessionName, options);
   const result = spawn("docker", args, { stdio: "inherit" });
 
   result.on("close", (code) => {
     process.exit(code || 0);
   });
 }
+
+/**
+ * Attach to a session and block until the user detaches.
+ * Returns the exit code instead of exiting, for flows that continue afterwards.
+ */
+export function runSession(containerName: string, sessionName: string, options: AttachOptions = {}): number {
+  const args = buildAttachArgs(containerName, sessionName, options);
+  const result = spawnSync("docker", args, { stdio: "inherit" });
+  return result.status ?? 0;
+}
@@ -1,17 +1,41 @@
 import { execSync, spawn, spawnSync } from "child_process";
-import { existsSync, mkdirSync, writeFileSync, readFileSync, mkdtempSync, readdirSync } from "fs";
-import { join } from "path";
-import { tmpdir, homedir } from "os";
+import { mkdirSync, writeFileSync, readFileSync, mkdtempSync, rmSync } from "fs";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
 import type { Agent } from "../agents/types.ts";
-import { generateContainerFiles } from "./files.ts";
-import { RemoteExecutor } from "./executor.ts";
+import { generateContainerFiles, getGeneratedFileMap, type GeneratedFiles } from "./files.ts";
+import { RemoteExecutor, runCommandAsync } from "./executor.ts";
 import { ContainerManager, type ContainerStatus } from "./container.ts";
+import { loadAgents } from "../agents/loader.ts";
 import { loadExtensions } from "../extensions/loader.ts";
-import { getUserFirewallDomains } from "../firewall/config.ts";
+import { loadFirewallConfig } from "../firewall/config.ts";
+import { shellQuote, type TaskInfo, type TaskSpec } from "../tasks.ts";
+import type { QueuedTask, QueueSettings, QueueState } from "../queue.ts";
+import type { DoctorContainerProbe, DoctorHostProbe } from "../doctor.ts";
+import { getComposeGitUser, getImageDrift, type DeployedFiles } from "../drift.ts";
+import { parseProbe, probeToStatus, PROBE_COMMAND } from "../probe.ts";
 import { detectRemotePlatform, ensureBinaryForPlatform } from "./binary.ts";
+import {
+  cccCommand,
+  getActiveContainer,
+  getContainerName,
+  getContainerSelector,
+  getRemoteContainerDir,
+  parseContainerDirs,
+} from "../containers.ts";
+import {
+  buildLocalManifest,
+  buildManifestScript,
+  buildRsyncArgs,
+  diffManifests,
+  hasChanges,
+  parseItemizedChanges,
+  parseManifest,
+  type SyncChanges,
+} from "./sync.ts";
+import { getSSHArgs, openSSHConnection, rsyncCommand, scpCommand, sshCommand, sshLoginCommand } from "../utils/ssh.ts";
 import * as ui from "../utils/ui.ts";
 
-const REMOTE_CCC_DIR = "~/.ccc";
 const REMOTE_BIN_DIR = "~/bin";
 
 // ============================================================================
@@ -20,7 +44,7 @@ const REMOTE_BIN_DIR = "~/bin";
 
 export function testSSHConnection(host: string): boolean {
   try {
-    execSync(`ssh -o BatchMode=yes -o ConnectTimeout=5 ${host} "echo ok"`, { stdio: "pipe" });
+    execSync(`${sshCommand(host, ["-o", "BatchMode=yes", "-o", "ConnectTimeout=5"])} "echo ok"`, { stdio: "pipe" });
     return true;
   } catch {
     return false;
@@ -34,7 +58,7 @@ export function sshExec(
 ): string {
   const { stdio = "pipe", ignoreError = false } = options;
   try {
-    const result = execSync(`ssh ${host} "${command.replace(/"/g, '\\"')}"`, {
+    const result = execSync(`${sshCommand(host)} "${command.replace(/"/g, '\\"')}"`, {
       encoding: "utf-8",
       stdio: stdio === "inherit" ? "inherit" : "pipe",
     });
@@ -46,11 +70,11 @@ export function sshExec(
 }
 
 export function scpFile(localPath: string, host: string, remotePath: string): void {
-  execSync(`scp -q "${localPath}" "${host}:${remotePath}"`, { stdio: "pipe" });
+  execSync(`${scpCommand(host, ["-q"])} "${localPath}" "${host}:${remotePath}"`, { stdio: "pipe" });
 }
 
 export function scpDir(localPath: string, host: string, remotePath: string): void {
-  execSync(`scp -q -r "${localPath}" "${host}:${remotePath}"`, { stdio: "pipe" });
+  execSync(`${scpCommand(host, ["-q", "-r"])} "${localPath}" "${host}:${remotePath}"`, { stdio: "pipe" });
 }
 
 function checkRemoteDocker(host: string): boolean {
@@ -66,9 +90,9 @@ function checkRemoteDocker(host: string): boolean {
 // Remote Container Manager Factory
 // ============================================================================
 
-function getRemoteManager(host: string): ContainerManager {
-  const executor = new RemoteExecutor(host, REMOTE_CCC_DIR);
-  return new ContainerManager(executor, "ccc");
+function getRemoteManager(host: string, container: string = getActiveContainer()): ContainerManager {
+  const executor = new RemoteExecutor(host, getRemoteContainerDir(container));
+  return new ContainerManager(executor, getContainerName(container));
 }
 
 // ============================================================================
@@ -80,39 +104,55 @@ interface GeneratedFilesResult {
   sshKeysDir: string;
 }
 
+// Paths in the remote output directory kept in sync with the config (see sync.ts).
+// skills/ and mcp-configs/ are not: they follow the host's own extensions (see syncRemoteExtensionFiles).
+const CONTAINER_FILE_PATHS = ["Dockerfile", "docker-compose.yml", "entrypoint.sh", "init-firewall.sh", "squid.conf"];
+
 /**
- * Generate container files to a temp directory for remote deployment.
+ * Write the generated container files to a directory laid out like the remote
+ * output directory.
  */
-function generateRemoteFiles(agents: Agent[], options: { gitUserName?: string; gitUserEmail?: string } = {}): GeneratedFilesResult {
-  const tempDir = mkdtempSync(join(tmpdir(), "ccc-"));
+function stageContainerFiles(
+  dir: string,
+  agents: Agent[],
+  options: { gitUserName?: string; gitUserEmail?: string; verbose?: boolean } = {}
+): GeneratedFiles {
   const extensions = Object.values(loadExtensions());
-  const userFirewallDomains = getUserFirewallDomains();
+  const firewallConfig = loadFirewallConfig();
 
   const files = generateContainerFiles({
     agents,
     extensions,
-    userFirewallDomains,
+    userFirewallDomains: firewallConfig.domains,
+    userFirewallRules: firewallConfig.rules,
+    firewallSshPolicy: firewallConfig.ssh,
+    firewallMode: firewallConfig.mode,
+    firewallProfiles: firewallConfig.profiles,
+    firewallRefreshInterval: firewallConfig.refresh_interval,
     gitUserName: options.gitUserName,
     gitUserEmail: options.gitUserEmail,
   });
 
-  writeFileSync(join(tempDir, "Dockerfile"), files.dockerfile);
-  ui.item("Dockerfile", "ok");
-
-  writeFileSync(join(tempDir, "docker-compose.yml"), files.compose);
-  ui.item("docker-compose.yml", "ok");
+  for (const [name, content] of Object.entries(getGeneratedFileMap(files))) {
+    writeFileSync(join(dir, name), content);
+    if (options.verbose) ui.item(name, "ok");
+  }
 
-  writeFileSync(join(tempDir, "entrypoint.sh"), files.entrypoint);
-  ui.item("entrypoint.sh", "ok");
+  return files;
+}
 
-  writeFileSync(join(tempDir, "init-firewall.sh"), files.firewall);
-  ui.item("init-firewall.sh", "ok");
+/**
+ * Generate container files to a temp directory for remote deployment.
+ */
+function generateRemoteFiles(agents: Agent[], options: { gitUserName?: string; gitUserEmail?: string } = {}): GeneratedFilesResult {
+  const tempDir = mkdtempSync(join(tmpdir(), "ccc-"));
+  stageContainerFiles(tempDir, agents, { ...options, verbose: true });
 
   // Generate SSH keys
   const sshKeysDir = join(tempDir, "ssh-keys");
   mkdirSync(sshKeysDir, { recursive: true });
   const keyPath = join(sshKeysDir, "id_ed25519");
-  execSync(`ssh-keygen -t ed25519 -f "${keyPath}" -N "" -C "ccc-container" -q`);
+  execSync(`ssh-keygen -t ed25519 -f "${keyPath}" -N "" -C "${getContainerName()}-container" -q`);
   ui.item("Container SSH key generated", "ok");
 
   try {
@@ -124,31 +164,93 @@ function generateRemoteFiles(agents: Agent[], options: { gitUserName?: string; g
   return { tempDir, sshKeysDir };
 }
 
+function hasRsync(host: string): boolean {
+  try {
+    execSync("command -v rsync", { stdio: "pipe" });
+  } catch {
+    return false;
+  }
+  return sshExec(host, "command -v rsync", { ignoreError: true }) !== "";
+}
+
 /**
- * Sync container files to remote (used when updating agents).
+ * Push the managed paths of a staged directory to the remote directory,
+ * copying only changed files and pruning deleted ones.
  */
-export function syncRemoteFiles(host: string, agents: Agent[]): void {
-  const tempDir = mkdtempSync(join(tmpdir(), "ccc-sync-"));
-  const extensions = Object.values(loadExtensions());
-  const userFirewallDomains = getUserFirewallDomains();
+function pushContainerFiles(host: string, localDir: string, remoteDir: string, paths: string[]): SyncChanges {
+  if (hasRsync(host)) {
+    const output = execSync(`${rsyncCommand(host, buildRsyncArgs(paths))} "${localDir}/" "${host}:${remoteDir}/"`, {
+      encoding: "utf-8",
+      stdio: "pipe",
+    });
+    return parseItemizedChanges(output);
+  }
 
-  const files = generateContainerFiles({
-    agents,
-    extensions,
-    userFirewallDomains,
-  });
+  const remoteManifest = parseManifest(sshExec(host, `cd ${remoteDir} && ${buildManifestScript(paths)}`));
+  const changes = diffManifests(buildLocalManifest(localDir, paths), remoteManifest);
+
+  const parents = [...new Set(changes.changed.map((path) => dirname(path)).filter((dir) => dir !== "."))];
+  const commands: string[] = [];
+  if (parents.length > 0) commands.push(`mkdir -p ${parents.map(shellQuote).join(" ")}`);
+  if (changes.deleted.length > 0) {
+    commands.push(`rm -f ${changes.deleted.map(shellQuote).join(" ")}`);
+    // Drop directories left empty, e.g. of a removed skill
+    const dirs = paths.filter((path) => path.endsWith("/")).map((path) => path.slice(0, -1));
+    if (dirs.length > 0) commands.push(`{ find ${dirs.join(" ")} -mindepth 1 -type d -empty -delete 2>/dev/null; true; }`);
+  }
+  if (commands.length > 0) sshExec(host, `cd ${remoteDir} && ${commands.join(" && ")}`);
+
+  for (const path of changes.changed) {
+    scpFile(join(localDir, path), host, `${remoteDir}/${path}`);
+  }
+  return changes;
+}
+
+/**
+ * List what a sync pushed and pruned.
+ */
+export function reportSyncChanges(changes: SyncChanges): void {
+  if (!hasChanges(changes)) {
+    ui.item("Files up to date", "ok");
+    return;
+  }
+  for (const path of changes.changed) ui.item(`${path} ${ui.style.dim("updated")}`, "ok");
+  for (const path of changes.deleted) ui.item(`${path} ${ui.style.dim("removed")}`, "ok");
+}
 
-  writeFileSync(join(tempDir, "Dockerfile"), files.dockerfile);
-  writeFileSync(join(tempDir, "docker-compose.yml"), files.compose);
-  writeFileSync(join(tempDir, "entrypoint.sh"), files.entrypoint);
-  writeFileSync(join(tempDir, "init-firewall.sh"), files.firewall);
+/**
+ * Reconcile the host's skills/ and mcp-configs/ with the extensions enabled
+ * there, removing files of disabled ones. Skipped when the host's ccc
+ * predates `extension sync`.
+ */
+function syncRemoteExtensionFiles(host: string): void {
+  sshExec(host, `${REMOTE_BIN_DIR}/${cccCommand("extension sync")}`, { stdio: "inherit", ignoreError: true });
+}
+
+export interface RemoteSyncResult extends SyncChanges {
+  imageCurrent: boolean; // The container's image is built from the synced build files
+}
 
-  scpFile(join(tempDir, "Dockerfile"), host, `${REMOTE_CCC_DIR}/Dockerfile`);
-  scpFile(join(tempDir, "docker-compose.yml"), host, `${REMOTE_CCC_DIR}/docker-compose.yml`);
-  scpFile(join(tempDir, "entrypoint.sh"), host, `${REMOTE_CCC_DIR}/entrypoint.sh`);
-  scpFile(join(tempDir, "init-firewall.sh"), host, `${REMOTE_CCC_DIR}/init-firewall.sh`);
+/**
+ * Sync container files to remote (used when updating agents). The git identity
+ * given at init is kept from the deployed docker-compose.yml.
+ */
+export function syncRemoteFiles(host: string, agents: Agent[]): RemoteSyncResult {
+  const remoteDir = getRemoteContainerDir();
+  const deployed = readRemoteDeployedFiles(host, ["docker-compose.yml"]);
+  const tempDir = mkdtempSync(join(tmpdir(), "ccc-sync-"));
 
-  sshExec(host, `chmod +x ${REMOTE_CCC_DIR}/entrypoint.sh ${REMOTE_CCC_DIR}/init-firewall.sh`);
+  try {
+    const files = stageContainerFiles(tempDir, agents, getComposeGitUser(deployed.files["docker-compose.yml"]));
+    const changes = pushContainerFiles(host, tempDir, remoteDir, CONTAINER_FILE_PATHS);
+    sshExec(host, `chmod +x ${remoteDir}/entrypoint.sh ${remoteDir}/init-firewall.sh`);
+    syncRemoteExtensionFiles(host);
+
+    const synced = { files: getGeneratedFileMap(files), imageHash: deployed.imageHash };
+    return { ...changes, imageCurrent: getImageDrift(synced) === "current" };
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
 }
 
 // ============================================================================
@@ -168,7 +270,7 @@ export async function initRemote(
     ui.item(`Cannot connect to ${host}`, "fail");
     ui.error(`SSH connection failed to ${host}`);
     console.log(`\n  Make sure you can SSH to this host:`);
-    ui.showCommand(`ssh ${host}`);
+    ui.showCommand(sshLoginCommand(host));
     throw new Error("SSH connection failed");
   }
   ui.item(`Connected to ${ui.style.highlight(host)}`, "ok");
@@ -208,38 +310,20 @@ export async function initRemote(
 
   // Step 4: Copy files to remote
   ui.header(ui.step(4, 5, "Copying files to remote"));
+  const remoteDir = getRemoteContainerDir();
 
-  sshExec(host, `mkdir -p ${REMOTE_CCC_DIR} ${REMOTE_BIN_DIR}`, { ignoreError: true });
-  sshExec(host, `mkdir -p ${REMOTE_CCC_DIR}/ssh-keys ${REMOTE_CCC_DIR}/projects ${REMOTE_CCC_DIR}/skills ${REMOTE_CCC_DIR}/mcp-configs`);
+  sshExec(host, `mkdir -p ${remoteDir} ${REMOTE_BIN_DIR}`, { ignoreError: true });
+  sshExec(host, `mkdir -p ${remoteDir}/ssh-keys ${remoteDir}/projects ${remoteDir}/skills ${remoteDir}/mcp-configs`);
   ui.item("Created remote directories", "ok");
 
-  scpFile(join(tempDir, "Dockerfile"), host, `${REMOTE_CCC_DIR}/Dockerfile`);
-  scpFile(join(tempDir, "docker-compose.yml"), host, `${REMOTE_CCC_DIR}/docker-compose.yml`);
-  scpFile(join(tempDir, "entrypoint.sh"), host, `${REMOTE_CCC_DIR}/entrypoint.sh`);
-  scpFile(join(tempDir, "init-firewall.sh"), host, `${REMOTE_CCC_DIR}/init-firewall.sh`);
-  ui.item("Copied container files", "ok");
-
-  scpDir(sshKeysDir, host, `${REMOTE_CCC_DIR}/`);
-  ui.item("Copied SSH keys", "ok");
-
-  // Copy skills and mcp-configs if they exist
-  const localSkillsDir = join(homedir(), ".ccc", "skills");
-  if (existsSync(localSkillsDir) && readdirSync(localSkillsDir).length > 0) {
-    execSync(`scp -q -r "${localSkillsDir}/." "${host}:${REMOTE_CCC_DIR}/skills"`, { stdio: "pipe" });
-    ui.item("Copied skills", "ok");
-  }
-
-  const localMcpDir = join(homedir(), ".ccc", "mcp-configs");
-  if (existsSync(localMcpDir) && readdirSync(localMcpDir).length > 0) {
-    execSync(`scp -q -r "${localMcpDir}/." "${host}:${REMOTE_CCC_DIR}/mcp-configs"`, { stdio: "pipe" });
-    ui.item("Copied MCP configs", "ok");
-  }
+  reportSyncChanges(pushContainerFiles(host, tempDir, remoteDir, [...CONTAINER_FILE_PATHS, "ssh-keys/"]));
 
   scpFile(binaryPath, host, `${REMOTE_BIN_DIR}/ccc`);
   sshExec(host, `chmod +x ${REMOTE_BIN_DIR}/ccc`);
   ui.item("Installed ccc binary", "ok");
 
-  sshExec(host, `chmod +x ${REMOTE_CCC_DIR}/entrypoint.sh ${REMOTE_CCC_DIR}/init-firewall.sh`);
+  sshExec(host, `chmod +x ${remoteDir}/entrypoint.sh ${remoteDir}/init-firewall.sh`);
+  syncRemoteExtensionFiles(host);
 
   // Print SSH key
   const pubKey = readFileSync(join(sshKeysDir, "id_ed25519.pub"), "utf-8").trim();
@@ -256,9 +340,9 @@ export async function initRemote(
     await buildRemote(host);
   } else {
     console.log(`\n  ${ui.style.dim("Files copied. To build the container on remote:")}`);
-    ui.showCommand(`ssh ${host} "cd ~/.ccc && docker compose build"`);
+    ui.showCommand(`${sshLoginCommand(host)} "cd ${getRemoteContainerDir()} && docker compose build"`);
     console.log(`\n  ${ui.style.dim("Or use:")}`);
-    ui.showCommand(`ccc build @remote`);
+    ui.showCommand(["ccc @remote", getContainerSelector(), "build"].filter(Boolean).join(" "));
   }
 
   ui.success("Remote container initialized!");
@@ -266,9 +350,9 @@ export async function initRemote(
   console.log(`\n  ${ui.symbols.lightning} ${ui.style.bold("Next steps:")}`);
   console.log(`  ${ui.style.dim("1.")} Add the SSH key above to GitHub`);
   console.log(`  ${ui.style.dim("2.")} Build the container on remote`);
-  console.log(`  ${ui.style.dim("3.")} Connect: ${ui.style.command(`ccc @remote`)}`);
+  console.log(`  ${ui.style.dim("3.")} Connect: ${ui.style.command(["ccc @remote", getContainerSelector()].filter(Boolean).join(" "))}`);
 
-  ui.hint(`You can also SSH directly: ${ui.style.command(`ssh ${host}`)}, then run ${ui.style.command("ccc")}`);
+  ui.hint(`You can also SSH directly: ${ui.style.command(sshLoginCommand(host))}, then run ${ui.style.command(cccCommand())}`);
 }
 
 // ============================================================================
@@ -299,31 +383,141 @@ export function showRemoteLogs(host: string): void {
   getRemoteManager(host).showLogs();
 }
 
+export function refreshRemoteFirewall(host: string): void {
+  getRemoteManager(host).refreshFirewall();
+}
+
+// ============================================================================
+// Remote Tasks
+// ============================================================================
+
+export function startRemoteTask(host: string, task: TaskSpec, command: string): void {
+  getRemoteManager(host).startTask(task, command);
+}
+
+export function listRemoteTasks(host: string): TaskInfo[] {
+  return getRemoteManager(host).listTasks();
+}
+
+export function getRemoteTaskLog(host: string, id: string): string {
+  return getRemoteManager(host).getTaskLog(id);
+}
+
+export function followRemoteTaskLog(host: string, id: string): Promise<void> {
+  return getRemoteManager(host).followTaskLog(id);
+}
+
+export function stopRemoteTask(host: string, id: string): boolean {
+  return getRemoteManager(host).stopTask(id);
+}
+
+export function enqueueRemoteTasks(host: string, entries: Array<{ task: QueuedTask; command: string }>): void {
+  getRemoteManager(host).enqueueTasks(entries);
+}
+
+export function getRemoteQueue(host: string): QueueState {
+  return getRemoteManager(host).getQueue();
+}
+
+export function setRemoteQueueSettings(host: string, settings: QueueSettings): void {
+  getRemoteManager(host).setQueueSettings(settings);
+}
+
+export function removeRemoteQueuedTask(host: string, id: string): boolean {
+  return getRemoteManager(host).removeQueuedTask(id);
+}
+
+export function resumeRemoteQueue(host: string): void {
+  getRemoteManager(host).resumeQueue();
+}
+
 // ============================================================================
 // Remote Status
 // ============================================================================
 
-export interface RemoteHostStatus extends ContainerStatus {
+// How long a host gets to answer ccc ls / ccc status before it's reported as timed out
+const REMOTE_PROBE_TIMEOUT_MS = 20_000;
+
+export interface RemoteHostProbe {
   reachable: boolean;
+  timedOut: boolean;
+  containers: Array<{ name: string; status: ContainerStatus }>; // Environments, default first
 }
 
-export function getRemoteHostStatus(host: string): RemoteHostStatus {
-  const status: RemoteHostStatus = {
-    reachable: false,
-    exists: false,
-    running: false,
-    takopi: false,
-    sessions: [],
-    agents: [],
-  };
+/**
+ * The remote binary's _probe, checking the locally enabled agents in environments
+ * without agent configs of their own on the remote.
+ */
+function buildRemoteProbeCommand(): string {
+  const agents = Object.keys(loadAgents()).join(",");
+  return `${REMOTE_BIN_DIR}/ccc ${PROBE_COMMAND} --json --agents '${agents}'`;
+}
 
-  if (!testSSHConnection(host)) {
-    return status;
+async function testSSHConnectionAsync(host: string, signal: AbortSignal): Promise<boolean> {
+  try {
+    await runCommandAsync(`${sshCommand(host, ["-o", "BatchMode=yes", "-o", "ConnectTimeout=5"])} "echo ok"`, { signal });
+    return true;
+  } catch {
+    return false;
   }
-  status.reachable = true;
+}
+
+/**
+ * Status of every environment on a remote host, without blocking so several
+ * hosts can be probed at once. Everything still running after timeoutMs is
+ * killed and the host is reported as timed out.
+ */
+export async function probeRemoteHost(host: string, timeoutMs: number = REMOTE_PROBE_TIMEOUT_MS): Promise<RemoteHostProbe> {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    await openSSHConnection(host, signal);
+    if (!(await testSSHConnectionAsync(host, signal))) {
+      return { reachable: false, timedOut: signal.aborted, containers: [] };
+    }
+
+    const probe = parseProbe(
+      await runCommandAsync(`${sshCommand(host)} "${buildRemoteProbeCommand()}"`, { ignoreError: true, signal })
+    );
+    if (probe) {
+      return {
+        reachable: true,
+        timedOut: false,
+        containers: probe.containers.map((container) => ({ name: container.name, status: probeToStatus(container) })),
+      };
+    }
 
-  const containerStatus = getRemoteManager(host).getStatus({ host });
-  return { ...status, ...containerStatus };
+    // Binaries from before _probe: query each environment from here
+    const dirs = await runCommandAsync(`${sshCommand(host)} "ls -d ~/.ccc-*/ 2>/dev/null"`, { ignoreError: true, signal });
+    const containers = await Promise.all(
+      parseContainerDirs(dirs.split("\n")).map(async (name) => ({
+        name,
+        status: await getRemoteManager(host, name).getStatus({ host, container: name }, signal),
+      }))
+    );
+
+    // Aborted commands come back empty, so a partial result would look like stopped containers
+    if (signal.aborted) {
+      return { reachable: false, timedOut: true, containers: [] };
+    }
+    return { reachable: true, timedOut: false, containers };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function probeRemoteDoctorHost(host: string): DoctorHostProbe {
+  return getRemoteManager(host).probeDoctorHost();
+}
+
+export function readRemoteDeployedFiles(host: string, names: string[]): DeployedFiles {
+  return getRemoteManager(host).readDeployedFiles(names);
+}
+
+export function probeRemoteDoctorContainer(host: string, agents: Agent[]): DoctorContainerProbe {
+  return getRemoteManager(host).probeDoctorContainer(agents);
 }
 
 // ============================================================================
@@ -333,14 +527,27 @@ export function getRemoteHostStatus(host: string): RemoteHostStatus {
 export function attachRemote(
   host: string,
   sessionName: string = "main",
-  options: { noFirewall?: boolean; yolo?: boolean; prompt?: string; agent?: Agent } = {}
+  options: {
+    firewallProfile?: string;
+    yolo?: boolean;
+    prompt?: string;
+    agent?: Agent;
+    workspace?: string;
+    worktree?: string;
+  } = {}
 ): void {
-  const args = ["ssh", "-t", host];
+  const args = ["ssh", "-t", ...getSSHArgs(host), host];
 
   // Build the ccc command with appropriate flags
   const cccArgs = [sessionName];
-  if (options.noFirewall) {
-    cccArgs.push("--no-firewall");
+  if (options.firewallProfile) {
+    cccArgs.push("--firewall-profile", options.firewallProfile);
+  }
+  if (options.workspace) {
+    cccArgs.push("-w", options.workspace);
+  }
+  if (options.worktree) {
+    cccArgs.push("--worktree", options.worktree);
   }
   if (options.yolo) {
     cccArgs.push("--yolo");
@@ -349,12 +556,22 @@ export function attachRemote(
     }
   }
 
-  args.push(`${REMOTE_BIN_DIR}/ccc ${cccArgs.join(" ")}`);
+  args.push(`${REMOTE_BIN_DIR}/${cccCommand(cccArgs.join(" "))}`);
 
   const result = spawnSync(args[0]!, args.slice(1), { stdio: "inherit" });
   process.exit(result.status || 0);
 }
 
+/**
+ * Run an interactive ccc command with the remote binary (e.g. firewall learn).
+ */
+export function runRemoteCcc(host: string, cccArgs: string[]): void {
+  const result = spawnSync("ssh", ["-t", ...getSSHArgs(host), host, `${REMOTE_BIN_DIR}/${cccCommand(cccArgs.join(" "))}`], {
+    stdio: "inherit",
+  });
+  process.exit(result.status || 0);
+}
+
 // ============================================================================
 // Binary Management
 // ============================================================================
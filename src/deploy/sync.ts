@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+
+/**
+ * Incremental sync of container files to a remote output directory.
+ *
+ * Only the given paths are managed: top-level file names, and directories
+ * written with a trailing slash ("ssh-keys/"). Within them, changed files are
+ * pushed and files that no longer exist locally are pruned; everything else in
+ * the remote directory (projects/, skills/, mcp-configs/, keys when not given)
+ * is left alone.
+ *
+ * rsync is used when both ends have it. Otherwise sha256 manifests of both
+ * sides are compared and the caller copies the changed files itself.
+ */
+
+export interface SyncChanges {
+  changed: string[]; // Relative paths of added or modified files
+  deleted: string[]; // Relative paths of pruned files
+}
+
+export function hasChanges(changes: SyncChanges): boolean {
+  return changes.changed.length > 0 || changes.deleted.length > 0;
+}
+
+function hashFile(path: string): string {
+  return createHash("sha256").update(readFileSync(path)).digest("hex");
+}
+
+function walkFiles(dir: string, prefix: string, manifest: Record<string, string>): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.isDirectory()) {
+      walkFiles(join(dir, entry.name), path, manifest);
+    } else if (entry.isFile()) {
+      manifest[path] = hashFile(join(dir, entry.name));
+    }
+  }
+}
+
+/**
+ * Relative path -> sha256 of the managed files that exist in a local directory.
+ */
+export function buildLocalManifest(dir: string, paths: string[]): Record<string, string> {
+  const manifest: Record<string, string> = {};
+  for (const path of paths) {
+    const name = path.replace(/\/$/, "");
+    const fullPath = join(dir, name);
+    if (!existsSync(fullPath)) continue;
+    if (statSync(fullPath).isDirectory()) {
+      walkFiles(fullPath, name, manifest);
+    } else {
+      manifest[name] = hashFile(fullPath);
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Script printing a sha256sum line per managed file. Run from the remote directory.
+ */
+export function buildManifestScript(paths: string[]): string {
+  const names = paths.map((path) => path.replace(/\/$/, ""));
+  return `find ${names.join(" ")} -type f -exec sha256sum {} + 2>/dev/null; true`;
+}
+
+/**
+ * Parse the output of buildManifestScript.
+ */
+export function parseManifest(output: string): Record<string, string> {
+  const manifest: Record<string, string> = {};
+  for (const line of output.split("\n")) {
+    const match = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+    if (match) manifest[match[2]!.replace(/^\.\//, "")] = match[1]!;
+  }
+  return manifest;
+}
+
+/**
+ * Files to push and to prune so the remote manifest matches the local one.
+ */
+export function diffManifests(local: Record<string, string>, remote: Record<string, string>): SyncChanges {
+  return {
+    changed: Object.keys(local)
+      .filter((path) => local[path] !== remote[path])
+      .toSorted(),
+    deleted: Object.keys(remote)
+      .filter((path) => !(path in local))
+      .toSorted(),
+  };
+}
+
+/**
+ * rsync flags syncing the managed paths by checksum, pruning deleted files and
+ * itemizing what changed. Paths outside the filters are neither sent nor deleted.
+ */
+export function buildRsyncArgs(paths: string[]): string[] {
+  const filters = paths.map((path) => (path.endsWith("/") ? `--include=/${path.slice(0, -1)}/***` : `--include=/${path}`));
+  return ["-rc", "--delete", "--itemize-changes", ...filters, "--exclude=*"];
+}
+
+/**
+ * Parse rsync --itemize-changes output. Directory lines are skipped.
+ */
+export function parseItemizedChanges(output: string): SyncChanges {
+  const changes: SyncChanges = { changed: [], deleted: [] };
+  for (const line of output.split("\n")) {
+    const sent = line.match(/^[<>]f\S*\s+(.+)$/);
+    if (sent) {
+      changes.changed.push(sent[1]!);
+      continue;
+    }
+    const deleted = line.match(/^\*deleting\s+(.+)$/);
+    if (deleted && !deleted[1]!.endsWith("/")) {
+      changes.deleted.push(deleted[1]!);
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,344 @@
+import type { Agent } from "./agents/types.ts";
+
+/**
+ * Health diagnostics (ccc doctor).
+ *
+ * Two scripts gather everything in one round trip each: one on the Docker host
+ * (run from the container's output directory) and one inside the container.
+ * Their output is parsed into probes, which become checks with fix hints.
+ */
+
+export type DoctorStatus = "ok" | "warn" | "fail";
+
+export interface DoctorCheck {
+  group: string;
+  name: string;
+  status: DoctorStatus;
+  details?: string;
+  fix?: string; // Shown for warn and fail
+}
+
+/** Docker host state, from buildDoctorHostScript */
+export interface DoctorHostProbe {
+  docker?: string; // Client version
+  daemon?: string; // Server version, undefined if the daemon isn't reachable
+  compose?: string;
+  buildx?: string;
+  container: "running" | "stopped" | "missing";
+  imageCreated?: number; // Epoch seconds
+  files: Record<string, number>; // Generated build file -> mtime (epoch seconds)
+  sshKey: boolean;
+}
+
+/** Container state, from buildDoctorContainerScript */
+export interface DoctorContainerProbe {
+  firewall: "enforcing" | "learning" | "off";
+  refreshInterval?: number;
+  refreshDaemon: boolean;
+  lastRefresh?: number; // Epoch seconds
+  now: number;
+  sshKey: boolean;
+  github: "ok" | "denied" | "unreachable";
+  mcp: Record<string, "ok" | "missing" | "stale">; // Agents with ccc-managed MCP servers
+  skills: Record<string, boolean>; // Agents with a skills directory -> symlink present
+}
+
+// Files baked into the image (see templates/dockerfile.ts)
+export const DOCTOR_BUILD_FILES = ["Dockerfile", "entrypoint.sh", "init-firewall.sh"];
+
+/**
+ * Script run on the Docker host from the container's output directory.
+ * Prints "<key> <value>" lines; missing tools print an empty value.
+ */
+export function buildDoctorHostScript(containerName: string): string {
+  return [
+    `echo "docker $(docker version --format '{{.Client.Version}}' 2>/dev/null)"`,
+    `echo "daemon $(docker info --format '{{.ServerVersion}}' 2>/dev/null)"`,
+    `echo "compose $(docker compose version --short 2>/dev/null)"`,
+    `echo "buildx $(docker buildx version 2>/dev/null | awk '{ print $2 }')"`,
+    `state=$(docker inspect -f '{{.State.Running}}' ${containerName} 2>/dev/null)`,
+    `echo "container \${state:-missing}"`,
+    `image=$(docker inspect -f '{{.Image}}' ${containerName} 2>/dev/null) && echo "image $(docker image inspect -f '{{.Created}}' "$image" 2>/dev/null)"`,
+    `for file in ${DOCTOR_BUILD_FILES.join(" ")}; do`,
+    `  [ -f "$file" ] && echo "file $file $(date -r "$file" +%s)"`,
+    `done`,
+    `[ -f ssh-keys/id_ed25519 ] && echo "sshkey present"`,
+    `true`,
+  ].join("\n");
+}
+
+/**
+ * Script run inside the container. Checks the firewall and its DNS refresher,
+ * GitHub access with the container's key, and the MCP configs and skills
+ * symlinks the entrypoint sets up for each agent.
+ */
+export function buildDoctorContainerScript(agents: Agent[]): string {
+  const lines = [
+    `rules=$(sudo iptables -S OUTPUT 2>/dev/null)`,
+    `if echo "$rules" | grep -q CCC-LEARN; then echo "firewall learning"`,
+    `elif echo "$rules" | grep -q -- '-j DROP'; then echo "firewall enforcing"`,
+    `else echo "firewall off"; fi`,
+    `echo "refresh-interval $(sed -n 's/^REFRESH_INTERVAL=//p' /usr/local/bin/init-firewall.sh 2>/dev/null)"`,
+    `pid=$(cat /run/ccc-firewall/refresh.pid 2>/dev/null)`,
+    `if [ -n "$pid" ] && grep -qs -- --daemon /proc/$pid/cmdline; then echo "refresh-daemon running"; fi`,
+    `echo "refresh-last $(cat /run/ccc-firewall/last-refresh 2>/dev/null)"`,
+    `echo "now $(date +%s)"`,
+    `[ -f ~/.ssh/id_ed25519 ] && echo "sshkey present"`,
+    `github=$(timeout 20 ssh -T -o BatchMode=yes -o ConnectTimeout=10 -o StrictHostKeyChecking=accept-new git@github.com 2>&1)`,
+    `case "$github" in`,
+    `  *"successfully authenticated"*) echo "github ok" ;;`,
+    `  *"Permission denied"*) echo "github denied" ;;`,
+    `  *) echo "github unreachable" ;;`,
+    `esac`,
+  ];
+
+  // Same source and destination as the entrypoint's MCP sync
+  for (const agent of agents.filter((a) => a.mcp && a.mcp.format !== "codex")) {
+    const key = agent.mcp!.format === "opencode" ? "mcp" : "mcpServers";
+    const source = `$HOME/.ccc/mcp-configs/${agent.name}.json`;
+    const dest = `$HOME/${agent.mcp!.configPath}`;
+    lines.push(
+      `if [ ! -f "${source}" ]; then :`,
+      `elif [ ! -f "${dest}" ]; then echo "mcp ${agent.name} missing"`,
+      `elif ! command -v jq >/dev/null 2>&1; then cmp -s "${source}" "${dest}" && echo "mcp ${agent.name} ok" || echo "mcp ${agent.name} stale"`,
+      `elif jq -e -s '((.[1].${key} // {}) | keys) - ((.[0].${key} // {}) | keys) == []' "${dest}" "${source}" >/dev/null 2>&1; then echo "mcp ${agent.name} ok"`,
+      `else echo "mcp ${agent.name} stale"; fi`
+    );
+  }
+
+  for (const agent of agents.filter((a) => a.skills)) {
+    lines.push(`[ -L "$HOME/${agent.skills!.path}" ] && echo "skills ${agent.name} ok" || echo "skills ${agent.name} missing"`);
+  }
+
+  lines.push("true");
+  return lines.join("\n");
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/** Parse Docker's nanosecond timestamps ("2025-01-02T03:04:05.123456789Z") to epoch seconds */
+function parseDockerTime(value: string): number | undefined {
+  const time = Date.parse(value.replace(/(\.\d{3})\d+/, "$1"));
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+/**
+ * Parse the output of buildDoctorHostScript.
+ */
+export function parseDoctorHostProbe(output: string): DoctorHostProbe {
+  const probe: DoctorHostProbe = { container: "missing", files: {}, sshKey: false };
+
+  for (const line of output.split("\n")) {
+    const [key, ...rest] = line.trim().split(" ");
+    const value = rest.join(" ").trim() || undefined;
+    switch (key) {
+      case "docker":
+      case "daemon":
+      case "compose":
+      case "buildx":
+        probe[key] = value;
+        break;
+      case "container":
+        probe.container = value === "true" ? "running" : value === "false" ? "stopped" : "missing";
+        break;
+      case "image":
+        probe.imageCreated = value ? parseDockerTime(value) : undefined;
+        break;
+      case "file": {
+        const mtime = parseNumber(rest[1]);
+        if (rest[0] && mtime !== undefined) probe.files[rest[0]] = mtime;
+        break;
+      }
+      case "sshkey":
+        probe.sshKey = true;
+        break;
+    }
+  }
+
+  return probe;
+}
+
+/**
+ * Parse the output of buildDoctorContainerScript.
+ */
+export function parseDoctorContainerProbe(output: string): DoctorContainerProbe {
+  const probe: DoctorContainerProbe = {
+    firewall: "off",
+    refreshDaemon: false,
+    now: Math.floor(Date.now() / 1000),
+    sshKey: false,
+    github: "unreachable",
+    mcp: {},
+    skills: {},
+  };
+
+  for (const line of output.split("\n")) {
+    const [key, first, second] = line.trim().split(" ");
+    switch (key) {
+      case "firewall":
+        if (first === "enforcing" || first === "learning") probe.firewall = first;
+        break;
+      case "refresh-interval":
+        probe.refreshInterval = parseNumber(first);
+        break;
+      case "refresh-daemon":
+        probe.refreshDaemon = first === "running";
+        break;
+      case "refresh-last":
+        probe.lastRefresh = parseNumber(first);
+        break;
+      case "now":
+        probe.now = parseNumber(first) ?? probe.now;
+        break;
+      case "sshkey":
+        probe.sshKey = true;
+        break;
+      case "github":
+        if (first === "ok" || first === "denied") probe.github = first;
+        break;
+      case "mcp":
+        if (first && (second === "ok" || second === "missing" || second === "stale")) probe.mcp[first] = second;
+        break;
+      case "skills":
+        if (first) probe.skills[first] = second === "ok";
+        break;
+    }
+  }
+
+  return probe;
+}
+
+/** Formats a ccc subcommand for the current target, e.g. "start" -> "ccc @vps start" */
+export type DoctorCommand = (command: string) => string;
+
+/**
+ * Checks for Docker, Compose, BuildKit, the container and its image.
+ */
+export function getHostChecks(probe: DoctorHostProbe, ccc: DoctorCommand): DoctorCheck[] {
+  const group = "Docker";
+  const checks: DoctorCheck[] = [];
+
+  if (!probe.docker) {
+    checks.push({ group, name: "Docker", status: "fail", details: "not installed", fix: "Install Docker: https://docs.docker.com/get-docker/" });
+    return checks;
+  }
+  checks.push({ group, name: "Docker", status: "ok", details: probe.docker });
+
+  if (!probe.daemon) {
+    checks.push({ group, name: "Docker daemon", status: "fail", details: "not running", fix: "Start Docker and try again" });
+    return checks;
+  }
+  checks.push({ group, name: "Docker daemon", status: "ok", details: probe.daemon });
+
+  checks.push(
+    probe.compose
+      ? { group, name: "Docker Compose", status: "ok", details: probe.compose }
+      : { group, name: "Docker Compose", status: "fail", details: "not installed", fix: "Install the Compose plugin: https://docs.docker.com/compose/install/" }
+  );
+  checks.push(
+    probe.buildx
+      ? { group, name: "BuildKit (buildx)", status: "ok", details: probe.buildx }
+      : { group, name: "BuildKit (buildx)", status: "warn", details: "not installed", fix: "Install the buildx plugin: https://docs.docker.com/build/install-buildx/" }
+  );
+
+  if (probe.container === "missing") {
+    checks.push({ group, name: "Container", status: "fail", details: "not found", fix: `${ccc("build")} && ${ccc("start")}` });
+    return checks;
+  }
+  checks.push(
+    probe.container === "running"
+      ? { group, name: "Container", status: "ok", details: "running" }
+      : { group, name: "Container", status: "fail", details: "stopped", fix: ccc("start") }
+  );
+
+  const changed = DOCTOR_BUILD_FILES.filter((file) => {
+    const mtime = probe.files[file];
+    return mtime !== undefined && probe.imageCreated !== undefined && mtime > probe.imageCreated;
+  });
+  if (probe.imageCreated === undefined) {
+    checks.push({ group, name: "Image", status: "warn", details: "build time unknown" });
+  } else if (changed.length > 0) {
+    checks.push({
+      group,
+      name: "Image",
+      status: "warn",
+      details: `older than ${changed.join(", ")}`,
+      fix: `${ccc("build")} && ${ccc("start")}`,
+    });
+  } else {
+    checks.push({ group, name: "Image", status: "ok", details: "up to date with generated files" });
+  }
+
+  checks.push(
+    probe.sshKey
+      ? { group: "Git", name: "SSH key", status: "ok", details: "ssh-keys/id_ed25519" }
+      : { group: "Git", name: "SSH key", status: "fail", details: "ssh-keys/id_ed25519 not found", fix: ccc("init") }
+  );
+
+  return checks;
+}
+
+/**
+ * Checks for the firewall, DNS refresher, GitHub access, MCP configs and skills.
+ */
+export function getContainerChecks(probe: DoctorContainerProbe, ccc: DoctorCommand): DoctorCheck[] {
+  const checks: DoctorCheck[] = [];
+
+  const firewall: Record<DoctorContainerProbe["firewall"], DoctorCheck> = {
+    enforcing: { group: "Firewall", name: "Rules", status: "ok", details: "loaded" },
+    learning: { group: "Firewall", name: "Rules", status: "warn", details: "learn mode (not blocking)", fix: ccc("firewall apply") },
+    off: { group: "Firewall", name: "Rules", status: "fail", details: "not loaded", fix: ccc("firewall apply") },
+  };
+  checks.push(firewall[probe.firewall]);
+
+  const interval = probe.refreshInterval;
+  if (interval === 0) {
+    checks.push({ group: "Firewall", name: "DNS refresh", status: "ok", details: "disabled" });
+  } else if (!probe.refreshDaemon) {
+    checks.push({ group: "Firewall", name: "DNS refresh", status: "warn", details: "refresher not running", fix: ccc("restart") });
+  } else if (probe.lastRefresh === undefined) {
+    checks.push({ group: "Firewall", name: "DNS refresh", status: "ok", details: "running, no pass yet" });
+  } else {
+    const age = probe.now - probe.lastRefresh;
+    const stale = interval !== undefined && age > interval * 2;
+    checks.push({
+      group: "Firewall",
+      name: "DNS refresh",
+      status: stale ? "warn" : "ok",
+      details: `last pass ${age}s ago`,
+      fix: stale ? ccc("firewall refresh") : undefined,
+    });
+  }
+
+  if (!probe.sshKey) {
+    checks.push({ group: "Git", name: "GitHub", status: "fail", details: "no SSH key in the container", fix: ccc("restart") });
+  } else if (probe.github === "ok") {
+    checks.push({ group: "Git", name: "GitHub", status: "ok", details: "authenticated" });
+  } else if (probe.github === "denied") {
+    checks.push({ group: "Git", name: "GitHub", status: "warn", details: "key not accepted", fix: "Add ssh-keys/id_ed25519.pub to https://github.com/settings/keys" });
+  } else {
+    checks.push({ group: "Git", name: "GitHub", status: "fail", details: "unreachable", fix: ccc("firewall test github.com") });
+  }
+
+  for (const [agent, state] of Object.entries(probe.mcp)) {
+    checks.push(
+      state === "ok"
+        ? { group: "Agents", name: `${agent} MCP config`, status: "ok", details: "in sync" }
+        : { group: "Agents", name: `${agent} MCP config`, status: "warn", details: state === "missing" ? "not installed" : "out of sync", fix: ccc("restart") }
+    );
+  }
+
+  for (const [agent, linked] of Object.entries(probe.skills)) {
+    checks.push(
+      linked
+        ? { group: "Agents", name: `${agent} skills`, status: "ok", details: "linked" }
+        : { group: "Agents", name: `${agent} skills`, status: "warn", details: "symlink missing", fix: ccc("restart") }
+    );
+  }
+
+  return checks;
+}
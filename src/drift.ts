@@ -0,0 +1,159 @@
+import { hashBuildFiles } from "./deploy/files.ts";
+import { BUILD_HASH_LABEL } from "./templates/compose.ts";
+
+/**
+ * Drift between the files ccc would generate now and what is deployed (ccc diff).
+ *
+ * The deployed files and the build hash label of the running container's image
+ * are read with one script from the output directory, locally or over ssh.
+ */
+
+export interface DeployedFiles {
+  files: Record<string, string>; // Name -> content, for files that exist
+  imageHash?: string; // BUILD_HASH_LABEL of the container's image, "" if unlabeled, undefined without a container
+}
+
+export type FileDriftState = "unchanged" | "changed" | "missing";
+
+export interface FileDrift {
+  name: string;
+  state: FileDriftState;
+  diff?: string; // Unified diff from deployed to generated, for changed files
+}
+
+// The running image versus the deployed build files
+export type ImageDriftState = "current" | "outdated" | "unlabeled" | "no-container";
+
+/**
+ * Script printing "file <name> <base64 content>" per existing file and
+ * "image <label>" if the container exists. Run from the output directory.
+ */
+export function buildDeployedFilesScript(containerName: string, names: string[]): string {
+  return [
+    `for file in ${names.join(" ")}; do`,
+    `  [ -f "$file" ] && echo "file $file $(base64 < "$file" | tr -d '\\n')"`,
+    `done`,
+    `image=$(docker inspect -f '{{.Image}}' ${containerName} 2>/dev/null) && echo "image $(docker image inspect -f '{{index .Config.Labels "${BUILD_HASH_LABEL}"}}' "$image" 2>/dev/null)"`,
+    `true`,
+  ].join("\n");
+}
+
+/**
+ * Parse the output of buildDeployedFilesScript.
+ */
+export function parseDeployedFiles(output: string): DeployedFiles {
+  const deployed: DeployedFiles = { files: {} };
+  for (const line of output.split("\n")) {
+    const [kind, name, content] = line.trim().split(" ");
+    if (kind === "file" && name) {
+      deployed.files[name] = Buffer.from(content ?? "", "base64").toString("utf-8");
+    } else if (kind === "image") {
+      // Go templates print "<no value>" for a missing label on some Docker versions
+      deployed.imageHash = name && name !== "<no" ? name : "";
+    }
+  }
+  return deployed;
+}
+
+/**
+ * Git identity from a deployed docker-compose.yml, so regenerating it for a diff
+ * keeps the values given at init.
+ */
+export function getComposeGitUser(compose: string | undefined): { gitUserName?: string; gitUserEmail?: string } {
+  return {
+    gitUserName: compose?.match(/- GIT_USER_NAME=(.*)$/m)?.[1],
+    gitUserEmail: compose?.match(/- GIT_USER_EMAIL=(.*)$/m)?.[1],
+  };
+}
+
+// Unchanged lines shown around each change
+const DIFF_CONTEXT = 3;
+
+type DiffLine = { op: " " | "-" | "+"; text: string; a: number; b: number };
+
+/**
+ * Line operations turning before into after, from their longest common subsequence.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const width = after.length + 1;
+  const lcs = new Int32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i]!, a: i++, b: j++ });
+    } else if (i < before.length && (j === after.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+      lines.push({ op: "-", text: before[i]!, a: i++, b: j });
+    } else {
+      lines.push({ op: "+", text: after[j]!, a: i, b: j++ });
+    }
+  }
+  return lines;
+}
+
+function splitLines(content: string): string[] {
+  return content === "" ? [] : content.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Unified diff from the deployed to the generated version of a file. Empty if they match.
+ */
+export function unifiedDiff(name: string, before: string, after: string): string {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changes = lines.flatMap((line, index) => (line.op === " " ? [] : [index]));
+  if (changes.length === 0) return "";
+
+  const output = [`--- deployed/${name}`, `+++ generated/${name}`];
+  let index = 0;
+  while (index < changes.length) {
+    // Extend the hunk while the next change is within two contexts of the last
+    let last = index;
+    while (last + 1 < changes.length && changes[last + 1]! - changes[last]! <= DIFF_CONTEXT * 2 + 1) last++;
+    const start = Math.max(0, changes[index]! - DIFF_CONTEXT);
+    const end = Math.min(lines.length, changes[last]! + DIFF_CONTEXT + 1);
+    const hunk = lines.slice(start, end);
+
+    const beforeCount = hunk.filter((line) => line.op !== "+").length;
+    const afterCount = hunk.filter((line) => line.op !== "-").length;
+    const beforeStart = beforeCount > 0 ? hunk[0]!.a + 1 : hunk[0]!.a;
+    const afterStart = afterCount > 0 ? hunk[0]!.b + 1 : hunk[0]!.b;
+    output.push(`@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`);
+    output.push(...hunk.map((line) => `${line.op}${line.text}`));
+    index = last + 1;
+  }
+  return `${output.join("\n")}\n`;
+}
+
+/**
+ * Compare generated files with the deployed ones, in generated order.
+ */
+export function compareFiles(generated: Record<string, string>, deployed: Record<string, string>): FileDrift[] {
+  return Object.entries(generated).map(([name, content]) => {
+    const current = deployed[name];
+    if (current === undefined) return { name, state: "missing" };
+    if (current === content) return { name, state: "unchanged" };
+    return { name, state: "changed", diff: unifiedDiff(name, current, content) };
+  });
+}
+
+/**
+ * Whether the container's image was built from the deployed build files.
+ */
+export function getImageDrift(deployed: DeployedFiles): ImageDriftState {
+  if (deployed.imageHash === undefined) return "no-container";
+  if (!deployed.imageHash) return "unlabeled";
+
+  const { Dockerfile: dockerfile, "entrypoint.sh": entrypoint, "init-firewall.sh": firewall } = deployed.files;
+  if (dockerfile === undefined || entrypoint === undefined || firewall === undefined) return "outdated";
+  return hashBuildFiles({ dockerfile, entrypoint, firewall }) === deployed.imageHash ? "current" : "outdated";
+}
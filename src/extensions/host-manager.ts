@@ -1,7 +1,7 @@
 import { execSync, spawn } from "child_process";
 import type { Extension } from "./types.ts";
-
-const CONTAINER_NAME = "ccc";
+import { getContainerName } from "../containers.ts";
+import { sshCommand } from "../utils/ssh.ts";
 
 /**
  * Install a host extension inside the container
@@ -11,10 +11,10 @@ export function installHostExtension(extension: Extension, options: { host?: str
     return false;
   }
 
-  const cmd = `docker exec ${CONTAINER_NAME} bash -c "${extension.installCmd}"`;
+  const cmd = `docker exec ${getContainerName()} bash -c "${extension.installCmd}"`;
   try {
     if (options.host) {
-      execSync(`ssh ${options.host} '${cmd}'`, { stdio: "inherit" });
+      execSync(`${sshCommand(options.host)} '${cmd}'`, { stdio: "inherit" });
     } else {
       execSync(cmd, { stdio: "inherit" });
     }
@@ -36,10 +36,10 @@ export function startHostExtension(extension: Extension, options: { host?: strin
   // First kill any existing process
   stopHostExtension(extension, options);
 
-  const cmd = `docker exec -d ${CONTAINER_NAME} ${extension.runCmd}`;
+  const cmd = `docker exec -d ${getContainerName()} ${extension.runCmd}`;
   try {
     if (options.host) {
-      execSync(`ssh ${options.host} '${cmd}'`, { stdio: "pipe" });
+      execSync(`${sshCommand(options.host)} '${cmd}'`, { stdio: "pipe" });
     } else {
       execSync(cmd, { stdio: "pipe" });
     }
@@ -70,11 +70,11 @@ export function stopHostExtension(extension: Extension, options: { host?: string
 
   // Extract the binary name from runCmd
   const binaryName = extension.runCmd.split(" ")[0]?.split("/").pop() || extension.name;
-  const cmd = `docker exec ${CONTAINER_NAME} pkill -f "${binaryName}" 2>/dev/null || true`;
+  const cmd = `docker exec ${getContainerName()} pkill -f "${binaryName}" 2>/dev/null || true`;
 
   try {
     if (options.host) {
-      execSync(`ssh ${options.host} '${cmd}'`, { stdio: "pipe" });
+      execSync(`${sshCommand(options.host)} '${cmd}'`, { stdio: "pipe" });
     } else {
       execSync(cmd, { stdio: "pipe" });
     }
@@ -93,11 +93,11 @@ export function isHostExtensionRunning(extension: Extension, options: { host?: s
   }
 
   const binaryName = extension.runCmd.split(" ")[0]?.split("/").pop() || extension.name;
-  const cmd = `docker exec ${CONTAINER_NAME} pgrep -f "${binaryName}" >/dev/null 2>&1`;
+  const cmd = `docker exec ${getContainerName()} pgrep -f "${binaryName}" >/dev/null 2>&1`;
 
   try {
     if (options.host) {
-      execSync(`ssh ${options.host} '${cmd}'`, { stdio: "pipe" });
+      execSync(`${sshCommand(options.host)} '${cmd}'`, { stdio: "pipe" });
     } else {
       execSync(cmd, { stdio: "pipe" });
     }
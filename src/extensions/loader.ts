@@ -1,18 +1,17 @@
 import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
 import * as TOML from "@iarna/toml";
+import { getContainerConfigDir } from "../containers.ts";
 import type { Extension, ExtensionConfig, ExtensionType } from "./types.ts";
 import { getExtensionTemplate, getAvailableExtensionTemplates, type ExtensionTemplate } from "./templates.ts";
 
-const EXTENSIONS_DIR = join(homedir(), ".config", "ccc", "extensions");
-
 function configToExtension(config: ExtensionConfig): Extension {
   return {
     name: config.name,
     type: config.type || "host", // default to host for backwards compat
     description: config.description || config.name,
     firewallDomains: config.firewall?.domains || [],
+    firewallRules: config.firewall?.rules || [],
     installCmd: config.install_cmd,
     runCmd: config.run_cmd,
     mcp: config.mcp,
@@ -23,16 +22,16 @@ function configToExtension(config: ExtensionConfig): Extension {
 export function loadExtensions(): Record<string, Extension> {
   const extensions: Record<string, Extension> = {};
 
-  if (!existsSync(EXTENSIONS_DIR)) {
+  if (!existsSync(getExtensionsDir())) {
     return extensions;
   }
 
   try {
-    const files = readdirSync(EXTENSIONS_DIR).filter((f) => f.endsWith(".toml"));
+    const files = readdirSync(getExtensionsDir()).filter((f) => f.endsWith(".toml"));
 
     for (const file of files) {
       try {
-        const filePath = join(EXTENSIONS_DIR, file);
+        const filePath = join(getExtensionsDir(), file);
         const content = readFileSync(filePath, "utf-8");
         const config = TOML.parse(content) as unknown as ExtensionConfig;
 
@@ -57,7 +56,7 @@ export function loadExtensionsByType(type: ExtensionType): Extension[] {
 }
 
 export function getExtensionsDir(): string {
-  return EXTENSIONS_DIR;
+  return join(getContainerConfigDir(), "extensions");
 }
 
 export function listAvailableExtensions(): ExtensionTemplate[] {
@@ -77,8 +76,8 @@ export function listAvailableExtensionsByType(type: ExtensionType): ExtensionTem
 }
 
 export function enableExtensions(names: string[]): string[] {
-  if (!existsSync(EXTENSIONS_DIR)) {
-    mkdirSync(EXTENSIONS_DIR, { recursive: true });
+  if (!existsSync(getExtensionsDir())) {
+    mkdirSync(getExtensionsDir(), { recursive: true });
   }
 
   const enabled: string[] = [];
@@ -90,7 +89,7 @@ export function enableExtensions(names: string[]): string[] {
       continue;
     }
 
-    const filePath = join(EXTENSIONS_DIR, `${name}.toml`);
+    const filePath = join(getExtensionsDir(), `${name}.toml`);
     writeFileSync(filePath, template.content);
     enabled.push(name);
   }
@@ -99,7 +98,7 @@ export function enableExtensions(names: string[]): string[] {
 }
 
 export function disableExtension(name: string): boolean {
-  const filePath = join(EXTENSIONS_DIR, `${name}.toml`);
+  const filePath = join(getExtensionsDir(), `${name}.toml`);
   if (existsSync(filePath)) {
     unlinkSync(filePath);
     return true;
@@ -108,11 +107,11 @@ export function disableExtension(name: string): boolean {
 }
 
 export function isExtensionEnabled(name: string): boolean {
-  return existsSync(join(EXTENSIONS_DIR, `${name}.toml`));
+  return existsSync(join(getExtensionsDir(), `${name}.toml`));
 }
 
 export function getExtensionConfig(name: string): ExtensionConfig | undefined {
-  const filePath = join(EXTENSIONS_DIR, `${name}.toml`);
+  const filePath = join(getExtensionsDir(), `${name}.toml`);
   if (existsSync(filePath)) {
     try {
       const content = readFileSync(filePath, "utf-8");
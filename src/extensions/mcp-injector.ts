@@ -1,11 +1,13 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
-import { homedir } from "os";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, rmSync } from "fs";
+import { join, dirname, basename } from "path";
+import { getContainerOutputDir } from "../containers.ts";
 import type { Agent, McpFormat } from "../agents/types.ts";
 import type { Extension, McpConfig } from "./types.ts";
 
 // MCP configs are stored in this directory (mounted into container)
-const MCP_CONFIGS_DIR = join(homedir(), ".ccc", "mcp-configs");
+function getMcpConfigsDir(): string {
+  return join(getContainerOutputDir(), "mcp-configs");
+}
 
 interface ClaudeMcpConfig {
   mcpServers?: Record<string, {
@@ -41,8 +43,8 @@ type McpConfigDocument = ClaudeMcpConfig | GeminiMcpConfig | OpenCodeMcpConfig |
  * Ensure MCP configs directory exists
  */
 export function ensureMcpConfigsDir(): void {
-  if (!existsSync(MCP_CONFIGS_DIR)) {
-    mkdirSync(MCP_CONFIGS_DIR, { recursive: true });
+  if (!existsSync(getMcpConfigsDir())) {
+    mkdirSync(getMcpConfigsDir(), { recursive: true });
   }
 }
 
@@ -52,7 +54,7 @@ export function ensureMcpConfigsDir(): void {
  * and mounted into container at /home/ccc/.ccc/mcp-configs/
  */
 function getMcpConfigPath(agent: Agent): string {
-  return join(MCP_CONFIGS_DIR, `${agent.name}.json`);
+  return join(getMcpConfigsDir(), `${agent.name}.json`);
 }
 
 /**
@@ -241,3 +243,30 @@ export function removeMcpConfigFromAllAgents(agents: Agent[], extensionName: str
   }
   return removed;
 }
+
+/**
+ * Rebuild each agent's MCP config from the enabled MCP extensions and remove
+ * configs no agent gets. Returns the removed filenames.
+ */
+export function syncMcpConfigs(agents: Agent[], extensions: Extension[]): string[] {
+  ensureMcpConfigsDir();
+
+  const mcpExtensions = extensions.filter((extension) => extension.mcp);
+  const written = new Set<string>();
+  for (const agent of agents) {
+    if (!agent.mcp || mcpExtensions.length === 0) continue;
+    const configPath = getMcpConfigPath(agent);
+    rmSync(configPath, { force: true });
+    for (const extension of mcpExtensions) {
+      if (injectMcpConfig(agent, extension)) written.add(basename(configPath));
+    }
+  }
+
+  const removed: string[] = [];
+  for (const file of readdirSync(getMcpConfigsDir())) {
+    if (written.has(file) || !file.endsWith(".json")) continue;
+    rmSync(join(getMcpConfigsDir(), file), { force: true });
+    removed.push(file);
+  }
+  return removed;
+}
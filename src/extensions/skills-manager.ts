@@ -1,24 +1,23 @@
 import { existsSync, mkdirSync, writeFileSync, unlinkSync, symlinkSync, lstatSync, readdirSync } from "fs";
 import { join, dirname } from "path";
 import { homedir } from "os";
+import { getContainerOutputDir } from "../containers.ts";
 import type { Agent } from "../agents/types.ts";
 import type { Extension, SkillConfig } from "./types.ts";
 
-const SKILLS_DIR = join(homedir(), ".ccc", "skills");
-
 /**
  * Get the global skills directory path
  */
 export function getSkillsDir(): string {
-  return SKILLS_DIR;
+  return join(getContainerOutputDir(), "skills");
 }
 
 /**
  * Ensure global skills directory exists
  */
 export function ensureSkillsDir(): void {
-  if (!existsSync(SKILLS_DIR)) {
-    mkdirSync(SKILLS_DIR, { recursive: true });
+  if (!existsSync(getSkillsDir())) {
+    mkdirSync(getSkillsDir(), { recursive: true });
   }
 }
 
@@ -32,7 +31,7 @@ export function installSkill(extension: Extension): boolean {
 
   ensureSkillsDir();
 
-  const skillPath = join(SKILLS_DIR, extension.skill.filename);
+  const skillPath = join(getSkillsDir(), extension.skill.filename);
   writeFileSync(skillPath, extension.skill.content.trim());
   return true;
 }
@@ -45,7 +44,7 @@ export function removeSkill(extension: Extension): boolean {
     return false;
   }
 
-  const skillPath = join(SKILLS_DIR, extension.skill.filename);
+  const skillPath = join(getSkillsDir(), extension.skill.filename);
   if (existsSync(skillPath)) {
     unlinkSync(skillPath);
     return true;
@@ -90,7 +89,7 @@ export function linkSkillsToAgent(agent: Agent): boolean {
   // Create symlink
   try {
     ensureSkillsDir();
-    symlinkSync(SKILLS_DIR, agentSkillsPath);
+    symlinkSync(getSkillsDir(), agentSkillsPath);
     return true;
   } catch (err) {
     console.warn(`Failed to create symlink for ${agent.name}:`, err);
@@ -143,8 +142,32 @@ export function linkSkillsToAllAgents(agents: Agent[]): string[] {
 export function listInstalledSkills(): string[] {
   ensureSkillsDir();
   try {
-    return readdirSync(SKILLS_DIR).filter((f) => f.endsWith(".md"));
+    return readdirSync(getSkillsDir()).filter((f) => f.endsWith(".md"));
   } catch {
     return [];
   }
 }
+
+/**
+ * Make the skills directory match the enabled skill extensions: write their
+ * files and remove any other. Returns the removed filenames.
+ */
+export function syncSkills(extensions: Extension[]): string[] {
+  ensureSkillsDir();
+
+  const wanted = new Set<string>();
+  for (const extension of extensions) {
+    if (extension.skill && installSkill(extension)) {
+      wanted.add(extension.skill.filename);
+    }
+  }
+
+  const removed: string[] = [];
+  for (const file of readdirSync(getSkillsDir())) {
+    const path = join(getSkillsDir(), file);
+    if (wanted.has(file) || !lstatSync(path).isFile()) continue;
+    unlinkSync(path);
+    removed.push(file);
+  }
+  return removed;
+}
@@ -1,3 +1,5 @@
+import type { FirewallRule } from "../firewall/entries.ts";
+
 export type ExtensionType = "host" | "mcp" | "skill";
 
 export interface Extension {
@@ -5,6 +7,7 @@ export interface Extension {
   type: ExtensionType;
   description: string;
   firewallDomains: string[];
+  firewallRules?: FirewallRule[];
   // Host-specific
   installCmd?: string;
   runCmd?: string;
@@ -33,7 +36,8 @@ export interface ExtensionConfig {
   run_cmd?: string;
 
   firewall?: {
-    domains: string[];
+    domains?: string[];
+    rules?: FirewallRule[];
   };
 
   mcp?: {
@@ -1,42 +1,89 @@
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
 import * as TOML from "@iarna/toml";
 import { ensureConfigDir } from "../config.ts";
+import { getContainerConfigDir } from "../containers.ts";
+import { normalizeFirewallEntry, type FirewallRule } from "./entries.ts";
+import type { FirewallProfile } from "./profiles.ts";
 
-const FIREWALL_CONFIG_FILE = join(homedir(), ".config", "ccc", "firewall.toml");
+// "any" allows outbound SSH everywhere (for git); "allowlist" limits it to allowed hosts
+export type FirewallSshPolicy = "any" | "allowlist";
+
+// "ip" allowlists resolved IPs with iptables; "proxy" routes web traffic through a filtering proxy sidecar
+export type FirewallMode = "ip" | "proxy";
+
+const FIREWALL_MODES: FirewallMode[] = ["ip", "proxy"];
 
 export interface FirewallConfig {
-  domains: string[];
+  domains: string[]; // Hostnames, "*.suffix" wildcards, IP addresses or CIDR blocks
+  rules?: FirewallRule[]; // Extra ports for specific hosts
+  ssh?: FirewallSshPolicy;
+  mode?: FirewallMode;
+  profiles?: Record<string, FirewallProfile>; // Named per-session allowlists
+  refresh_interval?: number; // Seconds between DNS re-resolution passes (0 disables)
 }
 
 const DEFAULT_FIREWALL_CONFIG: FirewallConfig = {
   domains: [],
 };
 
+/**
+ * Problems with firewall.toml settings that would otherwise end up in the generated script.
+ */
+export function validateFirewallConfig(config: FirewallConfig): string[] {
+  const problems: string[] = [];
+  if (config.mode !== undefined && !FIREWALL_MODES.includes(config.mode)) {
+    problems.push(`invalid mode ${JSON.stringify(config.mode)} (expected ${FIREWALL_MODES.map((m) => `"${m}"`).join(" or ")})`);
+  }
+  const interval = config.refresh_interval;
+  if (interval !== undefined && (typeof interval !== "number" || !Number.isInteger(interval) || interval < 0)) {
+    problems.push(`invalid refresh_interval ${JSON.stringify(interval)} (expected whole seconds, 0 disables)`);
+  }
+  return problems;
+}
+
+function assertValidFirewallConfig(config: FirewallConfig): void {
+  const problems = validateFirewallConfig(config);
+  if (problems.length === 0) return;
+  for (const problem of problems) {
+    console.error(`Invalid firewall config ${getFirewallConfigPath()}: ${problem}`);
+  }
+  process.exit(1);
+}
+
 export function loadFirewallConfig(): FirewallConfig {
   ensureConfigDir();
 
-  if (!existsSync(FIREWALL_CONFIG_FILE)) {
+  if (!existsSync(getFirewallConfigPath())) {
     return { ...DEFAULT_FIREWALL_CONFIG };
   }
 
+  let config: FirewallConfig;
   try {
-    const content = readFileSync(FIREWALL_CONFIG_FILE, "utf-8");
+    const content = readFileSync(getFirewallConfigPath(), "utf-8");
     const parsed = TOML.parse(content) as unknown as FirewallConfig;
-    return {
+    config = {
       domains: parsed.domains || [],
+      rules: parsed.rules,
+      ssh: parsed.ssh,
+      mode: parsed.mode,
+      profiles: parsed.profiles,
+      refresh_interval: parsed.refresh_interval,
     };
   } catch (error) {
     console.error(`Warning: Could not parse firewall config: ${error}`);
     return { ...DEFAULT_FIREWALL_CONFIG };
   }
+
+  assertValidFirewallConfig(config);
+  return config;
 }
 
 export function saveFirewallConfig(config: FirewallConfig): void {
   ensureConfigDir();
+  mkdirSync(getContainerConfigDir(), { recursive: true });
   const content = TOML.stringify(config as unknown as TOML.JsonMap);
-  writeFileSync(FIREWALL_CONFIG_FILE, content);
+  writeFileSync(getFirewallConfigPath(), content);
 }
 
 export function getUserFirewallDomains(): string[] {
@@ -47,7 +94,7 @@ export function addUserFirewallDomain(domain: string): boolean {
   const config = loadFirewallConfig();
 
   // Normalize domain (lowercase, no trailing slash)
-  const normalized = domain.toLowerCase().replace(/\/+$/, "");
+  const normalized = normalizeFirewallEntry(domain);
 
   if (config.domains.includes(normalized)) {
     return false; // Already exists
@@ -61,7 +108,7 @@ export function addUserFirewallDomain(domain: string): boolean {
 
 export function removeUserFirewallDomain(domain: string): boolean {
   const config = loadFirewallConfig();
-  const normalized = domain.toLowerCase().replace(/\/+$/, "");
+  const normalized = normalizeFirewallEntry(domain);
 
   const index = config.domains.indexOf(normalized);
   if (index === -1) {
@@ -74,5 +121,5 @@ export function removeUserFirewallDomain(domain: string): boolean {
 }
 
 export function getFirewallConfigPath(): string {
-  return FIREWALL_CONFIG_FILE;
+  return join(getContainerConfigDir(), "firewall.toml");
 }
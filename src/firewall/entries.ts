@@ -0,0 +1,201 @@
+import type { Agent } from "../agents/types.ts";
+import type { Extension } from "../extensions/types.ts";
+
+export type FirewallEntryType = "domain" | "wildcard" | "ip" | "cidr";
+
+export interface FirewallEntry {
+  type: FirewallEntryType;
+  value: string;
+}
+
+export type FirewallProtocol = "tcp" | "udp";
+
+/** A host (domain, IP or CIDR) allowed on specific ports, e.g. { host = "db.internal", ports = [5432] } */
+export interface FirewallRule {
+  host: string;
+  ports: number[];
+  protocol?: FirewallProtocol; // Defaults to "tcp"
+}
+
+export interface ClassifiedFirewallRules {
+  hostPorts: string[]; // "host,proto:port" for hostnames and IPs
+  netPorts: string[]; // "cidr,proto:port" for CIDR blocks
+}
+
+export interface ClassifiedFirewallEntries {
+  domains: string[];
+  wildcards: string[]; // Stored without the leading "*."
+  ips: string[];
+  cidrs: string[];
+}
+
+const LABEL = "[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?";
+const DOMAIN_PATTERN = new RegExp(`^${LABEL}(?:\\.${LABEL})*$`);
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function isIPv4(value: string): boolean {
+  const match = value.match(IPV4_PATTERN);
+  if (!match) return false;
+  return match.slice(1).every((octet) => Number(octet) <= 255);
+}
+
+function isIPv6(value: string): boolean {
+  if (!value.includes(":") || !/^[0-9a-f:.]+$/.test(value)) return false;
+  return URL.canParse(`http://[${value}]`);
+}
+
+function isIP(value: string): boolean {
+  return isIPv4(value) || isIPv6(value);
+}
+
+/**
+ * Canonical form of an IP address (compressed IPv6, e.g. from expanded kernel log output).
+ * Non-IPv6 values are returned unchanged.
+ */
+export function canonicalizeIP(value: string): string {
+  if (!isIPv6(value.toLowerCase())) return value;
+  return new URL(`http://[${value}]`).hostname.slice(1, -1);
+}
+
+function isDomain(value: string): boolean {
+  return value.length <= 253 && DOMAIN_PATTERN.test(value) && !/^[\d.]+$/.test(value);
+}
+
+/**
+ * Normalize an allowlist entry (lowercase, no trailing slash).
+ */
+export function normalizeFirewallEntry(entry: string): string {
+  return entry.trim().toLowerCase().replace(/\/+$/, "");
+}
+
+/**
+ * Classify a single allowlist entry. Returns null if the entry is not a valid
+ * hostname, "*.suffix" wildcard, IP address or CIDR block (IPv4 or IPv6).
+ */
+export function parseFirewallEntry(entry: string): FirewallEntry | null {
+  const value = normalizeFirewallEntry(entry);
+  if (!value) return null;
+
+  if (value.startsWith("*.")) {
+    const suffix = value.slice(2);
+    return isDomain(suffix) ? { type: "wildcard", value } : null;
+  }
+
+  if (value.includes("/")) {
+    const [address, prefix, ...rest] = value.split("/");
+    if (rest.length > 0 || !address || !prefix || !/^\d{1,3}$/.test(prefix)) return null;
+    if (isIPv4(address) ? Number(prefix) > 32 : !isIPv6(address) || Number(prefix) > 128) return null;
+    return { type: "cidr", value };
+  }
+
+  if (isIP(value)) {
+    return { type: "ip", value };
+  }
+
+  return isDomain(value) ? { type: "domain", value } : null;
+}
+
+/**
+ * Check a port rule. Returns a description of the problem, or null if valid.
+ * Wildcards are rejected since dnsmasq can only fill plain IP sets.
+ */
+export function validateFirewallRule(rule: FirewallRule): string | null {
+  const entry = typeof rule.host === "string" ? parseFirewallEntry(rule.host) : null;
+  if (!entry) return `invalid host "${rule.host}"`;
+  if (entry.type === "wildcard") return `wildcards can't have port rules ("${rule.host}")`;
+  if (!Array.isArray(rule.ports) || rule.ports.length === 0) return `no ports for "${rule.host}"`;
+  const badPort = rule.ports.find((port) => !Number.isInteger(port) || port < 1 || port > 65535);
+  if (badPort !== undefined) return `invalid port ${badPort} for "${rule.host}"`;
+  if (rule.protocol !== undefined && rule.protocol !== "tcp" && rule.protocol !== "udp") {
+    return `invalid protocol "${rule.protocol}" for "${rule.host}"`;
+  }
+  return null;
+}
+
+/**
+ * Flatten port rules into ipset "address,proto:port" members, dropping invalid rules.
+ */
+export function classifyFirewallRules(rules: Iterable<FirewallRule>): ClassifiedFirewallRules {
+  const result: ClassifiedFirewallRules = { hostPorts: [], netPorts: [] };
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    if (validateFirewallRule(rule)) continue;
+    const entry = parseFirewallEntry(rule.host)!;
+    const protocol = rule.protocol ?? "tcp";
+
+    for (const port of rule.ports) {
+      const member = `${entry.value},${protocol}:${port}`;
+      if (seen.has(member)) continue;
+      seen.add(member);
+      (entry.type === "cidr" ? result.netPorts : result.hostPorts).push(member);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split allowlist entries by type, de-duplicating and dropping invalid entries.
+ */
+export function classifyFirewallEntries(entries: Iterable<string>): ClassifiedFirewallEntries {
+  const result: ClassifiedFirewallEntries = { domains: [], wildcards: [], ips: [], cidrs: [] };
+  const seen = new Set<string>();
+
+  for (const raw of entries) {
+    const entry = parseFirewallEntry(raw);
+    if (!entry || seen.has(entry.value)) continue;
+    seen.add(entry.value);
+
+    switch (entry.type) {
+      case "domain":
+        result.domains.push(entry.value);
+        break;
+      case "wildcard":
+        result.wildcards.push(entry.value.slice(2));
+        break;
+      case "ip":
+        result.ips.push(entry.value);
+        break;
+      case "cidr":
+        result.cidrs.push(entry.value);
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Combine agent, extension and user allowlist entries, split by type.
+ * Shared by the iptables script and the proxy config.
+ */
+export function collectFirewallEntries(sources: {
+  agents: Agent[];
+  extensions?: Extension[];
+  userDomains?: string[];
+}): ClassifiedFirewallEntries {
+  const { agents, extensions = [], userDomains = [] } = sources;
+  const allDomains = new Set<string>();
+
+  // Add agent domains
+  for (const agent of agents) {
+    for (const domain of agent.firewallDomains) {
+      allDomains.add(domain);
+    }
+  }
+
+  // Add extension domains
+  for (const extension of extensions) {
+    for (const domain of extension.firewallDomains) {
+      allDomains.add(domain);
+    }
+  }
+
+  // Add user domains
+  for (const domain of userDomains) {
+    allDomains.add(domain);
+  }
+
+  return classifyFirewallEntries(allDomains);
+}
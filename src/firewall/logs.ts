@@ -0,0 +1,227 @@
+import type { Executor } from "../deploy/executor.ts";
+import { canonicalizeIP } from "./entries.ts";
+import { getProxyName, PROXY_ACCESS_LOG } from "../templates/proxy.ts";
+
+export const BLOCKED_LOG_PREFIX = "BLOCKED: ";
+export const LEARN_LOG_PREFIX = "CCC-LEARN: ";
+
+// Written by dnsmasq inside the container (see templates/firewall.ts)
+const DNS_LOG_PATH = "/var/log/ccc-dns.log";
+
+export interface FirewallLogEntry {
+  timestamp?: Date;
+  src: string;
+  dst: string;
+  protocol: string;
+  port?: number;
+}
+
+export interface FirewallDestination {
+  ip: string; // Hostname for proxy log entries
+  protocol: string;
+  port?: number;
+  hostname?: string;
+  count: number;
+  lastSeen?: Date;
+}
+
+const IP_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]+:[0-9a-f:.]*)$/i;
+
+/**
+ * Parse a `dmesg --time-format iso` line written by an iptables LOG rule.
+ * Returns null for lines without the given prefix.
+ */
+export function parseKernelLogLine(line: string, prefix: string): FirewallLogEntry | null {
+  const index = line.indexOf(prefix);
+  if (index === -1) return null;
+
+  const fields: Record<string, string> = {};
+  for (const [, key, value] of line.slice(index + prefix.length).matchAll(/(\w+)=(\S*)/g)) {
+    if (key && value !== undefined) fields[key] = value;
+  }
+  if (!fields.SRC || !fields.DST) return null;
+
+  // ISO timestamps from dmesg use a comma and microseconds: 2026-01-01T10:00:00,123456+00:00
+  const stamp = line.slice(0, index).trim().match(/^\[?(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})[,.](\d{3})\d*([+-]\d{2}:?\d{2}|Z)?/);
+  const timestamp = stamp ? new Date(`${stamp[1]}.${stamp[2]}${stamp[3] ?? ""}`) : undefined;
+
+  return {
+    timestamp: timestamp && !isNaN(timestamp.getTime()) ? timestamp : undefined,
+    src: canonicalizeIP(fields.SRC),
+    dst: canonicalizeIP(fields.DST),
+    protocol: (fields.PROTO || "unknown").toLowerCase(),
+    port: fields.DPT ? Number(fields.DPT) : undefined,
+  };
+}
+
+/**
+ * Parse a proxy access log line (logformat "ccc" in templates/proxy.ts).
+ * Returns null for anything the proxy didn't deny.
+ */
+export function parseProxyLogLine(line: string): FirewallLogEntry | null {
+  const [, seconds, client, result, method, url] = line.match(/^(\d+(?:\.\d+)?) (\S+) (\S+)\/\d+ (\S+) (\S+)/) ?? [];
+  if (!seconds || !client || !result || !method || !url) return null;
+  if (!result.includes("DENIED")) return null;
+
+  let host: string;
+  let port: number | undefined;
+  if (method === "CONNECT") {
+    // CONNECT targets are host:port
+    const index = url.lastIndexOf(":");
+    host = index === -1 ? url : url.slice(0, index);
+    port = index === -1 ? undefined : Number(url.slice(index + 1)) || undefined;
+  } else {
+    try {
+      const parsed = new URL(url);
+      host = parsed.hostname;
+      port = Number(parsed.port) || (parsed.protocol === "https:" ? 443 : 80);
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    timestamp: new Date(Number(seconds) * 1000),
+    src: client,
+    dst: host.replace(/^\[(.*)\]$/, "$1").toLowerCase(),
+    protocol: "tcp",
+    port,
+  };
+}
+
+/**
+ * Build an IP -> hostname map from dnsmasq's `log-queries=extra` output.
+ * IPs are mapped to the name the client asked for, not the final CNAME target.
+ */
+export function parseDnsLog(content: string): Map<string, string> {
+  const names = new Map<string, string>();
+  const queries = new Map<string, string>();
+
+  for (const line of content.split("\n")) {
+    const [, serial, kind, name, value] =
+      line.match(/dnsmasq\[\d+\]: (\d+) \S+ (query\[\w+\]|reply|cached) (\S+) (?:from|is) (\S+)/) ?? [];
+    if (!serial || !kind || !name || !value) continue;
+
+    if (kind.startsWith("query")) {
+      queries.set(serial, name);
+    } else if (IP_PATTERN.test(value)) {
+      names.set(canonicalizeIP(value), queries.get(serial) ?? name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Group log entries by destination, newest first within equal counts.
+ */
+export function aggregateFirewallLog(
+  entries: FirewallLogEntry[],
+  names: Map<string, string> = new Map()
+): FirewallDestination[] {
+  const byKey = new Map<string, FirewallDestination>();
+
+  for (const entry of entries) {
+    const key = `${entry.dst}|${entry.protocol}|${entry.port ?? ""}`;
+    let destination = byKey.get(key);
+    if (!destination) {
+      destination = {
+        ip: entry.dst,
+        protocol: entry.protocol,
+        port: entry.port,
+        hostname: names.get(entry.dst),
+        count: 0,
+      };
+      byKey.set(key, destination);
+    }
+    destination.count++;
+    if (entry.timestamp && (!destination.lastSeen || entry.timestamp > destination.lastSeen)) {
+      destination.lastSeen = entry.timestamp;
+    }
+  }
+
+  return Array.from(byKey.values()).toSorted(
+    (a, b) => b.count - a.count || (b.lastSeen?.getTime() ?? 0) - (a.lastSeen?.getTime() ?? 0)
+  );
+}
+
+/**
+ * Get the container's IPv4 and IPv6 addresses on its Docker networks (used to filter host kernel logs).
+ */
+export function getContainerIPs(executor: Executor, containerName: string): string[] {
+  return executor
+    .exec(
+      `docker inspect -f '{{range .NetworkSettings.Networks}}{{.IPAddress}} {{.GlobalIPv6Address}} {{end}}' ${containerName}`,
+      { ignoreError: true }
+    )
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(canonicalizeIP);
+}
+
+/**
+ * Whether the host kernel keeps LOG rule output from container network namespaces
+ * (net.netfilter.nf_log_all_netns). It defaults to 0, which silently discards it.
+ * Undefined when the setting can't be read.
+ */
+export function readNetnsLogging(executor: Executor): boolean | undefined {
+  const value = executor.exec("cat /proc/sys/net/netfilter/nf_log_all_netns", { ignoreError: true });
+  if (value === "1") return true;
+  if (value === "0") return false;
+  return undefined;
+}
+
+/**
+ * Read LOG rule output for the container from the host kernel log.
+ * iptables LOG lines land in the host's ring buffer, not the container's.
+ * Throws if the kernel log can't be read (e.g. dmesg_restrict without sudo).
+ */
+export function readKernelFirewallLog(
+  executor: Executor,
+  containerName: string,
+  prefix: string,
+  since?: Date
+): FirewallLogEntry[] {
+  const containerIPs = getContainerIPs(executor, containerName);
+  const output = executor.exec(
+    "dmesg --time-format iso 2>/dev/null || sudo -n dmesg --time-format iso"
+  );
+
+  const entries: FirewallLogEntry[] = [];
+  for (const line of output.split("\n")) {
+    const entry = parseKernelLogLine(line, prefix);
+    if (!entry) continue;
+    if (containerIPs.length > 0 && !containerIPs.includes(entry.src)) continue;
+    if (since && entry.timestamp && entry.timestamp < since) continue;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Read requests denied by the proxy sidecar (firewall mode = "proxy").
+ */
+export function readProxyFirewallLog(executor: Executor, containerName: string, since?: Date): FirewallLogEntry[] {
+  const content = executor.exec(`docker exec ${getProxyName(containerName)} cat ${PROXY_ACCESS_LOG}`, {
+    ignoreError: true,
+  });
+
+  const entries: FirewallLogEntry[] = [];
+  for (const line of content.split("\n")) {
+    const entry = parseProxyLogLine(line);
+    if (!entry) continue;
+    if (since && entry.timestamp && entry.timestamp < since) continue;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Read the container's DNS query log and map IPs back to hostnames.
+ */
+export function readDnsNames(executor: Executor, containerName: string): Map<string, string> {
+  const content = executor.exec(`docker exec ${containerName} sudo cat ${DNS_LOG_PATH}`, {
+    ignoreError: true,
+  });
+  return parseDnsLog(content);
+}
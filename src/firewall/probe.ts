@@ -0,0 +1,133 @@
+import { canonicalizeIP, parseFirewallEntry } from "./entries.ts";
+
+export type FirewallSourceKind = "agent" | "extension" | "user";
+
+/** An allowlist entry that covers the tested host, e.g. agent "claude" via "*.anthropic.com" */
+export interface FirewallSource {
+  kind: FirewallSourceKind;
+  name: string;
+  entry: string;
+}
+
+export interface FirewallProbeAddress {
+  ip: string;
+  set?: string; // ipset the address was found in, undefined if blocked
+}
+
+export interface FirewallProbe {
+  addresses: FirewallProbeAddress[];
+  tls: { ok: boolean; error?: string };
+}
+
+// Checked in order; the first set containing the address is reported
+const PROBE_SETS = [
+  "allowed_ips",
+  "allowed_dns_ips",
+  "allowed_nets",
+  "allowed_ips6",
+  "allowed_dns_ips6",
+  "allowed_nets6",
+];
+
+function ipv4ToNumber(ip: string): number | null {
+  const octets = ip.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet))) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+function cidrContains(cidr: string, ip: string): boolean {
+  const [network, prefix] = cidr.split("/");
+  const start = ipv4ToNumber(network!);
+  const address = ipv4ToNumber(ip);
+  if (start === null || address === null) return false;
+  const size = 2 ** (32 - Number(prefix));
+  return Math.floor(start / size) === Math.floor(address / size);
+}
+
+/**
+ * Check whether an allowlist entry covers a host (domain or IP).
+ * IPv6 CIDR blocks are only matched exactly.
+ */
+export function firewallEntryMatches(entry: string, host: string): boolean {
+  const parsed = parseFirewallEntry(entry);
+  const target = parseFirewallEntry(host);
+  if (!parsed || !target) return false;
+
+  switch (parsed.type) {
+    case "wildcard": {
+      // dnsmasq ipset=/suffix/ also matches the suffix itself
+      const suffix = parsed.value.slice(2);
+      return target.type === "domain" && (target.value === suffix || target.value.endsWith(`.${suffix}`));
+    }
+    case "cidr":
+      return parsed.value === target.value || (target.type === "ip" && cidrContains(parsed.value, target.value));
+    case "ip":
+      return target.type === "ip" && canonicalizeIP(parsed.value) === canonicalizeIP(target.value);
+    default:
+      return parsed.value === target.value;
+  }
+}
+
+/**
+ * Find which agents, extensions and user entries allow any of the given hosts.
+ */
+export function findFirewallSources(
+  hosts: string[],
+  sources: {
+    agents: Record<string, { firewallDomains: string[] }>;
+    extensions: Record<string, { firewallDomains: string[] }>;
+    userDomains: string[];
+  }
+): FirewallSource[] {
+  const candidates: FirewallSource[] = [
+    ...Object.entries(sources.agents).flatMap(([name, agent]) =>
+      agent.firewallDomains.map((entry) => ({ kind: "agent" as const, name, entry }))
+    ),
+    ...Object.entries(sources.extensions).flatMap(([name, ext]) =>
+      ext.firewallDomains.map((entry) => ({ kind: "extension" as const, name, entry }))
+    ),
+    ...sources.userDomains.map((entry) => ({ kind: "user" as const, name: "user", entry })),
+  ];
+  return candidates.filter((source) => hosts.some((host) => firewallEntryMatches(source.entry, host)));
+}
+
+/**
+ * Shell snippet run inside the container: resolve the host, look each address up
+ * in the firewall ipsets, then try a TLS handshake. The host must already be validated.
+ * Run base64-encoded (execScript) so its expansions happen in the container.
+ */
+export function buildFirewallProbeScript(host: string): string {
+  return [
+    `for ip in $(getent ahosts ${host} | cut -d" " -f1 | sort -u); do`,
+    `  set=-`,
+    `  for s in ${PROBE_SETS.join(" ")}; do`,
+    `    if sudo ipset test "$s" "$ip" >/dev/null 2>&1; then set="$s"; break; fi`,
+    `  done`,
+    `  echo "addr $ip $set"`,
+    `done`,
+    `if err=$(curl -sS -o /dev/null --connect-timeout 5 --max-time 10 https://${host}/ 2>&1); then`,
+    `  echo "tls ok"`,
+    `else`,
+    `  echo "tls fail $(echo "$err" | tail -n 1)"`,
+    `fi`,
+  ].join("\n");
+}
+
+/**
+ * Parse the output of buildFirewallProbeScript.
+ */
+export function parseFirewallProbe(output: string): FirewallProbe {
+  const probe: FirewallProbe = { addresses: [], tls: { ok: false, error: "no result" } };
+
+  for (const line of output.split("\n")) {
+    const [kind, first, ...rest] = line.trim().split(" ");
+    if (kind === "addr" && first) {
+      const set = rest[0];
+      probe.addresses.push({ ip: canonicalizeIP(first), set: set && set !== "-" ? set : undefined });
+    } else if (kind === "tls") {
+      probe.tls = first === "ok" ? { ok: true } : { ok: false, error: rest.join(" ") || undefined };
+    }
+  }
+
+  return probe;
+}
@@ -0,0 +1,71 @@
+import type { Agent } from "../agents/types.ts";
+import type { Extension } from "../extensions/types.ts";
+import { collectFirewallEntries, type ClassifiedFirewallEntries } from "./entries.ts";
+
+/**
+ * A named allowlist selectable per session (ccc --firewall-profile <name>).
+ * Sessions without a profile use the full allowlist ("default").
+ */
+export interface FirewallProfile {
+  base?: "default" | "strict"; // Start from the full allowlist or agent domains only
+  domains?: string[]; // Extra entries on top of the base
+  allow_all?: boolean; // No egress filtering for this profile's sessions
+  learn?: boolean; // Log traffic outside the full allowlist instead of dropping it (ccc firewall learn)
+}
+
+export const DEFAULT_FIREWALL_PROFILE = "default";
+
+// Sessions started with --no-firewall
+export const OPEN_FIREWALL_PROFILE = "open";
+
+// The session started by ccc firewall learn
+export const LEARN_FIREWALL_PROFILE = "learn";
+
+export const BUILTIN_FIREWALL_PROFILES: Record<string, FirewallProfile> = {
+  strict: { base: "strict" },
+  [OPEN_FIREWALL_PROFILE]: { allow_all: true },
+  [LEARN_FIREWALL_PROFILE]: { learn: true },
+};
+
+// Profile names end up in group, ipset and bash variable names (ipset names max 31 chars)
+const PROFILE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,11}$/;
+
+export function isValidFirewallProfileName(name: string): boolean {
+  return name !== DEFAULT_FIREWALL_PROFILE && PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Merge user profiles over the built-ins, dropping invalid names.
+ * The learn profile can't be redefined, since ccc firewall learn relies on it.
+ */
+export function resolveFirewallProfiles(profiles: Record<string, FirewallProfile> = {}): Record<string, FirewallProfile> {
+  const resolved: Record<string, FirewallProfile> = {};
+  const merged = { ...BUILTIN_FIREWALL_PROFILES, ...profiles, [LEARN_FIREWALL_PROFILE]: BUILTIN_FIREWALL_PROFILES[LEARN_FIREWALL_PROFILE]! };
+  for (const [name, profile] of Object.entries(merged)) {
+    if (isValidFirewallProfileName(name)) {
+      resolved[name] = profile;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Group that a profile's sessions run as; iptables matches their traffic on it.
+ */
+export function getFirewallProfileGroup(name: string): string {
+  return `ccc-fw-${name}`;
+}
+
+/**
+ * Build a profile's allowlist from its base plus its own domains.
+ */
+export function collectProfileEntries(
+  profile: FirewallProfile,
+  sources: { agents: Agent[]; extensions?: Extension[]; userDomains?: string[] }
+): ClassifiedFirewallEntries {
+  const domains = profile.domains ?? [];
+  if (profile.base === "strict") {
+    return collectFirewallEntries({ agents: sources.agents, userDomains: domains });
+  }
+  return collectFirewallEntries({ ...sources, userDomains: [...(sources.userDomains ?? []), ...domains] });
+}
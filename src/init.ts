@@ -0,0 +1,114 @@
+import { execSync } from "child_process";
+import { readFileSync } from "fs";
+import * as TOML from "@iarna/toml";
+
+/**
+ * Answers for the ccc init prompts, so init can run from provisioning scripts.
+ *
+ * Each answer comes from the first source that has it: flags, environment
+ * variables, the --config answer file, then the host's git config. Whatever is
+ * still missing is prompted for, unless init runs non-interactively.
+ */
+
+export interface InitAnswers {
+  agents?: string[];
+  defaultAgent?: string;
+  gitName?: string;
+  gitEmail?: string;
+  build?: boolean;
+}
+
+// Keys of an init answer file
+interface InitAnswerFile {
+  agents?: string[] | string;
+  default_agent?: string;
+  git_name?: string;
+  git_email?: string;
+  build?: boolean;
+}
+
+function splitAgents(value: string[] | string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const names = (Array.isArray(value) ? value : value.split(",")).map((name) => name.trim()).filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Parse a TOML answer file. Throws on invalid TOML or values of the wrong type.
+ */
+export function parseInitAnswers(content: string): InitAnswers {
+  const parsed = TOML.parse(content) as unknown as InitAnswerFile;
+
+  const agents = parsed.agents;
+  if (agents !== undefined && typeof agents !== "string" && !(Array.isArray(agents) && agents.every((a) => typeof a === "string"))) {
+    throw new Error("agents must be a list of agent names");
+  }
+  for (const key of ["default_agent", "git_name", "git_email"] as const) {
+    if (parsed[key] !== undefined && typeof parsed[key] !== "string") {
+      throw new Error(`${key} must be a string`);
+    }
+  }
+  if (parsed.build !== undefined && typeof parsed.build !== "boolean") {
+    throw new Error("build must be true or false");
+  }
+
+  return {
+    agents: splitAgents(agents),
+    defaultAgent: nonEmpty(parsed.default_agent),
+    gitName: nonEmpty(parsed.git_name),
+    gitEmail: nonEmpty(parsed.git_email),
+    build: parsed.build,
+  };
+}
+
+/**
+ * Read an answer file given with --config.
+ */
+export function loadInitAnswers(path: string): InitAnswers {
+  return parseInitAnswers(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Answers from CCC_AGENTS, CCC_GIT_NAME and CCC_GIT_EMAIL.
+ */
+export function getEnvInitAnswers(env: Record<string, string | undefined> = process.env): InitAnswers {
+  return {
+    agents: splitAgents(env.CCC_AGENTS),
+    gitName: nonEmpty(env.CCC_GIT_NAME),
+    gitEmail: nonEmpty(env.CCC_GIT_EMAIL),
+  };
+}
+
+/**
+ * The host's git user.name and user.email, if configured.
+ */
+export function getHostGitIdentity(): { gitName?: string; gitEmail?: string } {
+  const read = (key: string) => {
+    try {
+      return nonEmpty(execSync(`git config --get ${key}`, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }));
+    } catch {
+      return undefined;
+    }
+  };
+  return { gitName: read("user.name"), gitEmail: read("user.email") };
+}
+
+/**
+ * Merge answer sources, earlier sources taking precedence.
+ */
+export function mergeInitAnswers(...sources: InitAnswers[]): InitAnswers {
+  const merged: InitAnswers = {};
+  for (const source of sources) {
+    merged.agents ??= source.agents;
+    merged.defaultAgent ??= source.defaultAgent;
+    merged.gitName ??= source.gitName;
+    merged.gitEmail ??= source.gitEmail;
+    merged.build ??= source.build;
+  }
+  return merged;
+}
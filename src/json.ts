@@ -0,0 +1,140 @@
+import type { AgentStatus } from "./agents/types.ts";
+import type { ContainerStatus, FirewallIPv6State } from "./deploy/container.ts";
+import type { ExtensionType } from "./extensions/types.ts";
+import type { FirewallRule } from "./firewall/entries.ts";
+import type { FirewallMode, FirewallSshPolicy } from "./firewall/config.ts";
+import type { FirewallProfile } from "./firewall/profiles.ts";
+
+/**
+ * Machine-readable output (ccc --json).
+ *
+ * Every document is an object with a "version" field. Fields are only added
+ * within a version; renaming or removing one bumps it. See "JSON Output" in the README.
+ */
+
+export const JSON_OUTPUT_VERSION = 1;
+
+export interface SessionJson {
+  name: string;
+  worktree: { project: string; branch: string | null; path: string } | null;
+}
+
+export interface ContainerJson {
+  name: string; // Environment name ("default" or the +name)
+  containerName: string; // Docker container name
+  reachable: boolean; // Always true for local containers
+  exists: boolean;
+  running: boolean;
+  takopi: boolean;
+  sessions: SessionJson[];
+  agents: string[]; // Enabled agents installed in the container
+}
+
+export interface HostJson {
+  target: string; // "local" or "@name"
+  host: string | null; // SSH host for remotes
+  default: boolean;
+  containers: ContainerJson[];
+}
+
+/** ccc status, ccc ls */
+export interface HostsJson {
+  version: number;
+  hosts: HostJson[];
+}
+
+export interface AgentJson extends AgentStatus {
+  default: boolean;
+}
+
+/** ccc agent ls */
+export interface AgentsJson {
+  version: number;
+  target: string;
+  containerRunning: boolean;
+  agents: AgentJson[];
+}
+
+export interface FirewallSourceJson {
+  kind: "agent" | "extension" | "user";
+  name: string;
+  entries: string[];
+  rules: FirewallRule[];
+}
+
+/** ccc firewall ls */
+export interface FirewallJson {
+  version: number;
+  mode: FirewallMode;
+  ssh: FirewallSshPolicy;
+  ipv6: FirewallIPv6State;
+  sources: FirewallSourceJson[];
+  profiles: Record<string, FirewallProfile>;
+}
+
+export interface ExtensionJson {
+  name: string;
+  type: ExtensionType;
+  description: string;
+  enabled: boolean;
+  running: boolean | null; // Host extensions only
+}
+
+/** ccc extension ls */
+export interface ExtensionsJson {
+  version: number;
+  extensions: ExtensionJson[];
+}
+
+export interface RemoteJson {
+  name: string;
+  host: string;
+  aliases: string[];
+  default: boolean;
+  // SSH connection options, null when unset
+  port: number | null;
+  identity: string | null;
+  jump: string | null;
+  user: string | null;
+  sshOptions: string[];
+}
+
+/** ccc remote ls */
+export interface RemotesJson {
+  version: number;
+  default: string;
+  remotes: RemoteJson[];
+}
+
+/**
+ * Convert a container (or remote host) status to its JSON form.
+ */
+export function containerToJson(
+  name: string,
+  containerName: string,
+  status: ContainerStatus & { reachable?: boolean }
+): ContainerJson {
+  return {
+    name,
+    containerName,
+    reachable: status.reachable ?? true,
+    exists: status.exists,
+    running: status.running,
+    takopi: status.takopi,
+    sessions: status.sessions.map((session) => {
+      const worktree = status.worktrees.find((w) => w.session === session);
+      return {
+        name: session,
+        worktree: worktree ? { project: worktree.project, branch: worktree.branch ?? null, path: worktree.path } : null,
+      };
+    }),
+    agents: status.agents,
+  };
+}
+
+/**
+ * Print a document as indented JSON with the current version.
+ */
+export function printJson<T extends { version: number }>(document: Omit<T, "version">): void {
+  console.log(JSON.stringify({ version: JSON_OUTPUT_VERSION, ...document }, null, 2));
+}
@@ -0,0 +1,72 @@
+import type { ContainerStatus, FirewallIPv6State } from "./deploy/container.ts";
+import type { SessionWorktree } from "./worktrees.ts";
+
+/**
+ * One-pass host status from `ccc _probe --json` (hidden).
+ *
+ * ccc ls and ccc status run the remote's own ccc binary (installed at init)
+ * over a single ssh exec and read this document, instead of composing docker
+ * commands for every environment from here. Older binaries without _probe
+ * produce no document, and the caller falls back to querying each environment.
+ */
+
+export const PROBE_COMMAND = "_probe";
+
+export interface ProbeAgentJson {
+  name: string;
+  version: string | null; // null if not installed
+  authenticated: boolean | null; // null if not installed
+}
+
+export interface ProbeContainerJson {
+  name: string;
+  containerName: string;
+  exists: boolean;
+  running: boolean;
+  takopi: boolean;
+  sessions: string[];
+  worktrees: SessionWorktree[];
+  agents: ProbeAgentJson[];
+  firewallIPv6: FirewallIPv6State;
+}
+
+export interface ProbeExtensionJson {
+  name: string;
+  running: boolean;
+}
+
+export interface ProbeJson {
+  version: number;
+  ccc: string;
+  docker: string | null; // Server version, null if the daemon isn't reachable
+  containers: ProbeContainerJson[]; // Default first
+  extensions: ProbeExtensionJson[]; // Enabled host extensions
+}
+
+/**
+ * Parse _probe output. Returns null for anything that isn't a probe document,
+ * e.g. an error from a binary that predates _probe.
+ */
+export function parseProbe(output: string): ProbeJson | null {
+  try {
+    const probe = JSON.parse(output) as Partial<ProbeJson>;
+    if (typeof probe.version !== "number" || !Array.isArray(probe.containers)) return null;
+    return probe as ProbeJson;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The ContainerStatus of a probed environment, listing installed agents.
+ */
+export function probeToStatus(container: ProbeContainerJson): ContainerStatus {
+  return {
+    exists: container.exists,
+    running: container.running,
+    takopi: container.takopi,
+    sessions: container.sessions,
+    worktrees: container.worktrees,
+    agents: container.agents.filter((agent) => agent.version !== null).map((agent) => agent.name),
+  };
+}
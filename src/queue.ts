@@ -0,0 +1,224 @@
+import { buildTaskScript, shellQuote, type TaskSpec } from "./tasks.ts";
+
+/**
+ * Persistent task queue (ccc queue).
+ *
+ * Queued prompts are stored as ready-to-run task scripts in the container's home
+ * volume. A runner script inside the container starts them as headless tasks
+ * while the host's concurrency limit and each agent's hourly rate limit allow,
+ * and exits once the queue is empty. The entrypoint restarts it after a restart.
+ *
+ * The concurrency limit covers every ccc container on the host: they share a
+ * volume (HOST_QUEUE_DIR) where each running task holds a lock on a slot file.
+ * Runners count the held slots under a host-wide lock before starting tasks.
+ */
+
+export const QUEUE_DIR = "/home/ccc/.ccc/queue";
+export const QUEUE_RUNNER_PATH = `${QUEUE_DIR}/runner.sh`;
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+// Shared by all ccc containers on the host (the ccc-queue volume, see templates/compose.ts)
+export const HOST_QUEUE_DIR = "/home/ccc/.ccc/host-queue";
+export const HOST_QUEUE_VOLUME = "ccc-queue";
+const HOST_QUEUE_LOCK = `${HOST_QUEUE_DIR}/lock`;
+const SLOTS_DIR = `${HOST_QUEUE_DIR}/slots`;
+
+// Seconds between runner passes while tasks are waiting
+const RUNNER_INTERVAL = 5;
+
+export interface QueuedTask extends TaskSpec {
+  queued: string; // ISO timestamp
+}
+
+export interface QueueSettings {
+  concurrency: number; // Max running tasks on the host, including ccc run tasks
+  rateLimits: Record<string, number>; // Agent name -> max task starts per hour
+}
+
+export interface QueueState {
+  settings: QueueSettings;
+  runnerActive: boolean;
+  pending: QueuedTask[];
+}
+
+/** Slot file of a task, named after the container so ids can't clash across containers */
+function getSlotPath(id: string): string {
+  return `${SLOTS_DIR}/$(hostname)-${id}`;
+}
+
+/**
+ * Lines taking a slot for a task started outside the queue (ccc run), so it
+ * counts against the host's limit. The slot is held on fd 9 until the task and
+ * everything it started have exited.
+ */
+export function buildTaskSlotScript(id: string): string {
+  return [
+    `mkdir -p ${SLOTS_DIR}`,
+    `exec 8>${HOST_QUEUE_LOCK}`,
+    `flock 8`,
+    `exec 9>${getSlotPath(id)}`,
+    `flock 9`,
+    `exec 8>&-`,
+  ].join("\n");
+}
+
+/**
+ * Runner loop: under the host-wide lock, count held slots (dropping free ones) and
+ * start pending entries in order while under the concurrency limit (skipping agents
+ * at their rate limit), each holding its slot; repeat until none are left.
+ */
+export function buildQueueRunnerScript(): string {
+  return [
+    `pid=$(cat ${QUEUE_DIR}/runner.pid 2>/dev/null)`,
+    `if [ -n "$pid" ] && [ "$pid" != "$$" ] && grep -qs runner.sh /proc/$pid/cmdline; then exit 0; fi`,
+    `echo $$ > ${QUEUE_DIR}/runner.pid`,
+    `mkdir -p ${SLOTS_DIR}`,
+    `while :; do`,
+    `  exec 8>${HOST_QUEUE_LOCK}`,
+    `  flock 8`,
+    `  limit=$(cat ${HOST_QUEUE_DIR}/concurrency 2>/dev/null || echo ${DEFAULT_QUEUE_CONCURRENCY})`,
+    `  running=0`,
+    `  for slot in ${SLOTS_DIR}/*; do`,
+    `    [ -f "$slot" ] || continue`,
+    `    if flock -n "$slot" true; then rm -f "$slot"; else running=$((running + 1)); fi`,
+    `  done`,
+    `  now=$(date +%s)`,
+    `  touch ${QUEUE_DIR}/starts`,
+    `  awk -v t=$((now - 3600)) '$1 > t' ${QUEUE_DIR}/starts > ${QUEUE_DIR}/starts.tmp && mv ${QUEUE_DIR}/starts.tmp ${QUEUE_DIR}/starts`,
+    `  pending=0`,
+    `  for entry in ${QUEUE_DIR}/pending/*.sh; do`,
+    `    [ -f "$entry" ] || continue`,
+    `    pending=$((pending + 1))`,
+    `    [ "$running" -lt "$limit" ] || break`,
+    `    agent=$(sed -n 's/^# agent: //p' "$entry")`,
+    `    rate=$(awk -v a="$agent" '$1 == a { print $2 }' ${QUEUE_DIR}/rate-limits 2>/dev/null)`,
+    `    if [ -n "$rate" ] && [ "$(awk -v a="$agent" '$2 == a' ${QUEUE_DIR}/starts | wc -l)" -ge "$rate" ]; then continue; fi`,
+    `    script=$(cat "$entry")`,
+    `    id=$(basename "$entry" .sh); id=\${id##*-}`,
+    `    rm -f "$entry" "\${entry%.sh}.json"`,
+    `    echo "$now $agent" >> ${QUEUE_DIR}/starts`,
+    `    # The task inherits its locked slot on fd 9, but not the host lock`,
+    `    exec 9>${getSlotPath("$id")}`,
+    `    flock 9`,
+    `    setsid bash -c "$script" < /dev/null > /dev/null 2>&1 8>&- &`,
+    `    exec 9>&-`,
+    `    running=$((running + 1))`,
+    `    pending=$((pending - 1))`,
+    `  done`,
+    `  exec 8>&-`,
+    `  [ "$pending" -gt 0 ] || break`,
+    `  sleep ${RUNNER_INTERVAL}`,
+    `done`,
+    `rm -f ${QUEUE_DIR}/runner.pid`,
+  ].join("\n");
+}
+
+/** Start the runner unless it's already running */
+const START_RUNNER = `setsid bash ${QUEUE_RUNNER_PATH} < /dev/null > /dev/null 2>&1 &`;
+
+/**
+ * Script adding tasks to the queue (keeping their order) and starting the runner.
+ * The runner script is rewritten each time so it follows the installed ccc version.
+ */
+export function buildQueueAddScript(entries: Array<{ task: QueuedTask; command: string }>): string {
+  const stamp = Date.now();
+  const lines = [
+    `mkdir -p ${QUEUE_DIR}/pending`,
+    `cat > ${QUEUE_RUNNER_PATH} <<'CCC_RUNNER_EOF'`,
+    buildQueueRunnerScript(),
+    `CCC_RUNNER_EOF`,
+  ];
+
+  entries.forEach(({ task, command }, index) => {
+    const key = `${QUEUE_DIR}/pending/${stamp}-${String(index).padStart(4, "0")}-${task.id}`;
+    const script = [`# agent: ${task.agent}`, buildTaskScript(task, command)].join("\n");
+    lines.push(`printf '%s\\n' ${shellQuote(script)} > ${key}.sh`);
+    lines.push(`printf '%s\\n' ${shellQuote(JSON.stringify(task))} > ${key}.json`);
+  });
+
+  lines.push(START_RUNNER);
+  return lines.join("\n");
+}
+
+/**
+ * Script printing the queue settings, runner state and pending tasks
+ * ("concurrency <n>", "rate <agent> <n>", "runner <running|stopped>", "pending <json>").
+ */
+export function buildQueueListScript(): string {
+  return [
+    `echo "concurrency $(cat ${HOST_QUEUE_DIR}/concurrency 2>/dev/null || echo ${DEFAULT_QUEUE_CONCURRENCY})"`,
+    `[ -f ${QUEUE_DIR}/rate-limits ] && sed 's/^/rate /' ${QUEUE_DIR}/rate-limits`,
+    `pid=$(cat ${QUEUE_DIR}/runner.pid 2>/dev/null)`,
+    `if [ -n "$pid" ] && grep -qs runner.sh /proc/$pid/cmdline; then echo "runner running"; else echo "runner stopped"; fi`,
+    `for entry in ${QUEUE_DIR}/pending/*.json; do`,
+    `  [ -f "$entry" ] && echo "pending $(cat "$entry")"`,
+    `done`,
+    `true`,
+  ].join("\n");
+}
+
+/**
+ * Script replacing the queue settings. The runner re-reads them on every pass.
+ * The concurrency limit is written to the host-wide queue volume.
+ */
+export function buildQueueSettingsScript(settings: QueueSettings): string {
+  const rates = Object.entries(settings.rateLimits).map(([agent, limit]) => `${agent} ${limit}`);
+  return [
+    `mkdir -p ${QUEUE_DIR} ${HOST_QUEUE_DIR}`,
+    `echo ${settings.concurrency} > ${HOST_QUEUE_DIR}/concurrency`,
+    `printf '%s\\n' ${rates.map(shellQuote).join(" ") || "''"} | sed '/^$/d' > ${QUEUE_DIR}/rate-limits`,
+  ].join("\n");
+}
+
+/**
+ * Script removing a pending task. Exits non-zero if it isn't queued.
+ */
+export function buildQueueRemoveScript(id: string): string {
+  return [
+    `ls ${QUEUE_DIR}/pending/*-${id}.sh > /dev/null 2>&1 || exit 1`,
+    `rm -f ${QUEUE_DIR}/pending/*-${id}.sh ${QUEUE_DIR}/pending/*-${id}.json`,
+  ].join("\n");
+}
+
+/**
+ * Script (re)starting the runner if tasks are waiting, e.g. after the container restarted.
+ */
+export function buildQueueResumeScript(): string {
+  return [
+    `if [ -f ${QUEUE_RUNNER_PATH} ] && ls ${QUEUE_DIR}/pending/*.sh > /dev/null 2>&1; then`,
+    `  ${START_RUNNER}`,
+    `fi`,
+  ].join("\n");
+}
+
+/**
+ * Parse the output of buildQueueListScript. Pending tasks stay in queue order.
+ */
+export function parseQueueState(output: string): QueueState {
+  const state: QueueState = {
+    settings: { concurrency: DEFAULT_QUEUE_CONCURRENCY, rateLimits: {} },
+    runnerActive: false,
+    pending: [],
+  };
+
+  for (const line of output.split("\n")) {
+    const [kind, ...rest] = line.trim().split(" ");
+    if (kind === "concurrency") {
+      const concurrency = Number(rest[0]);
+      if (Number.isInteger(concurrency) && concurrency > 0) state.settings.concurrency = concurrency;
+    } else if (kind === "rate" && rest.length === 2) {
+      const limit = Number(rest[1]);
+      if (Number.isInteger(limit) && limit > 0) state.settings.rateLimits[rest[0]!] = limit;
+    } else if (kind === "runner") {
+      state.runnerActive = rest[0] === "running";
+    } else if (kind === "pending") {
+      try {
+        state.pending.push(JSON.parse(rest.join(" ")) as QueuedTask);
+      } catch {
+        // Skip corrupt entries
+      }
+    }
+  }
+
+  return state;
+}
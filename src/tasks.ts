@@ -0,0 +1,130 @@
+import { randomBytes } from "crypto";
+import type { Agent } from "./agents/types.ts";
+
+/**
+ * Headless agent runs (ccc run / ccc task).
+ *
+ * Each task gets a directory in the container's home volume holding task.json,
+ * output.log, the pid of its process group and, once it ends, its exit status.
+ */
+
+export const TASKS_DIR = "/home/ccc/.ccc/tasks";
+
+export interface TaskSpec {
+  id: string;
+  agent: string;
+  prompt: string;
+  project?: string;
+}
+
+export type TaskState = "running" | "done" | "failed" | "stopped" | "lost";
+
+export interface TaskInfo extends TaskSpec {
+  started: string; // ISO timestamp, recorded when the task script starts
+  state: TaskState;
+  exitCode?: number;
+}
+
+const TASK_ID_PATTERN = /^[0-9a-f]{8}$/;
+
+export function createTaskId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+export function isValidTaskId(id: string): boolean {
+  return TASK_ID_PATTERN.test(id);
+}
+
+export function getTaskDir(id: string): string {
+  return `${TASKS_DIR}/${id}`;
+}
+
+export function getTaskLogPath(id: string): string {
+  return `${getTaskDir(id)}/output.log`;
+}
+
+/** Quote a value for bash */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Non-interactive agent command line for a prompt.
+ * Agents without headless_cmd (in their config or built-in template) run as
+ * "<run_cmd> <skip_permissions_flag> -p <prompt>", like --yolo.
+ */
+export function buildTaskCommand(agent: Agent, prompt: string): string {
+  const base = agent.headlessCmd ?? [agent.runCmd, agent.skipPermissionsFlag, "-p"].filter(Boolean).join(" ");
+  return `${base} ${shellQuote(prompt)}`;
+}
+
+/**
+ * Bash script that records the task and runs it to completion.
+ * Meant to run under setsid, so the task's pid is also its process group (see buildTaskStopScript).
+ */
+export function buildTaskScript(task: TaskSpec, command: string): string {
+  const dir = getTaskDir(task.id);
+  const workdir = task.project ? `/workspace/${task.project}` : "/workspace";
+  return [
+    `mkdir -p ${dir}`,
+    `echo $$ > ${dir}/pid`,
+    `printf '%s,"started":"%s"}\\n' ${shellQuote(JSON.stringify(task).slice(0, -1))} "$(date -u +%Y-%m-%dT%H:%M:%S.%3NZ)" > ${dir}/task.json`,
+    `{ cd ${workdir} && ${command}; } > ${dir}/output.log 2>&1 < /dev/null`,
+    `echo $? > ${dir}/exit`,
+  ].join("\n");
+}
+
+/**
+ * Bash script printing one "task <id> <state> <task.json>" line per task.
+ * State is the exit status, "running", or "lost" if the process is gone without one
+ * (e.g. after a container restart).
+ */
+export function buildTaskListScript(): string {
+  return [
+    `for dir in ${TASKS_DIR}/*/; do`,
+    `  [ -f "$dir/task.json" ] || continue`,
+    `  if [ -f "$dir/exit" ]; then state=$(cat "$dir/exit")`,
+    `  elif kill -0 "$(cat "$dir/pid" 2>/dev/null)" 2>/dev/null; then state=running`,
+    `  else state=lost; fi`,
+    `  echo "task $(basename "$dir") $state $(cat "$dir/task.json")"`,
+    `done`,
+  ].join("\n");
+}
+
+/**
+ * Bash script stopping a running task's process group. Exits non-zero if it isn't running.
+ */
+export function buildTaskStopScript(id: string): string {
+  const dir = getTaskDir(id);
+  return [
+    `[ -f ${dir}/exit ] && exit 1`,
+    `pid=$(cat ${dir}/pid 2>/dev/null) || exit 1`,
+    `kill -TERM -- -$pid 2>/dev/null || exit 1`,
+    `echo stopped > ${dir}/exit`,
+  ].join("\n");
+}
+
+function parseTaskState(state: string): Pick<TaskInfo, "state" | "exitCode"> {
+  if (state === "running" || state === "stopped" || state === "lost") return { state };
+  const exitCode = Number(state);
+  if (!Number.isInteger(exitCode)) return { state: "lost" };
+  return { state: exitCode === 0 ? "done" : "failed", exitCode };
+}
+
+/**
+ * Parse the output of buildTaskListScript, newest first.
+ */
+export function parseTaskList(output: string): TaskInfo[] {
+  const tasks: TaskInfo[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^task (\S+) (\S+) (\{.*\})$/);
+    if (!match) continue;
+    try {
+      const spec = JSON.parse(match[3]!) as Omit<TaskInfo, "state" | "exitCode">;
+      tasks.push({ ...spec, id: match[1]!, ...parseTaskState(match[2]!) });
+    } catch {
+      // Skip tasks with a corrupt task.json
+    }
+  }
+  return tasks.toSorted((a, b) => b.started.localeCompare(a.started));
+}
@@ -1,4 +1,7 @@
 import type { Agent } from "../agents/types.ts";
+import type { FirewallMode } from "../firewall/config.ts";
+import { HOST_QUEUE_DIR, HOST_QUEUE_VOLUME } from "../queue.ts";
+import { getProxyName, PROXY_IMAGE, PROXY_PORT } from "./proxy.ts";
 
 export interface ComposeOptions {
   containerName?: string;
@@ -7,6 +10,19 @@ export interface ComposeOptions {
   agents?: Agent[];
   gitUserName?: string;
   gitUserEmail?: string;
+  firewallMode?: FirewallMode;
+  buildHash?: string; // Hash of the files the image is built from (see deploy/files.ts)
+}
+
+// Image label recording which generated files an image was built from (ccc diff)
+export const BUILD_HASH_LABEL = "ccc.build-hash";
+
+// Merged into docker-compose.yml automatically by docker compose
+export const PROJECTS_COMPOSE_FILE = "docker-compose.override.yml";
+
+export interface ProjectsComposeOptions {
+  containerName?: string;
+  projects: Record<string, string>; // Project name -> absolute host path
 }
 
 export function generateCompose(options: ComposeOptions = {}): string {
@@ -16,12 +32,54 @@ export function generateCompose(options: ComposeOptions = {}): string {
     projectsDir = "./projects",
     gitUserName = "",
     gitUserEmail = "",
+    firewallMode = "ip",
+    buildHash,
   } = options;
 
-  return `services:
+  const buildLabels = buildHash
+    ? `
+      labels:
+        ${BUILD_HASH_LABEL}: "${buildHash}"`
+    : "";
+  const proxyName = getProxyName(containerName);
+  const proxyUrl = `http://${proxyName}:${PROXY_PORT}`;
+  const proxyEnvironment = firewallMode === "proxy"
+    ? `
+      # Egress proxy (firewall mode = "proxy")
+      - HTTP_PROXY=${proxyUrl}
+      - HTTPS_PROXY=${proxyUrl}
+      - http_proxy=${proxyUrl}
+      - https_proxy=${proxyUrl}
+      - NO_PROXY=localhost,127.0.0.1,${proxyName}
+      - no_proxy=localhost,127.0.0.1,${proxyName}`
+    : "";
+  const proxyDependency = firewallMode === "proxy"
+    ? `
+    depends_on:
+      - ${proxyName}
+`
+    : "";
+  const proxyService = firewallMode === "proxy"
+    ? `
+  # Allowlisting egress proxy - the firewall only lets web traffic through here
+  ${proxyName}:
+    image: ${PROXY_IMAGE}
+    container_name: ${proxyName}
+    hostname: ${proxyName}
+    restart: unless-stopped
+    volumes:
+      - ./squid.conf:/etc/squid/squid.conf:ro
+    networks:
+      - ccc-net
+`
+    : "";
+
+  return `name: ${containerName}
+
+services:
   ${containerName}:
     build:
-      context: .
+      context: .${buildLabels}
       args:
         TZ: ${timezone}
     container_name: ${containerName}
@@ -35,7 +93,7 @@ export function generateCompose(options: ComposeOptions = {}): string {
     environment:
       - GIT_USER_NAME=${gitUserName}
       - GIT_USER_EMAIL=${gitUserEmail}
-      - NODE_OPTIONS=--max-old-space-size=4096
+      - NODE_OPTIONS=--max-old-space-size=4096${proxyEnvironment}
 
     volumes:
       # Projects directory - clone repos here
@@ -44,6 +102,9 @@ export function generateCompose(options: ComposeOptions = {}): string {
       # Home directory persistence (all user data, configs, auth)
       - ccc-home:/home/ccc
 
+      # Task queue slots shared by every ccc container on this host (host-wide concurrency)
+      - ccc-queue:${HOST_QUEUE_DIR}
+
       # SSH keys for GitHub (overrides home volume for .ssh)
       - ./ssh-keys:/home/ccc/.ssh:ro
 
@@ -59,13 +120,33 @@ export function generateCompose(options: ComposeOptions = {}): string {
 
     networks:
       - ccc-net
-
+${proxyDependency}${proxyService}
 volumes:
   ccc-home:
     name: ${containerName}-home
+  ccc-queue:
+    name: ${HOST_QUEUE_VOLUME}
 
 networks:
   ccc-net:
     driver: bridge
 `;
 }
+
+/**
+ * Compose override mounting registered projects (ccc project add) at /workspace/<name>.
+ * Kept out of docker-compose.yml so projects can change without regenerating it.
+ */
+export function generateProjectsCompose(options: ProjectsComposeOptions): string {
+  const { containerName = "ccc", projects } = options;
+  const mounts = Object.entries(projects)
+    .map(([name, path]) => `      - ${JSON.stringify(`${path}:/workspace/${name}:rw`)}`)
+    .join("\n");
+
+  return `# Generated by ccc from [projects] in config.toml
+services:
+  ${containerName}:
+    volumes:
+${mounts}
+`;
+}
@@ -19,7 +19,7 @@ ARG TZ=${timezone}
 # Install system dependencies including Rust
 RUN apt-get update && apt-get install -y --no-install-recommends \\
     git openssh-client sudo zsh fzf gh nano vim less procps unzip gnupg2 \\
-    iptables ipset iproute2 dnsutils aggregate jq \\
+    iptables ipset iproute2 dnsutils dnsmasq aggregate jq \\
     ripgrep curl ca-certificates wget \\
     python3 python3-pip python3-venv \\
     build-essential pkg-config libssl-dev \\
@@ -102,6 +102,7 @@ if [ "$DISABLE_FIREWALL" = "true" ]; then
     echo "RESEARCH MODE: Firewall DISABLED - full web access enabled"
 else
     echo "AUTONOMOUS MODE: Initializing firewall..."
+    # Also starts the refresher that re-resolves the allowlist (CDN-backed APIs rotate IPs)
     sudo /usr/local/bin/init-firewall.sh || echo "Warning: Firewall init failed"
 fi
 
@@ -143,6 +144,14 @@ ${mcpSetup}
 # Setup and start host extensions
 ${hostExtensionSetup}
 
+# The host-wide queue volume starts out owned by root
+sudo chown $(id -u):$(id -g) "$HOME/.ccc/host-queue" 2>/dev/null || true
+
+# Resume queued tasks (ccc queue) - the runner exits right away if none are pending
+if [ -f "$HOME/.ccc/queue/runner.sh" ]; then
+    nohup setsid bash "$HOME/.ccc/queue/runner.sh" >/dev/null 2>&1 &
+fi
+
 echo "Container ready. Agent version: $(${versionCmd} 2>/dev/null || echo not found)"
 exec "$@"
 `;
@@ -1,83 +1,621 @@
 import type { Agent } from "../agents/types.ts";
 import type { Extension } from "../extensions/types.ts";
+import {
+  classifyFirewallEntries,
+  classifyFirewallRules,
+  collectFirewallEntries,
+  type FirewallRule,
+} from "../firewall/entries.ts";
+import type { FirewallMode, FirewallSshPolicy } from "../firewall/config.ts";
+import {
+  collectProfileEntries,
+  getFirewallProfileGroup,
+  resolveFirewallProfiles,
+  type FirewallProfile,
+} from "../firewall/profiles.ts";
+import { PROXY_PORT } from "./proxy.ts";
 
 export interface FirewallOptions {
   agents: Agent[];
   extensions?: Extension[];
   userDomains?: string[];
+  userRules?: FirewallRule[];
+  sshPolicy?: FirewallSshPolicy;
+  mode?: FirewallMode;
+  proxyHost?: string; // Proxy sidecar hostname (proxy mode only)
+  profiles?: Record<string, FirewallProfile>; // Merged over the built-in profiles
+  refreshInterval?: number; // Seconds between DNS re-resolution passes (0 disables)
 }
 
-export function generateFirewall(options: FirewallOptions): string {
-  const { agents, extensions = [], userDomains = [] } = options;
+export const DEFAULT_FIREWALL_REFRESH_INTERVAL = 300;
 
-  const allDomains = new Set<string>();
+/**
+ * Allowlist rules for one address family. IPv6 ipsets mirror the IPv4 ones
+ * with a "6" suffix (allowed_ips6, allowed_nets6, ...).
+ */
+function egressRules(
+  cmd: "iptables" | "ip6tables",
+  sshPolicy: FirewallSshPolicy,
+  mode: FirewallMode,
+  profiles: Array<[string, FirewallProfile]>
+): string {
+  const v = cmd === "ip6tables" ? "6" : "";
+  const sets = [`allowed_ips${v}`, `allowed_nets${v}`, `allowed_dns_ips${v}`];
+  const ssh = sshPolicy === "allowlist"
+    ? `# Allow SSH outbound only to allowlisted hosts (ssh = "allowlist")
+${sets.map((set) => `${cmd} -A OUTPUT -p tcp --dport 22 -m set --match-set ${set} dst -j ACCEPT`).join("\n")}`
+    : `# Allow SSH outbound (for git)
+${cmd} -A OUTPUT -p tcp --dport 22 -j ACCEPT`;
+  const webAllowlist = `# Allow HTTPS to allowed IPs, networks and wildcard matches
+${sets.map((set) => `${cmd} -A OUTPUT -p tcp --dport 443 -m set --match-set ${set} dst -j ACCEPT`).join("\n")}
 
-  // Add agent domains
-  for (const agent of agents) {
-    for (const domain of agent.firewallDomains) {
-      allDomains.add(domain);
-    }
-  }
+# Allow HTTP to allowed IPs, networks and wildcard matches (some registries)
+${sets.map((set) => `${cmd} -A OUTPUT -p tcp --dport 80 -m set --match-set ${set} dst -j ACCEPT`).join("\n")}`;
+  // The proxy is only reachable over IPv4, so IPv6 gets no web rules at all
+  const web = v
+    ? "# Proxy mode: web traffic goes through the IPv4 proxy"
+    : `# Proxy mode: web traffic may only go to the filtering proxy
+${cmd} -A OUTPUT -p tcp --dport ${PROXY_PORT} -m set --match-set proxy_ip dst -j ACCEPT`;
+  const icmp = v
+    ? `
+# Allow ICMPv6 (neighbor discovery breaks without it)
+${cmd} -A OUTPUT -p ipv6-icmp -j ACCEPT
+`
+    : "";
 
-  // Add extension domains
-  for (const extension of extensions) {
-    for (const domain of extension.firewallDomains) {
-      allDomains.add(domain);
-    }
-  }
+  return `${cmd} -F OUTPUT 2>/dev/null || true
+
+# Allow loopback
+${cmd} -A OUTPUT -o lo -j ACCEPT
+
+# Allow established connections
+${cmd} -A OUTPUT -m state --state ESTABLISHED,RELATED -j ACCEPT
+${icmp}
+# Allow DNS
+${cmd} -A OUTPUT -p udp --dport 53 -j ACCEPT
+${cmd} -A OUTPUT -p tcp --dport 53 -j ACCEPT
+
+${ssh}
 
-  // Add user domains
-  for (const domain of userDomains) {
-    allDomains.add(domain);
+# Allow per-port rules (e.g. { host = "db.internal", ports = [5432] })
+${cmd} -A OUTPUT -m set --match-set allowed_ports${v} dst,dst -j ACCEPT
+${cmd} -A OUTPUT -m set --match-set allowed_net_ports${v} dst,dst -j ACCEPT
+${profileRules(cmd, profiles, mode)}
+${mode === "proxy" ? web : webAllowlist}`;
+}
+
+// Space-separated bash list: a variable reference and/or literal entries
+function shellList(base: string, values: string[]): string {
+  return [base, ...values].filter(Boolean).join(" ");
+}
+
+/**
+ * Session profiles: traffic from a profile's group goes to its own chain and
+ * only gets that profile's web allowlist. SSH and port rules stay shared.
+ * IPv6 from profile sessions is dropped (or accepted for allow_all profiles).
+ */
+function profileRules(
+  cmd: "iptables" | "ip6tables",
+  profiles: Array<[string, FirewallProfile]>,
+  mode: FirewallMode
+): string {
+  return profiles
+    .map(([name, profile]) => {
+      const group = getFirewallProfileGroup(name);
+      const header = `\n# Firewall profile "${name}" (sessions in group ${group})`;
+      if (profile.learn) {
+        return `${header}\n${learnRules(cmd, group, mode)}`;
+      }
+      if (cmd === "ip6tables") {
+        return `${header}\n${cmd} -A OUTPUT -m owner --gid-owner ${group} -j ${profile.allow_all ? "ACCEPT" : "DROP"}`;
+      }
+
+      const chain = `ccc_${name}`;
+      let web: string[];
+      if (profile.allow_all) {
+        web = [`${cmd} -A ${chain} -j ACCEPT`];
+      } else if (mode === "proxy") {
+        // The proxy filters on the shared allowlist, so profiles can't narrow it here
+        web = [`${cmd} -A ${chain} -p tcp --dport ${PROXY_PORT} -m set --match-set proxy_ip dst -j ACCEPT`];
+      } else {
+        web = ["ips", "nets", "dns"].map(
+          (set) => `${cmd} -A ${chain} -p tcp -m multiport --dports 80,443 -m set --match-set ${chain}_${set} dst -j ACCEPT`
+        );
+      }
+      if (!profile.allow_all) {
+        web.push(`${cmd} -A ${chain} -j LOG --log-prefix "BLOCKED: " --log-level 4`, `${cmd} -A ${chain} -j DROP`);
+      }
+
+      return `${header}
+${cmd} -N ${chain} 2>/dev/null || ${cmd} -F ${chain}
+${web.join("\n")}
+${cmd} -A OUTPUT -m owner --gid-owner ${group} -j ${chain}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Learn profile: the full allowlist passes as usual, anything else from the
+ * learn session is logged with "CCC-LEARN: " and let through.
+ */
+function learnRules(cmd: "iptables" | "ip6tables", group: string, mode: FirewallMode): string {
+  const v = cmd === "ip6tables" ? "6" : "";
+  const chain = "ccc_learn";
+  let web: string[];
+  if (mode === "proxy") {
+    web = v ? [] : [`${cmd} -A ${chain} -p tcp --dport ${PROXY_PORT} -m set --match-set proxy_ip dst -j ACCEPT`];
+  } else {
+    web = [`allowed_ips${v}`, `allowed_nets${v}`, `allowed_dns_ips${v}`].map(
+      (set) => `${cmd} -A ${chain} -p tcp -m multiport --dports 80,443 -m set --match-set ${set} dst -j ACCEPT`
+    );
   }
+  return `${cmd} -N ${chain} 2>/dev/null || ${cmd} -F ${chain}
+${[...web, `${cmd} -A ${chain} -j LOG --log-prefix "CCC-LEARN: " --log-level 4`, `${cmd} -A ${chain} -j ACCEPT`].join("\n")}
+${cmd} -A OUTPUT -m owner --gid-owner ${group} -j ${chain}`;
+}
+
+export function generateFirewall(options: FirewallOptions): string {
+  const {
+    agents,
+    extensions = [],
+    userDomains = [],
+    userRules = [],
+    sshPolicy = "any",
+    mode = "ip",
+    proxyHost = "",
+    profiles = {},
+    refreshInterval = DEFAULT_FIREWALL_REFRESH_INTERVAL,
+  } = options;
 
-  const domainList = Array.from(allDomains).join("\n");
+  // Split into exact hostnames, *.suffix wildcards, raw IPs and CIDR blocks
+  const { domains, wildcards, ips, cidrs } = collectFirewallEntries(options);
+
+  const allRules = [
+    ...agents.flatMap((agent) => agent.firewallRules ?? []),
+    ...extensions.flatMap((extension) => extension.firewallRules ?? []),
+    ...userRules,
+  ];
+
+  const domainList = domains.join("\n");
+  const ipList = ips.join("\n");
+  const cidrList = cidrs.join("\n");
+  const { hostPorts, netPorts } = classifyFirewallRules(allRules);
+  // Profiles with their own allowlist need per-profile ipsets; allow_all and learn ones only need the group
+  const profileList = Object.entries(resolveFirewallProfiles(profiles));
+  const filteredProfiles = profileList
+    .filter(([, profile]) => !profile.allow_all && !profile.learn)
+    .map(([name, profile]) => ({ name, entries: collectProfileEntries(profile, { agents, extensions, userDomains }) }));
+  // Profile lists build on the shell variables above so each domain is only written once
+  const agentEntries = collectFirewallEntries({ agents });
+  const otherDomains = domains.filter((domain) => !agentEntries.domains.includes(domain));
+  const profileVariables = filteredProfiles
+    .map(({ name }) => {
+      const profile = resolveFirewallProfiles(profiles)[name]!;
+      const extra = classifyFirewallEntries(profile.domains ?? []);
+      const strict = profile.base === "strict";
+      return `PROFILE_${name}_DOMAINS="${shellList(strict ? "$AGENT_DOMAINS" : "$ALLOWED_DOMAINS", extra.domains)}"
+PROFILE_${name}_IPS="${shellList(strict ? agentEntries.ips.join(" ") : "$ALLOWED_IPS", extra.ips)}"
+PROFILE_${name}_NETS="${shellList(strict ? agentEntries.cidrs.join(" ") : "$ALLOWED_NETS", extra.cidrs)}"`;
+    })
+    .join("\n");
+
+  // dnsmasq takes one ipset= line per suffix, listing every set it feeds
+  const dnsSets = new Map<string, string[]>();
+  for (const suffix of wildcards) {
+    dnsSets.set(suffix, ["allowed_dns_ips", "allowed_dns_ips6"]);
+  }
+  for (const { name, entries } of filteredProfiles) {
+    for (const suffix of entries.wildcards) {
+      dnsSets.set(suffix, [...(dnsSets.get(suffix) ?? []), `ccc_${name}_dns`]);
+    }
+  }
+  const dnsmasqIpsetLines = Array.from(dnsSets, ([suffix, sets]) => `ipset=/${suffix}/${sets.join(",")}`).join("\n");
+  const wildcardWarning = wildcards.length > 0
+    ? `\n        echo "Warning: dnsmasq not installed, wildcard entries will not match (rebuild with: ccc build)"`
+    : "";
 
   return `#!/bin/bash
 set -e
 
-# Firewall allowlist - domains agents need
-ALLOWED_DOMAINS="
-${domainList}
+# Usage: init-firewall.sh [--refresh | --daemon]
+#   (no args)  Build ipsets and iptables rules from the allowlist (safe to re-run)
+#   --refresh  Re-resolve allowed domains and atomically swap allowed_ips
+#   --daemon   Run --refresh every REFRESH_INTERVAL seconds
+
+# Firewall allowlist - domains agents need, then extension and user domains
+AGENT_DOMAINS="
+${agentEntries.domains.join("\n")}
+"
+ALLOWED_DOMAINS="$AGENT_DOMAINS
+${otherDomains.join("\n")}
 "
 
-# Create ipset for allowed IPs
-ipset create allowed_ips hash:ip -exist
-ipset flush allowed_ips
+# Raw IPs and CIDR blocks (IPv4 or IPv6)
+ALLOWED_IPS="
+${ipList}
+"
+ALLOWED_NETS="
+${cidrList}
+"
+
+# Per-port rules as "host,proto:port"
+ALLOWED_HOST_PORTS="
+${hostPorts.join("\n")}
+"
+ALLOWED_NET_PORTS="
+${netPorts.join("\n")}
+"
+
+# Session firewall profiles (ccc --firewall-profile <name>). Sessions run in the
+# profile's group and iptables matches their traffic on it.
+PROFILE_GROUPS="${profileList.map(([name]) => getFirewallProfileGroup(name)).join(" ")}"
+FILTERED_PROFILES="${filteredProfiles.map(({ name }) => name).join(" ")}"
+${profileVariables}
+
+# "ip" allowlists web traffic by resolved IP; "proxy" only allows the proxy sidecar
+FIREWALL_MODE=${mode}
+PROXY_HOST=${proxyHost}
+
+# Seconds between DNS re-resolution passes (0 disables the refresher)
+REFRESH_INTERVAL=${Math.max(0, Math.floor(refreshInterval))}
+
+STATE_DIR=/run/ccc-firewall
+DNS_LOG=/var/log/ccc-dns.log
+mkdir -p "$STATE_DIR"
+
+# Refreshes and full runs share the *_next scratch sets, so only one runs at a time
+lock_refresh() {
+    exec 9>"$STATE_DIR/refresh.lock"
+    flock 9
+}
+
+# IPv6 handling, recorded in $STATE_DIR/ipv6 for "ccc firewall ls":
+#   filtered    allowlist applied with ip6tables and inet6 ipsets
+#   blocked     IPv6 can't be filtered, so all IPv6 egress is dropped
+#   disabled    the container has no IPv6
+#   unfiltered  IPv6 could be neither filtered nor blocked
+IPV6_STATE=disabled
 
-# Resolve domains and add to ipset
-for domain in $ALLOWED_DOMAINS; do
-    ips=$(dig +short "$domain" A 2>/dev/null | grep -E '^[0-9]+\\.[0-9]+\\.[0-9]+\\.[0-9]+$' || true)
-    for ip in $ips; do
-        ipset add allowed_ips "$ip" -exist 2>/dev/null || true
+detect_ipv6() {
+    if [ ! -s /proc/net/if_inet6 ]; then
+        echo disabled
+    elif command -v ip6tables >/dev/null 2>&1 && ip6tables -L OUTPUT -n >/dev/null 2>&1 \\
+        && ipset create allowed_ips6 hash:ip family inet6 -exist 2>/dev/null; then
+        echo filtered
+    else
+        echo blocked
+    fi
+}
+
+# Drop all IPv6 egress, or turn IPv6 off if ip6tables isn't usable
+block_ipv6() {
+    if command -v ip6tables >/dev/null 2>&1 && ip6tables -F OUTPUT 2>/dev/null; then
+        ip6tables -A OUTPUT -o lo -j ACCEPT
+        ip6tables -A OUTPUT -j DROP
+    elif ! sysctl -qw net.ipv6.conf.all.disable_ipv6=1 2>/dev/null; then
+        IPV6_STATE=unfiltered
+        echo "Warning: IPv6 egress could not be filtered or blocked"
+    fi
+}
+
+resolve_host() {
+    if [[ "$1" =~ ^[0-9]+\\.[0-9]+\\.[0-9]+\\.[0-9]+$ || "$1" == *:* ]]; then
+        echo "$1"
+        return 0
+    fi
+    dig +short "$1" A 2>/dev/null | grep -E '^[0-9]+\\.[0-9]+\\.[0-9]+\\.[0-9]+$' || true
+    if [ "$IPV6_STATE" = "filtered" ]; then
+        dig +short "$1" AAAA 2>/dev/null | grep -E '^[0-9a-fA-F]*:[0-9a-fA-F:]*$' || true
+    fi
+}
+
+# Add to a scratch set, or to its inet6 twin for IPv6 addresses
+add_member() {
+    local set="$1" member="$2"
+    case "\${member%%,*}" in
+        *:*)
+            [ "$IPV6_STATE" = "filtered" ] || return 0
+            set="\${set%_next}6_next"
+            ;;
+    esac
+    ipset add "$set" "$member" -exist 2>/dev/null || true
+}
+
+# Resolve domains and add them, plus raw IPs, to the given ipsets.
+# Fails if there were domains to resolve and none of them resolved.
+populate_ips() {
+    local set="$1" port_set="$2" names=0 resolved=0
+    for domain in $ALLOWED_DOMAINS; do
+        names=$((names + 1))
+        for ip in $(resolve_host "$domain"); do
+            add_member "$set" "$ip"
+            resolved=$((resolved + 1))
+        done
+    done
+    for ip in $ALLOWED_IPS; do
+        add_member "$set" "$ip"
     done
-done
+    for rule in $ALLOWED_HOST_PORTS; do
+        names=$((names + 1))
+        for ip in $(resolve_host "\${rule%%,*}"); do
+            add_member "$port_set" "$ip,\${rule#*,}"
+            resolved=$((resolved + 1))
+        done
+    done
+    [ "$names" -eq 0 ] || [ "$resolved" -gt 0 ]
+}
 
-# Setup iptables rules
-iptables -F OUTPUT 2>/dev/null || true
+# Re-resolve into scratch sets and swap them in so the live sets are never empty.
+# If DNS is down and nothing resolved, the current sets are kept.
+refresh_ips() {
+    ipset create allowed_ips_next hash:ip -exist
+    ipset create allowed_ports_next hash:ip,port -exist
+    ipset flush allowed_ips_next
+    ipset flush allowed_ports_next
+    if [ "$IPV6_STATE" = "filtered" ]; then
+        ipset create allowed_ips6_next hash:ip family inet6 -exist
+        ipset create allowed_ports6_next hash:ip,port family inet6 -exist
+        ipset flush allowed_ips6_next
+        ipset flush allowed_ports6_next
+    fi
+    if ! populate_ips allowed_ips_next allowed_ports_next; then
+        echo "Warning: no allowed domain resolved, keeping the current allowlist"
+        ipset destroy allowed_ips_next
+        ipset destroy allowed_ports_next
+        if [ "$IPV6_STATE" = "filtered" ]; then
+            ipset destroy allowed_ips6_next
+            ipset destroy allowed_ports6_next
+        fi
+        return 0
+    fi
+    ipset swap allowed_ips_next allowed_ips
+    ipset swap allowed_ports_next allowed_ports
+    ipset destroy allowed_ips_next
+    ipset destroy allowed_ports_next
+    if [ "$IPV6_STATE" = "filtered" ]; then
+        ipset swap allowed_ips6_next allowed_ips6
+        ipset swap allowed_ports6_next allowed_ports6
+        ipset destroy allowed_ips6_next
+        ipset destroy allowed_ports6_next
+    fi
+    date +%s > "$STATE_DIR/last-refresh"
 
-# Allow loopback
-iptables -A OUTPUT -o lo -j ACCEPT
+    # Keep the DNS query log bounded
+    if [ -f "$DNS_LOG" ] && [ "$(stat -c %s "$DNS_LOG")" -gt 5242880 ]; then
+        tail -n 20000 "$DNS_LOG" > "$DNS_LOG.tmp" && cat "$DNS_LOG.tmp" > "$DNS_LOG" && rm -f "$DNS_LOG.tmp"
+    fi
+}
 
-# Allow established connections
-iptables -A OUTPUT -m state --state ESTABLISHED,RELATED -j ACCEPT
+# Rebuild allowed_nets the same way (only changes when the allowlist is applied)
+refresh_nets() {
+    ipset create allowed_nets_next hash:net -exist
+    ipset create allowed_net_ports_next hash:net,port -exist
+    ipset flush allowed_nets_next
+    ipset flush allowed_net_ports_next
+    if [ "$IPV6_STATE" = "filtered" ]; then
+        ipset create allowed_nets6_next hash:net family inet6 -exist
+        ipset create allowed_net_ports6_next hash:net,port family inet6 -exist
+        ipset flush allowed_nets6_next
+        ipset flush allowed_net_ports6_next
+    fi
+    for net in $ALLOWED_NETS; do
+        add_member allowed_nets_next "$net"
+    done
+    for rule in $ALLOWED_NET_PORTS; do
+        add_member allowed_net_ports_next "$rule"
+    done
+    ipset swap allowed_nets_next allowed_nets
+    ipset swap allowed_net_ports_next allowed_net_ports
+    ipset destroy allowed_nets_next
+    ipset destroy allowed_net_ports_next
+    if [ "$IPV6_STATE" = "filtered" ]; then
+        ipset swap allowed_nets6_next allowed_nets6
+        ipset swap allowed_net_ports6_next allowed_net_ports6
+        ipset destroy allowed_nets6_next
+        ipset destroy allowed_net_ports6_next
+    fi
+}
 
-# Allow DNS
-iptables -A OUTPUT -p udp --dport 53 -j ACCEPT
-iptables -A OUTPUT -p tcp --dport 53 -j ACCEPT
+# Proxy mode: point proxy_ip at the sidecar. Its address changes when it's
+# recreated, so the refresher re-resolves it; a failed lookup keeps the old one.
+refresh_proxy() {
+    [ "$FIREWALL_MODE" = "proxy" ] || return 0
+    local ip
+    ip=$(getent ahostsv4 "$PROXY_HOST" | awk 'NR == 1 { print $1 }')
+    if [ -z "$ip" ]; then
+        echo "Warning: could not resolve proxy $PROXY_HOST, web traffic only reaches its last known address"
+        return 0
+    fi
+    ipset create proxy_ip_next hash:ip -exist
+    ipset flush proxy_ip_next
+    ipset add proxy_ip_next "$ip"
+    ipset swap proxy_ip_next proxy_ip
+    ipset destroy proxy_ip_next
+}
 
-# Allow SSH outbound (for git)
-iptables -A OUTPUT -p tcp --dport 22 -j ACCEPT
+# Create profile groups and ipsets, and the ccc-session helper that starts a
+# session shell (or command) in a profile's group. ccc is not a member of any
+# profile group (sg could switch a session into another one); sudoers only lets
+# ccc-session set a group when the session starts.
+setup_profiles() {
+    for group in $PROFILE_GROUPS; do
+        groupadd -f "$group"
+        gpasswd -d ccc "$group" >/dev/null 2>&1 || true
+    done
+    printf 'ccc ALL=(: %s) NOPASSWD:SETENV: ALL\\n' "$(echo $PROFILE_GROUPS | sed 's/ /, /g')" > /etc/sudoers.d/ccc-fw-profiles
+    chmod 0440 /etc/sudoers.d/ccc-fw-profiles
+    for profile in $FILTERED_PROFILES; do
+        ipset create "ccc_\${profile}_ips" hash:ip -exist
+        ipset create "ccc_\${profile}_nets" hash:net -exist
+        ipset create "ccc_\${profile}_dns" hash:ip timeout 3600 -exist
+    done
+    cat > /usr/local/bin/ccc-session <<'SESSION'
+#!/bin/bash
+# Usage: ccc-session <profile> [command...]
+group="ccc-fw-$1"
+shift
+[ $# -gt 0 ] || set -- zsh -l
+# Run as ccc with the profile group; keep the environment (sudo would reset PATH)
+exec sudo -E -g "$group" -- env PATH="$PATH" "$@"
+SESSION
+    chmod 755 /usr/local/bin/ccc-session
+}
+
+# Re-resolve each profile's allowlist (IPv4 only) and swap it in
+refresh_profiles() {
+    local profile var domain ip net
+    for profile in $FILTERED_PROFILES; do
+        ipset create "ccc_\${profile}_ips_next" hash:ip -exist
+        ipset create "ccc_\${profile}_nets_next" hash:net -exist
+        ipset flush "ccc_\${profile}_ips_next"
+        ipset flush "ccc_\${profile}_nets_next"
+        var="PROFILE_\${profile}_DOMAINS"
+        for domain in \${!var}; do
+            for ip in $(resolve_host "$domain"); do
+                [[ "$ip" == *:* ]] || ipset add "ccc_\${profile}_ips_next" "$ip" -exist 2>/dev/null || true
+            done
+        done
+        var="PROFILE_\${profile}_IPS"
+        for ip in \${!var}; do
+            [[ "$ip" == *:* ]] || ipset add "ccc_\${profile}_ips_next" "$ip" -exist 2>/dev/null || true
+        done
+        var="PROFILE_\${profile}_NETS"
+        for net in \${!var}; do
+            [[ "$net" == *:* ]] || ipset add "ccc_\${profile}_nets_next" "$net" -exist 2>/dev/null || true
+        done
+        ipset swap "ccc_\${profile}_ips_next" "ccc_\${profile}_ips"
+        ipset swap "ccc_\${profile}_nets_next" "ccc_\${profile}_nets"
+        ipset destroy "ccc_\${profile}_ips_next"
+        ipset destroy "ccc_\${profile}_nets_next"
+    done
+}
+
+run_daemon() {
+    if [ "$REFRESH_INTERVAL" -le 0 ]; then
+        echo "DNS refresher disabled"
+        return 0
+    fi
+    local pidfile="$STATE_DIR/refresh.pid"
+    if [ -f "$pidfile" ] && grep -q -- "--daemon" "/proc/$(cat "$pidfile")/cmdline" 2>/dev/null; then
+        echo "DNS refresher already running"
+        return 0
+    fi
+    echo $$ > "$pidfile"
+    # Re-exec the script each pass so a hot-applied allowlist takes effect
+    while sleep "$REFRESH_INTERVAL"; do
+        "$0" --refresh >/dev/null 2>&1 || true
+    done
+}
+
+# (Re)start the refresher after a full run, so an applied refresh_interval takes
+# effect. It doesn't inherit the refresh lock its passes take.
+restart_daemon() {
+    local pidfile="$STATE_DIR/refresh.pid"
+    if [ -f "$pidfile" ] && grep -q -- "--daemon" "/proc/$(cat "$pidfile")/cmdline" 2>/dev/null; then
+        kill "$(cat "$pidfile")" 2>/dev/null || true
+    fi
+    rm -f "$pidfile"
+    setsid "$0" --daemon < /dev/null > /dev/null 2>&1 9>&- &
+}
+
+# Route DNS through dnsmasq: wildcard matches populate allowed_dns_ips at lookup
+# time, and the query log lets ccc map blocked IPs back to hostnames
+setup_dnsmasq() {
+    if ! command -v dnsmasq >/dev/null 2>&1; then${wildcardWarning}
+        return 0
+    fi
+    if [ ! -f /etc/resolv.conf.ccc-orig ]; then
+        cp /etc/resolv.conf /etc/resolv.conf.ccc-orig
+    fi
+    local upstream
+    upstream=$(awk '/^nameserver/ { print $2; exit }' /etc/resolv.conf.ccc-orig)
+    cat > /etc/dnsmasq.d/ccc-firewall.conf <<DNSMASQ
+no-resolv
+server=\${upstream:-127.0.0.11}
+listen-address=127.0.0.1
+bind-interfaces
+user=root
+log-queries=extra
+log-facility=$DNS_LOG
+${dnsmasqIpsetLines}
+DNSMASQ
+    pkill -x dnsmasq 2>/dev/null || true
+    if dnsmasq --conf-file=/etc/dnsmasq.d/ccc-firewall.conf; then
+        echo "nameserver 127.0.0.1" > /etc/resolv.conf
+    else
+        cp /etc/resolv.conf.ccc-orig /etc/resolv.conf
+    fi
+}
 
-# Allow HTTPS to allowed IPs
-iptables -A OUTPUT -p tcp --dport 443 -m set --match-set allowed_ips dst -j ACCEPT
+case "\${1:-}" in
+    --refresh)
+        lock_refresh
+        IPV6_STATE=$(cat "$STATE_DIR/ipv6" 2>/dev/null || echo disabled)
+        refresh_ips
+        refresh_profiles
+        refresh_proxy
+        echo "Firewall allowlist refreshed"
+        exit 0
+        ;;
+    --daemon)
+        run_daemon
+        exit 0
+        ;;
+esac
 
-# Allow HTTP to allowed IPs (some registries)
-iptables -A OUTPUT -p tcp --dport 80 -m set --match-set allowed_ips dst -j ACCEPT
+lock_refresh
+IPV6_STATE=$(detect_ipv6)
+
+# Create ipsets for allowed IPs and networks. Populating via swap means
+# re-running this script on a live container never empties the sets.
+ipset create allowed_ips hash:ip -exist
+ipset create allowed_nets hash:net -exist
+# Per-port rules match on destination address and port
+ipset create allowed_ports hash:ip,port -exist
+ipset create allowed_net_ports hash:net,port -exist
+# Wildcard matches expire so rotated CDN IPs don't accumulate
+ipset create allowed_dns_ips hash:ip timeout 3600 -exist
+# The proxy sidecar, in proxy mode
+ipset create proxy_ip hash:ip -exist
+if [ "$IPV6_STATE" = "filtered" ]; then
+    ipset create allowed_ips6 hash:ip family inet6 -exist
+    ipset create allowed_nets6 hash:net family inet6 -exist
+    ipset create allowed_ports6 hash:ip,port family inet6 -exist
+    ipset create allowed_net_ports6 hash:net,port family inet6 -exist
+    ipset create allowed_dns_ips6 hash:ip family inet6 timeout 3600 -exist
+fi
+
+refresh_ips
+refresh_nets
+
+setup_profiles
+refresh_profiles
+
+setup_dnsmasq
+
+# Proxy mode: find the sidecar so web ports are only open towards it
+refresh_proxy
+
+# Setup iptables rules
+${egressRules("iptables", sshPolicy, mode, profileList)}
+
+# Apply the same allowlist to IPv6, or drop IPv6 egress if it can't be filtered
+if [ "$IPV6_STATE" = "filtered" ]; then
+${egressRules("ip6tables", sshPolicy, mode, profileList).replace(/^(?=.)/gm, "    ")}
+elif [ "$IPV6_STATE" = "blocked" ]; then
+    block_ipv6
+fi
+echo "$IPV6_STATE" > "$STATE_DIR/ipv6"
 
 # Log and drop everything else
 iptables -A OUTPUT -j LOG --log-prefix "BLOCKED: " --log-level 4
 iptables -A OUTPUT -j DROP
+if [ "$IPV6_STATE" = "filtered" ]; then
+    ip6tables -A OUTPUT -j LOG --log-prefix "BLOCKED: " --log-level 4
+    ip6tables -A OUTPUT -j DROP
+fi
+
+restart_daemon
 
 echo "Firewall initialized with allowed domains"
 `;
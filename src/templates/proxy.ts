@@ -0,0 +1,61 @@
+import type { FirewallOptions } from "./firewall.ts";
+import { collectFirewallEntries } from "../firewall/entries.ts";
+
+export const PROXY_PORT = 3128;
+export const PROXY_IMAGE = "ubuntu/squid:latest";
+
+// Inside the proxy container (read by "ccc firewall blocked")
+export const PROXY_ACCESS_LOG = "/var/log/squid/access.log";
+
+export type ProxyOptions = Pick<FirewallOptions, "agents" | "extensions" | "userDomains">;
+
+/**
+ * Proxy sidecar name for a container (also its compose service and hostname).
+ */
+export function getProxyName(containerName: string): string {
+  return `${containerName}-proxy`;
+}
+
+/**
+ * Generate squid.conf for the allowlisting egress proxy.
+ * HTTPS is matched on the CONNECT hostname, so a shared CDN IP doesn't open up
+ * every site behind it. Wildcards become squid ".suffix" domains.
+ */
+export function generateProxyConfig(options: ProxyOptions): string {
+  const { domains, wildcards, ips, cidrs } = collectFirewallEntries(options);
+
+  const allowedDomains = [...domains, ...wildcards.map((suffix) => `.${suffix}`)];
+  const allowedAddresses = [...ips, ...cidrs];
+
+  const acls: string[] = [];
+  const access: string[] = [];
+  if (allowedDomains.length > 0) {
+    acls.push(`acl allowed_domains dstdomain ${allowedDomains.join(" ")}`);
+    access.push("http_access allow allowed_domains");
+  }
+  if (allowedAddresses.length > 0) {
+    acls.push(`acl allowed_addresses dst ${allowedAddresses.join(" ")}`);
+    access.push("http_access allow allowed_addresses");
+  }
+
+  return `# Generated by ccc - allowlisting egress proxy (firewall mode = "proxy")
+http_port ${PROXY_PORT}
+
+acl SSL_ports port 443
+acl Safe_ports port 80 443
+acl CONNECT method CONNECT
+${acls.join("\n")}
+
+http_access deny !Safe_ports
+http_access deny CONNECT !SSL_ports
+${access.join("\n")}
+http_access deny all
+
+# Forward only, no caching
+cache deny all
+
+# Seconds since epoch, client, status, method, URL (CONNECT URLs are host:port)
+logformat ccc %ts.%03tu %>a %Ss/%03>Hs %rm %ru
+access_log stdio:${PROXY_ACCESS_LOG} ccc
+`;
+}
@@ -1,5 +1,7 @@
 import { execSync } from "child_process";
 import * as ui from "./ui.ts";
+import { cccCommand } from "../containers.ts";
+import { sshCommand, sshLoginCommand } from "./ssh.ts";
 
 export function checkDockerRunning(): boolean {
   try {
@@ -10,6 +12,14 @@ export function checkDockerRunning(): boolean {
   }
 }
 
+export function getDockerVersion(): string | null {
+  try {
+    return execSync("docker version --format '{{.Server.Version}}'", { encoding: "utf-8", stdio: "pipe" }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
 export function checkDockerInstalled(): boolean {
   try {
     execSync("docker --version >/dev/null 2>&1", { stdio: "pipe" });
@@ -60,7 +70,7 @@ export function requireContainer(name: string): void {
   if (!checkContainerExists(name)) {
     ui.error(`Container '${name}' not found`);
     console.log(`\n  ${ui.style.dim("Initialize the container first:")}`);
-    ui.showCommand("ccc init");
+    ui.showCommand(cccCommand("init"));
     process.exit(1);
   }
 }
@@ -71,14 +81,14 @@ export function requireContainerRunning(name: string): void {
   if (!checkContainerRunning(name)) {
     ui.error(`Container '${name}' is not running`);
     console.log(`\n  ${ui.style.dim("Start the container first:")}`);
-    ui.showCommand("ccc start");
+    ui.showCommand(cccCommand("start"));
     process.exit(1);
   }
 }
 
 export function checkSSHConnection(host: string): boolean {
   try {
-    execSync(`ssh -o BatchMode=yes -o ConnectTimeout=5 ${host} "echo ok" >/dev/null 2>&1`, {
+    execSync(`${sshCommand(host, ["-o", "BatchMode=yes", "-o", "ConnectTimeout=5"])} "echo ok" >/dev/null 2>&1`, {
       stdio: "pipe",
     });
     return true;
@@ -91,7 +101,7 @@ export function requireSSHConnection(host: string): void {
   if (!checkSSHConnection(host)) {
     ui.error(`Cannot connect to ${host}`);
     console.log(`\n  ${ui.style.dim("Make sure you can SSH to this host:")}`);
-    ui.showCommand(`ssh ${host}`);
+    ui.showCommand(sshLoginCommand(host));
     console.log(`\n  ${ui.style.dim("If you need to set up SSH keys:")}`);
     ui.showCommand("ccc setup-ssh");
     process.exit(1);
@@ -0,0 +1,158 @@
+import { execSync, spawn } from "child_process";
+import { mkdirSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { getRemoteForHost, type RemoteSSHOptions } from "../config.ts";
+
+/**
+ * ssh and scp command lines for a host, with the connection options stored
+ * for it by `ccc remote add` (port, identity, jump host, user, -o options).
+ *
+ * All options are passed as -o so the same arguments work for ssh and scp.
+ *
+ * Calls to a host share one connection: the first call starts a ControlMaster
+ * that lingers for CONTROL_PERSIST_SECONDS, and every ssh and scp after it
+ * connects through its socket instead of doing a full handshake. Set
+ * CCC_SSH_MULTIPLEX=0 to turn this off.
+ */
+
+const CONTROL_DIR = join(homedir(), ".config", "ccc", "ssh");
+const CONTROL_PERSIST_SECONDS = 60;
+
+// Whether a master connection is available, per host, for this invocation
+const masters = new Map<string, boolean>();
+
+// Arguments that need no shell quoting
+const SAFE_ARG_PATTERN = /^[A-Za-z0-9_@%+=:,./~-]+$/;
+
+function shellQuote(arg: string): string {
+  return SAFE_ARG_PATTERN.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * ssh/scp arguments for a remote's connection options.
+ */
+export function buildSSHArgs(ssh: RemoteSSHOptions): string[] {
+  const options: string[] = [];
+  if (ssh.port !== undefined) options.push(`Port=${ssh.port}`);
+  if (ssh.user) options.push(`User=${ssh.user}`);
+  if (ssh.identity) options.push(`IdentityFile=${ssh.identity}`);
+  if (ssh.jump) options.push(`ProxyJump=${ssh.jump}`);
+  options.push(...(ssh.ssh_options ?? []));
+  return options.flatMap((option) => ["-o", option]);
+}
+
+/**
+ * Arguments connecting through the master socket in controlDir (%C hashes host, port and user).
+ */
+export function buildControlArgs(controlDir: string): string[] {
+  return ["-o", `ControlPath=${join(controlDir, "%C")}`];
+}
+
+export function isMultiplexEnabled(env: Record<string, string | undefined> = process.env): boolean {
+  return env.CCC_SSH_MULTIPLEX !== "0";
+}
+
+/**
+ * Commands checking for and starting the host's master connection. The master
+ * is backgrounded by -f once connected; callers ignore stdio so it holds no pipes.
+ */
+function getMasterCommands(host: string, connectionArgs: string[]): { check: string; start: string } {
+  const command = (args: string[]) =>
+    ["ssh", ...args, ...buildControlArgs(CONTROL_DIR), ...connectionArgs, host].map(shellQuote).join(" ");
+  return {
+    check: command(["-O", "check"]),
+    start: command(["-M", "-N", "-f", "-o", "BatchMode=yes", "-o", "ConnectTimeout=5", "-o", `ControlPersist=${CONTROL_PERSIST_SECONDS}`]),
+  };
+}
+
+/**
+ * Make sure a master connection to the host is running, starting one if needed.
+ * Returns false if it can't be started (unreachable host, password prompts);
+ * calls then connect directly as before.
+ */
+function ensureMaster(host: string, connectionArgs: string[]): boolean {
+  const known = masters.get(host);
+  if (known !== undefined) return known;
+
+  const { check, start } = getMasterCommands(host, connectionArgs);
+  let available: boolean;
+  try {
+    mkdirSync(CONTROL_DIR, { recursive: true, mode: 0o700 });
+    execSync(check, { stdio: "ignore" });
+    available = true;
+  } catch {
+    try {
+      execSync(start, { stdio: "ignore" });
+      available = true;
+    } catch {
+      available = false;
+    }
+  }
+  masters.set(host, available);
+  return available;
+}
+
+/**
+ * Start the shared connection to a host without blocking, so several hosts can
+ * connect in parallel; later ssh and scp calls to it reuse the connection.
+ */
+export async function openSSHConnection(host: string, signal?: AbortSignal): Promise<void> {
+  if (!isMultiplexEnabled() || masters.has(host)) return;
+
+  const remote = getRemoteForHost(host);
+  const { check, start } = getMasterCommands(host, remote ? buildSSHArgs(remote) : []);
+  const run = (command: string) =>
+    new Promise<boolean>((resolve) => {
+      const child = spawn("sh", ["-c", command], { stdio: "ignore", signal });
+      child.on("error", () => resolve(false));
+      child.on("close", (code) => resolve(code === 0));
+    });
+
+  mkdirSync(CONTROL_DIR, { recursive: true, mode: 0o700 });
+  const available = (await run(check)) || (await run(start));
+  if (!signal?.aborted) masters.set(host, available);
+}
+
+/**
+ * Connection arguments for a host: its configured options, plus the shared
+ * connection's socket when multiplexing.
+ */
+export function getSSHArgs(host: string): string[] {
+  const remote = getRemoteForHost(host);
+  const args = remote ? buildSSHArgs(remote) : [];
+  if (isMultiplexEnabled() && ensureMaster(host, args)) {
+    args.push(...buildControlArgs(CONTROL_DIR));
+  }
+  return args;
+}
+
+/**
+ * `ssh [flags] [options] host` as a shell string; append the quoted remote command.
+ */
+export function sshCommand(host: string, flags: string[] = []): string {
+  return ["ssh", ...flags, ...getSSHArgs(host), host].map(shellQuote).join(" ");
+}
+
+/**
+ * The ssh command to show users for connecting to a host themselves.
+ */
+export function sshLoginCommand(host: string): string {
+  const remote = getRemoteForHost(host);
+  return ["ssh", ...(remote ? buildSSHArgs(remote) : []), host].map(shellQuote).join(" ");
+}
+
+/**
+ * `scp [flags] [options]` for a host as a shell string; append the quoted paths.
+ */
+export function scpCommand(host: string, flags: string[] = []): string {
+  return ["scp", ...flags, ...getSSHArgs(host)].map(shellQuote).join(" ");
+}
+
+/**
+ * `rsync [flags] -e <ssh>` for a host as a shell string; append the quoted paths.
+ */
+export function rsyncCommand(host: string, flags: string[] = []): string {
+  const ssh = ["ssh", ...getSSHArgs(host)].map(shellQuote).join(" ");
+  return ["rsync", ...flags, "-e", ssh].map(shellQuote).join(" ");
+}
@@ -123,6 +123,7 @@ export function createSpinner(message: string) {
 
   return {
     start() {
+      if (!process.stdout.isTTY) return; // Keep piped output free of control codes
       process.stdout.write("\x1b[?25l"); // Hide cursor
       intervalId = setInterval(() => {
         const frame = spinnerFrames[frameIndex];
@@ -136,9 +137,9 @@ export function createSpinner(message: string) {
       if (intervalId) {
         clearInterval(intervalId);
         intervalId = null;
+        process.stdout.write("\r\x1b[K"); // Clear line
+        process.stdout.write("\x1b[?25h"); // Show cursor
       }
-      process.stdout.write("\r\x1b[K"); // Clear line
-      process.stdout.write("\x1b[?25h"); // Show cursor
       if (finalMessage) {
         console.log(finalMessage);
       }
@@ -220,6 +221,14 @@ export function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
 }
 
+export function formatTimeAgo(date: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - date.getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
 export function welcome(): void {
   console.log(banner);
 }
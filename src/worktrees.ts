@@ -0,0 +1,100 @@
+/**
+ * Per-session git worktrees (ccc <session> --worktree <project>[@branch]).
+ *
+ * Each worktree lives at /workspace/.worktrees/<session> inside the container and
+ * belongs to a registered project at /workspace/<project>. Nothing is stored on the
+ * host: sessions are matched to worktrees by directory name.
+ */
+
+export const WORKTREES_DIR = "/workspace/.worktrees";
+
+export interface WorktreeSpec {
+  project: string;
+  branch?: string;
+}
+
+export interface SessionWorktree {
+  session: string;
+  project: string;
+  path: string;
+  branch?: string; // undefined for a detached HEAD
+}
+
+// Session and project names become directory and branch names (same rules as config.ts)
+const NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]{0,63}$/;
+const BRANCH_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9._/-]*$/;
+
+export function isValidWorktreeSession(session: string): boolean {
+  return NAME_PATTERN.test(session);
+}
+
+/**
+ * Check a branch name against the subset of git-check-ref-format rules we allow.
+ */
+export function isValidBranchName(branch: string): boolean {
+  return (
+    BRANCH_PATTERN.test(branch) &&
+    !branch.includes("..") &&
+    !branch.includes("//") &&
+    !branch.endsWith("/") &&
+    !branch.endsWith(".") &&
+    !branch.endsWith(".lock")
+  );
+}
+
+/**
+ * Parse "project" or "project@branch". Returns null if either part is invalid.
+ */
+export function parseWorktreeSpec(spec: string): WorktreeSpec | null {
+  const index = spec.indexOf("@");
+  const project = index === -1 ? spec : spec.slice(0, index);
+  const branch = index === -1 ? undefined : spec.slice(index + 1);
+  if (!NAME_PATTERN.test(project)) return null;
+  if (branch !== undefined && !isValidBranchName(branch)) return null;
+  return { project, branch };
+}
+
+export function getWorktreePath(session: string): string {
+  return `${WORKTREES_DIR}/${session}`;
+}
+
+/** Branch created for a session when none is given */
+export function getDefaultWorktreeBranch(session: string): string {
+  return `ccc/${session}`;
+}
+
+/**
+ * Repositories owning the session worktrees, from `grep -H gitdir:` over
+ * the worktrees' .git files ("<path>/.git:gitdir: /workspace/api/.git/worktrees/<name>").
+ */
+export function parseWorktreeRepos(output: string): string[] {
+  const repos = new Set<string>();
+  for (const line of output.split("\n")) {
+    const match = line.match(/gitdir: (\S+)\/\.git\/worktrees\/[^/]+$/);
+    if (match) repos.add(match[1]!);
+  }
+  return [...repos];
+}
+
+/**
+ * Session worktrees from `git worktree list --porcelain`, ignoring the
+ * repository's main checkout and worktrees created outside ccc.
+ */
+export function parseWorktreeList(output: string): SessionWorktree[] {
+  const blocks = output
+    .split(/\n\s*\n/)
+    .map((block) => block.trim().split("\n"))
+    .filter((lines) => lines[0]?.startsWith("worktree "));
+  const mainPath = blocks[0]?.[0]?.slice("worktree ".length);
+  if (!mainPath) return [];
+
+  const project = mainPath.split("/").pop() ?? "";
+  const worktrees: SessionWorktree[] = [];
+  for (const lines of blocks.slice(1)) {
+    const path = lines[0]!.slice("worktree ".length);
+    if (!path.startsWith(`${WORKTREES_DIR}/`)) continue;
+    const branch = lines.find((line) => line.startsWith("branch "))?.slice("branch refs/heads/".length);
+    worktrees.push({ session: path.slice(WORKTREES_DIR.length + 1), project, path, branch });
+  }
+  return worktrees;
+}
@@ -40,3 +40,26 @@ domains = ["api.alpha.test"]
   expect(agents.alpha).toBeTruthy();
   expect(agents.alpha.firewallDomains).toEqual(["api.alpha.test"]);
 });
+
+test("loadAgents takes headless_cmd from the template when the config lacks it", async () => {
+  const tempHome = mkdtempSync(join(tmpdir(), "ccc-agents-"));
+  currentHome = tempHome;
+
+  const agentsDir = join(tempHome, ".config", "ccc", "agents");
+  mkdirSync(agentsDir, { recursive: true });
+
+  // A codex config enabled before headless_cmd was added to the template
+  writeFileSync(
+    join(agentsDir, "codex.toml"),
+    `name = "codex"
+install_cmd = "npm install -g @openai/codex"
+run_cmd = "codex"
+version_cmd = "codex --version"
+skip_permissions_flag = "--full-auto"
+`
+  );
+
+  const loader = await import(`../src/agents/loader.ts?${Date.now()}`);
+  const agents = loader.loadAgents();
+  expect(agents.codex.headlessCmd).toBe("codex exec --full-auto");
+});
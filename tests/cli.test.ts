@@ -14,7 +14,16 @@ const calls = {
   setDefaultAgent: [] as string[],
   buildContainer: [] as string[],
   startContainer: [] as string[],
+  addWorktree: [] as string[][],
+  enqueueTasks: [] as string[][],
+  startTask: [] as Array<{ task: { agent: string; prompt: string; project?: string }; command: string }>,
   execSync: [] as string[],
+  generateFiles: [] as Array<{ gitUserName?: string; gitUserEmail?: string }>,
+  sshExec: [] as Array<{ host: string; command: string }>,
+  runRemoteCcc: [] as Array<{ host: string; args: string[] }>,
+  syncRemoteFiles: [] as string[],
+  runSession: [] as Array<{ session: string; options: unknown }>,
+  killSession: [] as string[],
 };
 
 const agent = {
@@ -28,6 +37,12 @@ const agent = {
   getDockerfileSnippet: () => "RUN install codex",
 };
 
+// Sessions running in the local container
+const sessions: string[] = [];
+
+// Host value of net.netfilter.nf_log_all_netns (undefined when unreadable)
+const kernelLog = { visible: true as boolean | undefined };
+
 const remotes = new Map<string, { host: string; alias?: string[] }>();
 const configState = {
   default: "local",
@@ -49,12 +64,15 @@ mock.module("../src/agents/loader.ts", () => ({
   disableAgent: () => true,
   isAgentEnabled: () => true,
   getAgentConfig: () => undefined,
+  loadAgentTemplate: () => undefined,
 }));
 
 mock.module("../src/utils/checks.ts", () => ({
   requireDocker: () => {},
   requireContainer: () => {},
   requireContainerRunning: () => {},
+  checkSSHConnection: () => true,
+  getDockerVersion: () => "27.3.1",
 }));
 
 mock.module("../src/config.ts", () => ({
@@ -74,12 +92,19 @@ mock.module("../src/config.ts", () => ({
     calls.setDefault.push(target);
   },
   listRemotes: () => Object.fromEntries(remotes),
+  getRemoteForHost: () => undefined,
   getDefault: () => configState.default,
   getDefaultAgent: () => configState.default_agent,
   setDefaultAgent: (agentName: string) => {
     configState.default_agent = agentName;
     calls.setDefaultAgent.push(agentName);
   },
+  addProject: () => {},
+  getProjectContainer: () => undefined,
+  removeProject: () => false,
+  listProjects: () => ({ api: { path: "/src/api" } }),
+  isValidProjectName: () => true,
+  projectNameFromUrl: () => null,
   resolveTarget: (target?: string) => {
     if (!target || target === "local") return null;
     if (target === "@vps") return "user@host";
@@ -100,13 +125,16 @@ mock.module("../src/extensions/loader.ts", () => ({
 
 mock.module("../src/firewall/config.ts", () => ({
   getUserFirewallDomains: () => [],
+  loadFirewallConfig: () => ({ domains: [] }),
   addUserFirewallDomain: () => true,
   removeUserFirewallDomain: () => true,
   getFirewallConfigPath: () => "/tmp/ccc/firewall.toml",
 }));
 
 mock.module("../src/deploy/local.ts", () => ({
-  generateFiles: () => {},
+  generateFiles: (options: { gitUserName?: string; gitUserEmail?: string }) => {
+    calls.generateFiles.push(options);
+  },
   generateContainerSSHKeys: async () => "",
   buildContainer: async (outputDir: string) => {
     calls.buildContainer.push(outputDir);
@@ -120,14 +148,54 @@ mock.module("../src/deploy/local.ts", () => ({
   listSessions: (container: string) => {
     calls.listSessions.push(container);
   },
-  killSession: () => {},
+  killSession: (container: string, session: string) => {
+    calls.killSession.push(session);
+  },
   showLogs: () => {},
   restartContainer: () => {},
+  applyFirewall: () => {},
+  refreshFirewall: () => {},
+  getFirewallDestinations: () => [],
+  getFirewallIPv6State: () => "unknown",
+  getProxyDestinations: () => [],
+  isFirewallLogVisible: () => kernelLog.visible,
+  probeFirewall: () => ({ addresses: [], tls: { ok: true } }),
+  writeProjectMounts: () => {},
+  cloneRepository: () => {},
+  listWorktrees: () => [],
+  addWorktree: (container: string, session: string, project: string, branch: string) => {
+    calls.addWorktree.push([container, session, project, branch]);
+  },
+  getWorktreeChanges: () => [],
+  removeWorktree: () => {},
+  getSessions: () => sessions,
+  startTask: (container: string, task: { agent: string; prompt: string; project?: string }, command: string) => {
+    calls.startTask.push({ task, command });
+  },
+  listTasks: () => [],
+  enqueueTasks: (container: string, entries: Array<{ task: { agent: string; prompt: string } }>) => {
+    calls.enqueueTasks.push(entries.map((entry) => entry.task.prompt));
+  },
+  getQueue: () => ({ settings: { concurrency: 2, rateLimits: {} }, runnerActive: false, pending: [] }),
+  setQueueSettings: () => {},
+  removeQueuedTask: () => true,
+  resumeQueue: () => {},
+  getTaskLog: () => "",
+  followTaskLog: async () => {},
+  stopTask: () => true,
+  runSession: (container: string, session: string, options: unknown) => {
+    calls.runSession.push({ session, options });
+    return 0;
+  },
+  probeDoctorHost: () => ({ container: "running", files: {}, sshKey: true }),
+  readDeployedFiles: () => ({ files: {} }),
+  probeDoctorContainer: () => ({ firewall: "enforcing", refreshDaemon: true, now: 0, sshKey: true, github: "ok", mcp: {}, skills: {} }),
   getContainerStatus: () => ({
     exists: true,
     running: true,
     takopi: false,
     sessions: [],
+    worktrees: [],
     agents: [],
   }),
 }));
@@ -145,16 +213,45 @@ mock.module("../src/deploy/remote.ts", () => ({
   killRemoteSession: () => {},
   showRemoteLogs: () => {},
   restartRemote: () => {},
-  sshExec: () => "",
-  syncRemoteFiles: () => {},
-  getRemoteHostStatus: () => ({
-    reachable: true,
-    exists: true,
-    running: true,
-    takopi: false,
-    sessions: [],
-    agents: [],
-  }),
+  sshExec: (host: string, command: string) => {
+    calls.sshExec.push({ host, command });
+    return "";
+  },
+  syncRemoteFiles: (host: string) => {
+    calls.syncRemoteFiles.push(host);
+    return { changed: [], deleted: [], imageCurrent: false };
+  },
+  reportSyncChanges: () => {},
+  refreshRemoteFirewall: () => {},
+  runRemoteCcc: (host: string, args: string[]) => {
+    calls.runRemoteCcc.push({ host, args });
+  },
+  startRemoteTask: () => {},
+  listRemoteTasks: () => [],
+  getRemoteTaskLog: () => "",
+  followRemoteTaskLog: async () => {},
+  stopRemoteTask: () => true,
+  enqueueRemoteTasks: () => {},
+  getRemoteQueue: () => ({ settings: { concurrency: 2, rateLimits: {} }, runnerActive: false, pending: [] }),
+  setRemoteQueueSettings: () => {},
+  removeRemoteQueuedTask: () => true,
+  resumeRemoteQueue: () => {},
+  probeRemoteDoctorHost: () => ({ container: "running", files: {}, sshKey: true }),
+  readRemoteDeployedFiles: () => ({ files: {} }),
+  probeRemoteDoctorContainer: () => ({ firewall: "enforcing", refreshDaemon: true, now: 0, sshKey: true, github: "ok", mcp: {}, skills: {} }),
+  probeRemoteHost: async (host: string) =>
+    host === "user@slow"
+      ? { reachable: false, timedOut: true, containers: [] }
+      : {
+          reachable: true,
+          timedOut: false,
+          containers: [
+            {
+              name: "default",
+              status: { exists: true, running: true, takopi: false, sessions: [], worktrees: [], agents: [] },
+            },
+          ],
+        },
   updateRemoteBinary: async () => {},
 }));
 
@@ -163,11 +260,13 @@ mock.module("../src/extensions/mcp-injector.ts", () => ({
   removeMcpConfigFromAllAgents: () => [],
   injectMcpConfig: () => true,
   removeMcpConfig: () => true,
+  syncMcpConfigs: () => [],
 }));
 
 mock.module("../src/extensions/skills-manager.ts", () => ({
   installSkill: () => true,
   removeSkill: () => true,
+  syncSkills: () => [],
   linkSkillsToAllAgents: () => [],
   linkSkillsToAgent: () => true,
   getSkillsDir: () => "/tmp/ccc/skills",
@@ -181,6 +280,7 @@ mock.module("../src/extensions/host-manager.ts", () => ({
 }));
 
 const childProcessMock = () => ({
+  exec: () => {},
   execSync: (cmd: string) => {
     calls.execSync.push(cmd);
   },
@@ -205,7 +305,16 @@ beforeEach(() => {
   calls.setDefaultAgent.length = 0;
   calls.buildContainer.length = 0;
   calls.startContainer.length = 0;
+  calls.addWorktree.length = 0;
+  calls.startTask.length = 0;
+  calls.enqueueTasks.length = 0;
   calls.execSync.length = 0;
+  calls.generateFiles.length = 0;
+  calls.sshExec.length = 0;
+  calls.runRemoteCcc.length = 0;
+  calls.syncRemoteFiles.length = 0;
+  calls.runSession.length = 0;
+  calls.killSession.length = 0;
 });
 
 afterAll(() => {
@@ -243,9 +352,163 @@ test("yolo prompt is forwarded to attach", async () => {
   );
 });
 
-test("remote target uses attachRemote", async () => {
+test("worktree creates a branch and starts the session in it", async () => {
+  const program = createCLI();
+  await program.parseAsync(["node", "ccc", "fix", "--worktree", "api@fix-login"]);
+  expect(calls.addWorktree).toEqual([["ccc", "fix", "api", "fix-login"]]);
+  expect(calls.attachSession[0]!.options).toEqual(
+    expect.objectContaining({ workdir: "/workspace/.worktrees/fix" })
+  );
+});
+
+test("run starts a headless task with the agent's prompt flag", async () => {
+  const program = createCLI();
+  await program.parseAsync(["node", "ccc", "run", "fix the test's failure", "--project", "api"]);
+  expect(calls.startTask).toHaveLength(1);
+  expect(calls.startTask[0]!.task).toEqual(expect.objectContaining({ agent: "codex", project: "api" }));
+  expect(calls.startTask[0]!.command).toBe("codex --skip -p 'fix the test'\\''s failure'");
+});
+
+test("queue add queues one task per prompt in order", async () => {
+  const program = createCLI();
+  await program.parseAsync(["node", "ccc", "queue", "add", "fix test a", "fix test b"]);
+  expect(calls.enqueueTasks).toEqual([["fix test a", "fix test b"]]);
+});
+
+test("status --json prints versioned host documents", async () => {
+  const output: string[] = [];
+  const { argv } = process;
+  const log = console.log;
+  // --json is extracted from process.argv before parsing, like +name and @host
+  process.argv = ["node", "ccc", "status", "--json"];
+  console.log = (line: string) => output.push(line);
+  try {
+    const program = createCLI();
+    await program.parseAsync(process.argv);
+  } finally {
+    console.log = log;
+    process.argv = argv;
+  }
+  const document = JSON.parse(output.join("\n"));
+  expect(document.version).toBe(1);
+  expect(document.hosts[0]).toEqual(
+    expect.objectContaining({ target: "local", host: null, default: true })
+  );
+  expect(document.hosts[0].containers[0]).toEqual(
+    expect.objectContaining({ name: "default", containerName: "ccc", running: true, sessions: [] })
+  );
+});
+
+test("status reports remotes that time out", async () => {
+  const output: string[] = [];
+  const log = console.log;
+  remotes.set("slow", { host: "user@slow" });
+  console.log = (line: string) => output.push(line);
+  try {
+    const program = createCLI();
+    await program.parseAsync(["node", "ccc", "status"]);
+  } finally {
+    console.log = log;
+    remotes.delete("slow");
+  }
+  expect(output.find((line) => line.includes("@slow"))).toContain("timed out");
+});
+
+test("init --yes takes answers from flags without prompting", async () => {
   const program = createCLI();
-  await program.parseAsync(["node", "ccc", "@vps"]);
+  await program.parseAsync([
+    "node",
+    "ccc",
+    "init",
+    "--yes",
+    "--agents",
+    "codex",
+    "--git-name",
+    "Ada Lovelace",
+    "--git-email",
+    "ada@example.com",
+    "--no-build",
+  ]);
+  expect(calls.generateFiles).toHaveLength(1);
+  expect(calls.generateFiles[0]).toEqual(
+    expect.objectContaining({ gitUserName: "Ada Lovelace", gitUserEmail: "ada@example.com" })
+  );
+  expect(calls.buildContainer).toHaveLength(0);
+});
+
+// @host is extracted from process.argv before parsing
+async function parseWithArgv(args: string[]): Promise<void> {
+  const { argv } = process;
+  process.argv = ["node", "ccc", ...args];
+  try {
+    await createCLI().parseAsync(process.argv);
+  } finally {
+    process.argv = argv;
+  }
+}
+
+test("firewall add then apply on a remote both use the host's firewall config", async () => {
+  await parseWithArgv(["@vps", "firewall", "add", "api.example.com"]);
+  await parseWithArgv(["@vps", "firewall", "apply"]);
+  expect(calls.sshExec).toEqual([{ host: "user@host", command: "ccc firewall add 'api.example.com'" }]);
+  expect(calls.runRemoteCcc).toEqual([{ host: "user@host", args: ["firewall", "apply"] }]);
+  // Nothing regenerated from the local config
+  expect(calls.syncRemoteFiles).toHaveLength(0);
+});
+
+test("firewall blocked on a remote is read by the host's ccc, with its firewall mode", async () => {
+  await parseWithArgv(["@vps", "firewall", "blocked", "--since", "10", "--follow"]);
+  expect(calls.runRemoteCcc).toEqual([{ host: "user@host", args: ["firewall", "blocked", "--since", "10", "--follow"] }]);
+});
+
+test("firewall learn runs only its own session in the learn profile and closes it afterwards", async () => {
+  await createCLI().parseAsync(["node", "ccc", "firewall", "learn"]);
+  expect(calls.runSession).toEqual([{ session: "learn", options: { firewallProfile: "learn" } }]);
+  expect(calls.killSession).toEqual(["learn"]);
+});
+
+test("firewall learn refuses to start when the kernel discards container LOG output", async () => {
+  kernelLog.visible = false;
+  const exit = process.exit;
+  process.exit = ((code?: number) => {
+    throw new Error(`exit:${code ?? 0}`);
+  }) as typeof process.exit;
+  try {
+    await expect(createCLI().parseAsync(["node", "ccc", "firewall", "learn"])).rejects.toThrow("exit:1");
+  } finally {
+    process.exit = exit;
+    kernelLog.visible = true;
+  }
+  expect(calls.runSession).toHaveLength(0);
+});
+
+test("--no-firewall starts the session in the open profile", async () => {
+  await createCLI().parseAsync(["node", "ccc", "scratch", "--no-firewall"]);
+  expect(calls.attachSession[0]!.options).toEqual(expect.objectContaining({ firewallProfile: "open" }));
+});
+
+test("firewall profiles are refused when re-attaching to a running session", async () => {
+  sessions.push("main");
+  const exit = process.exit;
+  process.exit = ((code?: number) => {
+    throw new Error(`exit:${code ?? 0}`);
+  }) as typeof process.exit;
+  try {
+    await expect(createCLI().parseAsync(["node", "ccc", "main", "--firewall-profile", "strict"])).rejects.toThrow("exit:1");
+  } finally {
+    process.exit = exit;
+    sessions.length = 0;
+  }
+  expect(calls.attachSession).toHaveLength(0);
+});
+
+test("remote firewall profiles are checked by the remote's ccc", async () => {
+  await parseWithArgv(["@vps", "--firewall-profile", "research"]);
+  expect(calls.attachRemote[0]!.options).toEqual(expect.objectContaining({ firewallProfile: "research" }));
+});
+
+test("remote target uses attachRemote", async () => {
+  await parseWithArgv(["@vps"]);
   expect(calls.attachRemote).toHaveLength(1);
   expect(calls.attachRemote[0]!.host).toBe("user@host");
 });
@@ -259,8 +522,7 @@ test("ls shows hosts and sessions overview", async () => {
 });
 
 test("ls on remote routes to listRemoteSessions", async () => {
-  const program = createCLI();
-  await program.parseAsync(["node", "ccc", "ls", "@vps"]);
+  await parseWithArgv(["@vps", "ls"]);
   expect(calls.listRemoteSessions).toHaveLength(1);
   expect(calls.listRemoteSessions[0]).toBe("user@host");
 });
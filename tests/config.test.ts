@@ -23,6 +23,19 @@ test("addRemote and aliases resolve", () => {
   expect(config.resolveTarget("@alias")).toBe("user@example.com");
 });
 
+test("addRemote stores SSH connection options", () => {
+  config.addRemote("bastioned", "10.0.0.5", undefined, {
+    port: 2222,
+    user: "deploy",
+    jump: "ops@bastion.example.com",
+    ssh_options: ["ServerAliveInterval=30"],
+  });
+  expect(config.getRemoteForHost("10.0.0.5")).toEqual(
+    expect.objectContaining({ port: 2222, user: "deploy", jump: "ops@bastion.example.com", ssh_options: ["ServerAliveInterval=30"] })
+  );
+  expect(config.getRemoteForHost("other.example.com")).toBeUndefined();
+});
+
 test("save/load config persists defaults", () => {
   const cfg = config.loadConfig();
   cfg.default = "@box";
@@ -33,6 +46,44 @@ test("save/load config persists defaults", () => {
   expect(loaded.default_agent).toBe("claude");
 });
 
+test("projects are stored per environment", () => {
+  config.addProject("api", "/src/api");
+  config.addProject("site", "/src/site", "client-a");
+
+  expect(config.loadConfig().projects.site).toEqual({ path: "/src/site", container: "client-a" });
+  expect(Object.keys(config.listProjects("default"))).toEqual(["api"]);
+  expect(Object.keys(config.listProjects("client-a"))).toEqual(["site"]);
+
+  expect(config.removeProject("api")).toBe(true);
+  expect(config.removeProject("api")).toBe(false);
+  expect(config.listProjects("default")).toEqual({});
+});
+
+test("a project name belongs to one environment", () => {
+  config.addProject("web", "/src/web", "client-a");
+  expect(config.getProjectContainer("web")).toBe("client-a");
+  expect(config.getProjectContainer("nope")).toBeUndefined();
+
+  // Removing from another environment leaves it registered
+  expect(config.removeProject("web", "default")).toBe(false);
+  expect(config.removeProject("web", "client-a")).toBe(true);
+});
+
+test("isValidProjectName rejects path-like names", () => {
+  expect(config.isValidProjectName("my-app.v2")).toBe(true);
+  expect(config.isValidProjectName("..")).toBe(false);
+  expect(config.isValidProjectName("a/b")).toBe(false);
+  expect(config.isValidProjectName("")).toBe(false);
+});
+
+test("projectNameFromUrl handles ssh and https URLs", () => {
+  expect(config.projectNameFromUrl("git@github.com:org/api.git")).toBe("api");
+  expect(config.projectNameFromUrl("https://github.com/org/web-app")).toBe("web-app");
+  expect(config.projectNameFromUrl("https://github.com/org/web-app.git/")).toBe("web-app");
+  expect(config.projectNameFromUrl("ssh://git@host:22/repo.git")).toBe("repo");
+  expect(config.projectNameFromUrl("git@host:")).toBeNull();
+});
+
 test("invalid host exits early", () => {
   const originalExit = process.exit;
   let exitCode: number | undefined;
@@ -0,0 +1,73 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { expect, test, mock } from "bun:test";
+
+mock.restore();
+
+const tempHome = mkdtempSync(join(tmpdir(), "ccc-test-"));
+mock.module("os", () => ({
+  homedir: () => tempHome,
+}));
+
+const containers = await import(`../src/containers.ts?${Date.now()}`);
+
+test("default environment keeps the original names and paths", () => {
+  expect(containers.getContainerName("default")).toBe("ccc");
+  expect(containers.getContainerOutputDir("default")).toBe(join(tempHome, ".ccc"));
+  expect(containers.getRemoteContainerDir("default")).toBe("~/.ccc");
+  expect(containers.getContainerConfigDir("default")).toBe(join(tempHome, ".config", "ccc"));
+  expect(containers.getContainerSelector("default")).toBe("");
+});
+
+test("named environments get their own container, directories and selector", () => {
+  expect(containers.getContainerName("client-a")).toBe("ccc-client-a");
+  expect(containers.getContainerOutputDir("client-a")).toBe(join(tempHome, ".ccc-client-a"));
+  expect(containers.getRemoteContainerDir("client-a")).toBe("~/.ccc-client-a");
+  expect(containers.getContainerConfigDir("client-a")).toBe(join(tempHome, ".config", "ccc", "containers", "client-a"));
+  expect(containers.getContainerSelector("client-a")).toBe("+client-a");
+});
+
+test("the active environment drives defaults and ccc commands", () => {
+  containers.setActiveContainer("client-a");
+  expect(containers.getContainerName()).toBe("ccc-client-a");
+  expect(containers.cccCommand("firewall ls")).toBe("ccc +client-a firewall ls");
+
+  containers.setActiveContainer("default");
+  expect(containers.cccCommand("firewall ls")).toBe("ccc firewall ls");
+  expect(containers.cccCommand()).toBe("ccc");
+});
+
+test("isValidContainerName rejects names unsafe for Docker and paths", () => {
+  expect(containers.isValidContainerName("client-a")).toBe(true);
+  expect(containers.isValidContainerName("work_2")).toBe(true);
+  expect(containers.isValidContainerName("")).toBe(false);
+  expect(containers.isValidContainerName("Client")).toBe(false);
+  expect(containers.isValidContainerName("-x")).toBe(false);
+  expect(containers.isValidContainerName("../x")).toBe(false);
+});
+
+test("isReservedContainerName rejects names taken by proxy sidecars", () => {
+  expect(containers.isReservedContainerName("proxy")).toBe(true);
+  expect(containers.isReservedContainerName("work-proxy")).toBe(true);
+  expect(containers.isReservedContainerName("proxyless")).toBe(false);
+  expect(containers.isReservedContainerName("work")).toBe(false);
+});
+
+test("parseContainerDirs lists the default environment first", () => {
+  expect(containers.parseContainerDirs(["/home/u/.ccc-zeta/", "/home/u/.ccc-alpha/", ".ccc", ".cache", ".ccc-Bad"])).toEqual([
+    "default",
+    "alpha",
+    "zeta",
+  ]);
+  expect(containers.parseContainerDirs([])).toEqual(["default"]);
+});
+
+test("listLocalContainers only counts initialized output directories", () => {
+  for (const dir of [".ccc", ".ccc-work", ".ccc-empty"]) {
+    mkdirSync(join(tempHome, dir), { recursive: true });
+  }
+  writeFileSync(join(tempHome, ".ccc-work", "docker-compose.yml"), "");
+
+  expect(containers.listLocalContainers()).toEqual(["default", "work"]);
+});
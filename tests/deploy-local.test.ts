@@ -1,14 +1,19 @@
 import { beforeEach, afterAll, expect, test, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import type { Agent } from "../src/agents/types.ts";
 
 const calls = {
   execSync: [] as Array<{ cmd: string; opts: unknown }>,
   spawn: [] as Array<{ cmd: string; args: string[] }>,
+  spawnSync: [] as Array<{ cmd: string; args: string[] }>,
 };
 
 mock.restore();
 
 const childProcessMock = () => ({
+  exec: () => {},
   execSync: (cmd: string, opts: unknown) => {
     calls.execSync.push({ cmd, opts });
     return "";
@@ -19,12 +24,16 @@ const childProcessMock = () => ({
       on: () => {},
     };
   },
+  spawnSync: (cmd: string, args: string[]) => {
+    calls.spawnSync.push({ cmd, args });
+    return { status: 0 };
+  },
 });
 
 mock.module("child_process", childProcessMock);
 mock.module("node:child_process", childProcessMock);
 
-const { attachSession } = await import(`../src/deploy/local.ts?${Date.now()}`);
+const { applyFirewall, attachSession } = await import(`../src/deploy/local.ts?${Date.now()}`);
 
 const agent: Agent = {
   name: "codex",
@@ -40,16 +49,18 @@ const agent: Agent = {
 beforeEach(() => {
   calls.execSync.length = 0;
   calls.spawn.length = 0;
+  calls.spawnSync.length = 0;
 });
 
 afterAll(() => {
   mock.restore();
 });
 
-test("attachSession flushes firewall when noFirewall is set", () => {
-  attachSession("ccc", "main", { noFirewall: true });
-  expect(calls.execSync).toHaveLength(1);
-  expect(calls.execSync[0]!.cmd).toContain("iptables -F OUTPUT");
+test("attachSession opens the firewall for one session through the open profile", () => {
+  attachSession("ccc", "main", { firewallProfile: "open" });
+  // The container-wide rules stay in place for every other session
+  expect(calls.execSync).toHaveLength(0);
+  expect(calls.spawn[0]!.args.join(" ")).toContain("shpool attach main -c 'ccc-session open'");
 });
 
 test("attachSession builds yolo command with prompt", () => {
@@ -63,3 +74,17 @@ test("attachSession builds yolo command with prompt", () => {
   );
   expect(calls.spawn[0]!.args.join(" ")).toContain("shpool attach -f main -c 'codex --skip -p fix'");
 });
+
+test("applyFirewall copies the script into the running container before running it", () => {
+  const outputDir = mkdtempSync(join(tmpdir(), "ccc-apply-"));
+  try {
+    applyFirewall({ outputDir, agents: [agent] });
+  } finally {
+    rmSync(outputDir, { recursive: true, force: true });
+  }
+  const cmds = calls.execSync.map((c) => c.cmd);
+  const copyIndex = cmds.findIndex((c) => c.includes("docker cp init-firewall.sh ccc:/usr/local/bin/init-firewall.sh"));
+  const runIndex = cmds.findIndex((c) => c.includes("docker exec ccc sudo /usr/local/bin/init-firewall.sh"));
+  expect(copyIndex).toBeGreaterThan(-1);
+  expect(runIndex).toBeGreaterThan(copyIndex);
+});
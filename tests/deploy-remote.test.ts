@@ -8,9 +8,19 @@ const calls = {
 
 mock.restore();
 
+// Assert plain command lines, without the shared connection's master and socket
+process.env.CCC_SSH_MULTIPLEX = "0";
+
+// rsync on both ends; without it, syncs fall back to manifests and scp
+let rsyncAvailable = false;
+let rsyncOutput = "";
+
 const childProcessMock = () => ({
+  exec: () => {},
   execSync: (cmd: string, opts: unknown) => {
     calls.execSync.push({ cmd, opts });
+    if (cmd.includes("command -v rsync") && !rsyncAvailable) throw new Error("rsync not found");
+    if (cmd.startsWith("rsync")) return rsyncOutput;
     return "ok";
   },
   spawn: (cmd: string, args: string[]) => {
@@ -34,9 +44,13 @@ const {
   scpDir,
   attachRemote,
   listRemoteSessions,
+  syncRemoteFiles,
 } = await import(`../src/deploy/remote.ts?${Date.now()}`);
+const { RemoteExecutor } = await import(`../src/deploy/executor.ts?${Date.now()}`);
+const { ContainerManager } = await import(`../src/deploy/container.ts?${Date.now()}`);
 
 beforeEach(() => {
+  rsyncAvailable = false;
   calls.execSync.length = 0;
   calls.spawn.length = 0;
   calls.spawnSync.length = 0;
@@ -44,6 +58,7 @@ beforeEach(() => {
 
 afterAll(() => {
   mock.restore();
+  delete process.env.CCC_SSH_MULTIPLEX;
 });
 
 test("sshExec escapes quotes", () => {
@@ -86,3 +101,60 @@ test("listRemoteSessions uses docker exec shpool list", () => {
   listRemoteSessions("user@host");
   expect(calls.execSync[0]!.cmd).toContain("docker exec ccc shpool list");
 });
+
+test("syncRemoteFiles copies changed files with scp when rsync is missing", () => {
+  syncRemoteFiles("user@host", []);
+  const cmds = calls.execSync.map((c) => c.cmd);
+  expect(cmds.some((c) => c.includes("sha256sum"))).toBe(true);
+  expect(cmds.some((c) => c.startsWith("scp") && c.endsWith('"user@host:~/.ccc/init-firewall.sh"'))).toBe(true);
+  expect(cmds.some((c) => c.startsWith("rsync"))).toBe(false);
+});
+
+test("syncRemoteFiles pushes only what rsync reports and keeps other remote paths", () => {
+  rsyncAvailable = true;
+  rsyncOutput = ["<fc.......... init-firewall.sh", "*deleting   squid.conf"].join("\n");
+
+  const result = syncRemoteFiles("user@host", []);
+  expect(result).toEqual({ changed: ["init-firewall.sh"], deleted: ["squid.conf"], imageCurrent: false });
+
+  const cmds = calls.execSync.map((c) => c.cmd);
+  const rsync = cmds.find((c) => c.startsWith("rsync"));
+  expect(rsync).toContain("--delete");
+  expect(rsync).toContain("--include=/squid.conf");
+  // Keys are never pruned; skills and MCP configs are reconciled by the host's ccc
+  for (const path of ["ssh-keys", "skills", "mcp-configs"]) {
+    expect(rsync).not.toContain(path);
+  }
+  expect(rsync!.endsWith('"user@host:~/.ccc/"')).toBe(true);
+  expect(cmds.some((c) => c.startsWith("scp"))).toBe(false);
+  expect(cmds).toContain('ssh user@host "~/bin/ccc extension sync"');
+});
+
+test("probeFirewall runs its script in the container, not in the local shell", () => {
+  const manager = new ContainerManager(new RemoteExecutor("user@host"), "ccc");
+  manager.probeFirewall("api.example.com");
+  const cmd = calls.execSync[0]!.cmd;
+  expect(cmd.startsWith("ssh user@host")).toBe(true);
+  expect(cmd).toContain("docker exec ccc bash -c 'echo ");
+  // Shell expansions travel base64-encoded instead of through ssh's double quotes
+  expect(cmd).not.toContain("$");
+});
+
+test("cloneRepository passes the URL to the container without shell expansion", () => {
+  const manager = new ContainerManager(new RemoteExecutor("user@host"), "ccc");
+  manager.cloneRepository("git@github.com:me/$(touch pwned).git", "api", "`id`");
+  const cmd = calls.execSync[0]!.cmd;
+  expect(cmd).toContain("docker exec ccc bash -c 'echo ");
+  expect(cmd).not.toContain("$(");
+  expect(cmd).not.toContain("`");
+  const script = Buffer.from(cmd.match(/echo (\S+) \| base64 -d/)![1]!, "base64").toString();
+  expect(script).toBe("git clone --branch '`id`' 'git@github.com:me/$(touch pwned).git' '/workspace/api'");
+});
+
+test("getFirewallDestinations reads the kernel log on the host", () => {
+  const manager = new ContainerManager(new RemoteExecutor("user@host"), "ccc");
+  expect(manager.getFirewallDestinations("BLOCKED: ")).toEqual([]);
+  const cmds = calls.execSync.map((c) => c.cmd);
+  expect(cmds.some((c) => c.startsWith("ssh user@host") && c.includes("dmesg --time-format iso"))).toBe(true);
+  expect(cmds.some((c) => c.includes("docker exec ccc sudo cat /var/log/ccc-dns.log"))).toBe(true);
+});
@@ -0,0 +1,83 @@
+import { expect, test } from "bun:test";
+import {
+  getContainerChecks,
+  getHostChecks,
+  parseDoctorContainerProbe,
+  parseDoctorHostProbe,
+} from "../src/doctor.ts";
+
+const ccc = (command: string) => `ccc @vps ${command}`;
+
+test("parseDoctorHostProbe reads versions, container state and file times", () => {
+  const probe = parseDoctorHostProbe(
+    [
+      "docker 27.3.1",
+      "daemon 27.3.1",
+      "compose 2.29.7",
+      "buildx ",
+      "container false",
+      "image 2025-01-02T03:04:05.123456789Z",
+      "file Dockerfile 1735787000",
+      "sshkey present",
+    ].join("\n")
+  );
+  expect(probe).toEqual({
+    docker: "27.3.1",
+    daemon: "27.3.1",
+    compose: "2.29.7",
+    buildx: undefined,
+    container: "stopped",
+    imageCreated: 1735787045,
+    files: { Dockerfile: 1735787000 },
+    sshKey: true,
+  });
+});
+
+test("getHostChecks stops at a missing daemon", () => {
+  const checks = getHostChecks(parseDoctorHostProbe("docker 27.3.1\ndaemon \ncontainer missing"), ccc);
+  expect(checks.map((check) => [check.name, check.status])).toEqual([
+    ["Docker", "ok"],
+    ["Docker daemon", "fail"],
+  ]);
+});
+
+test("getHostChecks flags an image older than the generated files", () => {
+  const probe = parseDoctorHostProbe(
+    "docker 27\ndaemon 27\ncompose 2\nbuildx v0.17\ncontainer true\nimage 2025-01-02T00:00:00Z\nfile entrypoint.sh 1735776100\nfile Dockerfile 1735700000"
+  );
+  const image = getHostChecks(probe, ccc).find((check) => check.name === "Image");
+  expect(image).toEqual(
+    expect.objectContaining({ status: "warn", details: "older than entrypoint.sh", fix: "ccc @vps build && ccc @vps start" })
+  );
+});
+
+test("getContainerChecks covers firewall, refresher, GitHub, MCP and skills", () => {
+  const probe = parseDoctorContainerProbe(
+    [
+      "firewall enforcing",
+      "refresh-interval 300",
+      "refresh-daemon running",
+      "refresh-last 1000",
+      "now 1900",
+      "sshkey present",
+      "github denied",
+      "mcp claude stale",
+      "skills claude ok",
+    ].join("\n")
+  );
+  const checks = getContainerChecks(probe, ccc);
+  expect(checks.map((check) => [check.name, check.status, check.fix])).toEqual([
+    ["Rules", "ok", undefined],
+    ["DNS refresh", "warn", "ccc @vps firewall refresh"],
+    ["GitHub", "warn", "Add ssh-keys/id_ed25519.pub to https://github.com/settings/keys"],
+    ["claude MCP config", "warn", "ccc @vps restart"],
+    ["claude skills", "ok", undefined],
+  ]);
+});
+
+test("getContainerChecks fails when the firewall isn't loaded", () => {
+  const checks = getContainerChecks(parseDoctorContainerProbe("firewall off\nrefresh-interval 0\nnow 1"), ccc);
+  expect(checks[0]).toEqual(expect.objectContaining({ status: "fail", fix: "ccc @vps firewall apply" }));
+  expect(checks[1]).toEqual(expect.objectContaining({ name: "DNS refresh", status: "ok", details: "disabled" }));
+  expect(checks[2]).toEqual(expect.objectContaining({ name: "GitHub", status: "fail" }));
+});
@@ -0,0 +1,48 @@
+import { expect, test } from "bun:test";
+import { generateContainerFiles, getGeneratedFileMap, hashBuildFiles } from "../src/deploy/files.ts";
+import { compareFiles, getComposeGitUser, getImageDrift, parseDeployedFiles } from "../src/drift.ts";
+
+const encode = (content: string) => Buffer.from(content).toString("base64");
+
+test("generated compose labels the image with the build files hash", () => {
+  const files = generateContainerFiles({ agents: [], containerName: "ccc" });
+  expect(files.compose).toContain(`ccc.build-hash: "${hashBuildFiles(files)}"`);
+});
+
+test("parseDeployedFiles decodes files and the image label", () => {
+  const deployed = parseDeployedFiles(
+    [`file Dockerfile ${encode("FROM debian\n")}`, `file entrypoint.sh ${encode("")}`, "image abc123"].join("\n")
+  );
+  expect(deployed).toEqual({ files: { Dockerfile: "FROM debian\n", "entrypoint.sh": "" }, imageHash: "abc123" });
+  expect(parseDeployedFiles("image <no value>").imageHash).toBe("");
+  expect(parseDeployedFiles("").imageHash).toBeUndefined();
+});
+
+test("getImageDrift compares the label with the deployed build files", () => {
+  const files = generateContainerFiles({ agents: [], containerName: "ccc" });
+  const deployed = getGeneratedFileMap(files);
+  expect(getImageDrift({ files: deployed, imageHash: hashBuildFiles(files) })).toBe("current");
+  expect(getImageDrift({ files: { ...deployed, Dockerfile: "FROM old" }, imageHash: hashBuildFiles(files) })).toBe(
+    "outdated"
+  );
+  expect(getImageDrift({ files: deployed, imageHash: "" })).toBe("unlabeled");
+  expect(getImageDrift({ files: deployed })).toBe("no-container");
+});
+
+test("compareFiles reports changed and missing files with a unified diff", () => {
+  const drift = compareFiles(
+    { Dockerfile: "FROM debian\nRUN a\n", "squid.conf": "acl all\n", "entrypoint.sh": "x\n" },
+    { Dockerfile: "FROM debian\nRUN b\n", "entrypoint.sh": "x\n" }
+  );
+  expect(drift.map((file) => [file.name, file.state])).toEqual([
+    ["Dockerfile", "changed"],
+    ["squid.conf", "missing"],
+    ["entrypoint.sh", "unchanged"],
+  ]);
+  expect(drift[0]!.diff).toContain("-RUN b\n+RUN a");
+});
+
+test("getComposeGitUser reads the identity given at init", () => {
+  const { compose } = generateContainerFiles({ agents: [], gitUserName: "Ada Lovelace", gitUserEmail: "ada@example.com" });
+  expect(getComposeGitUser(compose)).toEqual({ gitUserName: "Ada Lovelace", gitUserEmail: "ada@example.com" });
+});
@@ -0,0 +1,50 @@
+import { expect, test } from "bun:test";
+import {
+  aggregateFirewallLog,
+  parseDnsLog,
+  parseKernelLogLine,
+  parseProxyLogLine,
+  LEARN_LOG_PREFIX,
+} from "../src/firewall/logs.ts";
+
+const LEARN_LINE =
+  "2026-01-01T10:00:00,123456+00:00 CCC-LEARN: IN=eth0 OUT=eth0 SRC=172.18.0.2 DST=104.16.0.1 LEN=60 PROTO=TCP SPT=40000 DPT=443 SYN";
+
+test("parseKernelLogLine extracts destination and timestamp", () => {
+  const entry = parseKernelLogLine(LEARN_LINE, LEARN_LOG_PREFIX);
+  expect(entry).toMatchObject({ src: "172.18.0.2", dst: "104.16.0.1", protocol: "tcp", port: 443 });
+  expect(entry?.timestamp?.toISOString()).toBe("2026-01-01T10:00:00.123Z");
+  expect(parseKernelLogLine(LEARN_LINE, "BLOCKED: ")).toBeNull();
+});
+
+test("parseDnsLog maps IPs to the queried name", () => {
+  const names = parseDnsLog(
+    [
+      "Jan  1 10:00:00 dnsmasq[12]: 7 127.0.0.1/5000 query[A] registry.npmjs.org from 127.0.0.1",
+      "Jan  1 10:00:00 dnsmasq[12]: 7 127.0.0.1/5000 reply registry.npmjs.org is <CNAME>",
+      "Jan  1 10:00:00 dnsmasq[12]: 7 127.0.0.1/5000 reply cdn.example.net is 104.16.0.1",
+    ].join("\n")
+  );
+  expect(names.get("104.16.0.1")).toBe("registry.npmjs.org");
+});
+
+test("aggregateFirewallLog counts repeat attempts per destination", () => {
+  const entry = parseKernelLogLine(LEARN_LINE, LEARN_LOG_PREFIX)!;
+  const destinations = aggregateFirewallLog(
+    [entry, entry, { src: "172.18.0.2", dst: "1.1.1.1", protocol: "udp", port: 53 }],
+    new Map([["104.16.0.1", "registry.npmjs.org"]])
+  );
+  expect(destinations).toHaveLength(2);
+  expect(destinations[0]).toMatchObject({ ip: "104.16.0.1", hostname: "registry.npmjs.org", count: 2 });
+  expect(destinations[1]).toMatchObject({ ip: "1.1.1.1", count: 1 });
+});
+
+test("parseProxyLogLine keeps denied CONNECT and HTTP requests", () => {
+  expect(parseProxyLogLine("1767261600.123 172.18.0.2 TCP_DENIED/403 CONNECT evil.example.com:443")).toMatchObject({
+    src: "172.18.0.2",
+    dst: "evil.example.com",
+    port: 443,
+  });
+  expect(parseProxyLogLine("1767261600.123 172.18.0.2 TCP_DENIED/403 GET http://plain.example.com/x")?.port).toBe(80);
+  expect(parseProxyLogLine("1767261600.123 172.18.0.2 TCP_TUNNEL/200 CONNECT api.example.com:443")).toBeNull();
+});
@@ -0,0 +1,150 @@
+import { expect, test } from "bun:test";
+import {
+  canonicalizeIP,
+  classifyFirewallEntries,
+  classifyFirewallRules,
+  parseFirewallEntry,
+  validateFirewallRule,
+} from "../src/firewall/entries.ts";
+import { collectProfileEntries, resolveFirewallProfiles } from "../src/firewall/profiles.ts";
+import {
+  buildFirewallProbeScript,
+  findFirewallSources,
+  firewallEntryMatches,
+  parseFirewallProbe,
+} from "../src/firewall/probe.ts";
+
+test("parseFirewallEntry classifies each entry type", () => {
+  expect(parseFirewallEntry("API.Example.com/")).toEqual({ type: "domain", value: "api.example.com" });
+  expect(parseFirewallEntry("*.githubusercontent.com")).toEqual({ type: "wildcard", value: "*.githubusercontent.com" });
+  expect(parseFirewallEntry("10.1.2.3")).toEqual({ type: "ip", value: "10.1.2.3" });
+  expect(parseFirewallEntry("10.0.0.0/8")).toEqual({ type: "cidr", value: "10.0.0.0/8" });
+  expect(parseFirewallEntry("2001:DB8::1")).toEqual({ type: "ip", value: "2001:db8::1" });
+  expect(parseFirewallEntry("2001:db8::/32")).toEqual({ type: "cidr", value: "2001:db8::/32" });
+});
+
+test("parseFirewallEntry rejects malformed entries", () => {
+  for (const entry of ["", "*", "*.", "foo.*.com", "300.1.1.1", "10.0.0.0/33", "10.0.0.0/8/1", "https://x.com", "bad host", "2001:db8::/129", "2001:::1"]) {
+    expect(parseFirewallEntry(entry)).toBeNull();
+  }
+});
+
+test("classifyFirewallEntries groups and de-duplicates", () => {
+  const classified = classifyFirewallEntries(["a.com", "A.com", "*.b.com", "1.2.3.4", "10.0.0.0/8", "nope nope"]);
+  expect(classified).toEqual({
+    domains: ["a.com"],
+    wildcards: ["b.com"],
+    ips: ["1.2.3.4"],
+    cidrs: ["10.0.0.0/8"],
+  });
+});
+
+test("validateFirewallRule rejects wildcards, bad ports and protocols", () => {
+  expect(validateFirewallRule({ host: "db.internal", ports: [5432] })).toBeNull();
+  expect(validateFirewallRule({ host: "*.corp.com", ports: [22] })).toContain("wildcards");
+  expect(validateFirewallRule({ host: "git.corp", ports: [] })).toContain("no ports");
+  expect(validateFirewallRule({ host: "git.corp", ports: [70000] })).toContain("invalid port");
+  expect(validateFirewallRule({ host: "git.corp", ports: [22], protocol: "icmp" as "tcp" })).toContain("protocol");
+});
+
+test("validateFirewallConfig rejects unknown modes and refresh intervals that aren't whole seconds", async () => {
+  // Bypass the module mock from cli.test.ts
+  const { validateFirewallConfig } = await import(`../src/firewall/config.ts?${Date.now()}`);
+  expect(validateFirewallConfig({ domains: [], mode: "proxy" })).toEqual([]);
+  expect(validateFirewallConfig({ domains: [], mode: "proxie" })[0]).toContain('"ip" or "proxy"');
+  expect(validateFirewallConfig({ domains: [], refresh_interval: 600 })).toEqual([]);
+  expect(validateFirewallConfig({ domains: [], refresh_interval: 0 })).toEqual([]);
+  expect(validateFirewallConfig({ domains: [], refresh_interval: 1.5 })).toHaveLength(1);
+  expect(validateFirewallConfig({ domains: [], refresh_interval: -60 })).toHaveLength(1);
+  expect(validateFirewallConfig({ domains: [], refresh_interval: "600" })).toHaveLength(1);
+});
+
+test("classifyFirewallRules expands ports into ipset members", () => {
+  const classified = classifyFirewallRules([
+    { host: "DB.internal", ports: [5432, 5433] },
+    { host: "10.0.0.0/8", ports: [53], protocol: "udp" },
+    { host: "*.bad.com", ports: [22] },
+  ]);
+  expect(classified).toEqual({
+    hostPorts: ["db.internal,tcp:5432", "db.internal,tcp:5433"],
+    netPorts: ["10.0.0.0/8,udp:53"],
+  });
+});
+
+test("canonicalizeIP compresses expanded IPv6 addresses", () => {
+  expect(canonicalizeIP("2606:4700:0000:0000:0000:0000:6810:0001")).toBe("2606:4700::6810:1");
+  expect(canonicalizeIP("10.0.0.1")).toBe("10.0.0.1");
+});
+
+test("resolveFirewallProfiles merges user profiles over the built-ins", () => {
+  const profiles = resolveFirewallProfiles({
+    research: { domains: ["*.wikipedia.org"] },
+    strict: { base: "strict", domains: ["docs.example.com"] },
+    default: { allow_all: true },
+    learn: { allow_all: true },
+    "bad-name": {},
+  });
+  expect(Object.keys(profiles).sort()).toEqual(["learn", "open", "research", "strict"]);
+  expect(profiles.open).toEqual({ allow_all: true });
+  expect(profiles.learn).toEqual({ learn: true });
+});
+
+test("collectProfileEntries starts from the profile base", () => {
+  const sources = {
+    agents: [{ firewallDomains: ["api.agent.com"] } as never],
+    extensions: [{ firewallDomains: ["ext.example.com"] } as never],
+    userDomains: ["user.example.com"],
+  };
+  expect(collectProfileEntries({ base: "strict", domains: ["*.docs.com"] }, sources)).toEqual({
+    domains: ["api.agent.com"],
+    wildcards: ["docs.com"],
+    ips: [],
+    cidrs: [],
+  });
+  expect(collectProfileEntries({}, sources).domains).toEqual(["api.agent.com", "ext.example.com", "user.example.com"]);
+});
+
+test("firewallEntryMatches handles domains, wildcards, IPs and CIDRs", () => {
+  expect(firewallEntryMatches("api.example.com", "API.example.com")).toBe(true);
+  expect(firewallEntryMatches("api.example.com", "example.com")).toBe(false);
+  expect(firewallEntryMatches("*.example.com", "cdn.example.com")).toBe(true);
+  expect(firewallEntryMatches("*.example.com", "example.com")).toBe(true);
+  expect(firewallEntryMatches("*.example.com", "badexample.com")).toBe(false);
+  expect(firewallEntryMatches("10.0.0.0/8", "10.20.30.40")).toBe(true);
+  expect(firewallEntryMatches("10.0.0.0/8", "11.0.0.1")).toBe(false);
+  expect(firewallEntryMatches("2001:db8::1", "2001:0db8:0:0:0:0:0:1")).toBe(true);
+});
+
+test("findFirewallSources reports every source allowing the host", () => {
+  const sources = findFirewallSources(["api.example.com", "10.1.2.3"], {
+    agents: { claude: { firewallDomains: ["*.example.com"] } },
+    extensions: { takopi: { firewallDomains: ["other.com"] } },
+    userDomains: ["api.example.com", "10.0.0.0/8"],
+  });
+
+  expect(sources).toEqual([
+    { kind: "agent", name: "claude", entry: "*.example.com" },
+    { kind: "user", name: "user", entry: "api.example.com" },
+    { kind: "user", name: "user", entry: "10.0.0.0/8" },
+  ]);
+});
+
+test("buildFirewallProbeScript can be wrapped in single quotes", () => {
+  const script = buildFirewallProbeScript("api.example.com");
+  expect(script).not.toContain("'");
+  expect(script).toContain("getent ahosts api.example.com");
+  expect(script).toContain("https://api.example.com/");
+});
+
+test("parseFirewallProbe reads addresses and the TLS result", () => {
+  const probe = parseFirewallProbe(
+    ["addr 1.2.3.4 allowed_dns_ips", "addr 2001:0db8:0:0:0:0:0:1 -", "tls fail curl: (28) Connection timed out"].join("\n")
+  );
+
+  expect(probe.addresses).toEqual([
+    { ip: "1.2.3.4", set: "allowed_dns_ips" },
+    { ip: "2001:db8::1", set: undefined },
+  ]);
+  expect(probe.tls).toEqual({ ok: false, error: "curl: (28) Connection timed out" });
+  expect(parseFirewallProbe("tls ok").tls).toEqual({ ok: true });
+});
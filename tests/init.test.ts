@@ -0,0 +1,40 @@
+import { expect, test } from "bun:test";
+import { getEnvInitAnswers, mergeInitAnswers, parseInitAnswers } from "../src/init.ts";
+
+test("parseInitAnswers reads an answer file", () => {
+  const answers = parseInitAnswers(
+    ['agents = ["claude", "codex"]', 'default_agent = "codex"', 'git_name = "Ada Lovelace"', 'git_email = "ada@example.com"', "build = false"].join("\n")
+  );
+  expect(answers).toEqual({
+    agents: ["claude", "codex"],
+    defaultAgent: "codex",
+    gitName: "Ada Lovelace",
+    gitEmail: "ada@example.com",
+    build: false,
+  });
+  expect(parseInitAnswers('agents = "claude, codex"').agents).toEqual(["claude", "codex"]);
+});
+
+test("parseInitAnswers rejects values of the wrong type", () => {
+  expect(() => parseInitAnswers("git_name = 1")).toThrow("git_name must be a string");
+  expect(() => parseInitAnswers('build = "no"')).toThrow("build must be true or false");
+  expect(() => parseInitAnswers("agents = [1]")).toThrow("agents must be a list");
+});
+
+test("getEnvInitAnswers ignores empty variables", () => {
+  expect(getEnvInitAnswers({ CCC_AGENTS: "claude,", CCC_GIT_NAME: " ", CCC_GIT_EMAIL: "ada@example.com" })).toEqual({
+    agents: ["claude"],
+    gitName: undefined,
+    gitEmail: "ada@example.com",
+  });
+});
+
+test("mergeInitAnswers prefers earlier sources per answer", () => {
+  const merged = mergeInitAnswers(
+    { gitName: "Flag Name" },
+    { gitEmail: "env@example.com" },
+    { agents: ["codex"], gitName: "File Name", build: false },
+    { gitName: "Host Name", gitEmail: "host@example.com" }
+  );
+  expect(merged).toEqual({ agents: ["codex"], gitName: "Flag Name", gitEmail: "env@example.com", build: false });
+});
@@ -0,0 +1,43 @@
+import { expect, test } from "bun:test";
+import { containerToJson } from "../src/json.ts";
+
+test("containerToJson attaches worktrees to their sessions", () => {
+  const json = containerToJson("client-a", "ccc-client-a", {
+    exists: true,
+    running: true,
+    takopi: false,
+    sessions: ["main", "fix"],
+    worktrees: [
+      { session: "fix", project: "api", path: "/workspace/.worktrees/fix", branch: "ccc/fix" },
+      { session: "old", project: "api", path: "/workspace/.worktrees/old" },
+    ],
+    agents: ["codex"],
+  });
+
+  expect(json).toEqual({
+    name: "client-a",
+    containerName: "ccc-client-a",
+    reachable: true,
+    exists: true,
+    running: true,
+    takopi: false,
+    sessions: [
+      { name: "main", worktree: null },
+      { name: "fix", worktree: { project: "api", branch: "ccc/fix", path: "/workspace/.worktrees/fix" } },
+    ],
+    agents: ["codex"],
+  });
+});
+
+test("containerToJson keeps remote reachability", () => {
+  const json = containerToJson("default", "ccc", {
+    reachable: false,
+    exists: false,
+    running: false,
+    takopi: false,
+    sessions: [],
+    worktrees: [],
+    agents: [],
+  });
+  expect(json.reachable).toBe(false);
+});
@@ -0,0 +1,43 @@
+import { expect, test } from "bun:test";
+import { parseProbe, probeToStatus } from "../src/probe.ts";
+
+test("parseProbe rejects output from binaries without _probe", () => {
+  expect(parseProbe("")).toBeNull();
+  expect(parseProbe("error: unknown option '--agents'")).toBeNull();
+  expect(parseProbe('{"version": 1}')).toBeNull();
+});
+
+test("probeToStatus lists installed agents only", () => {
+  const probe = parseProbe(
+    JSON.stringify({
+      version: 1,
+      ccc: "0.1.4",
+      docker: "27.3.1",
+      containers: [
+        {
+          name: "default",
+          containerName: "ccc",
+          exists: true,
+          running: true,
+          takopi: true,
+          sessions: ["main"],
+          worktrees: [],
+          agents: [
+            { name: "claude", version: "1.0.0", authenticated: true },
+            { name: "codex", version: null, authenticated: null },
+          ],
+          firewallIPv6: "filtered",
+        },
+      ],
+      extensions: [],
+    })
+  );
+  expect(probeToStatus(probe!.containers[0]!)).toEqual({
+    exists: true,
+    running: true,
+    takopi: true,
+    sessions: ["main"],
+    worktrees: [],
+    agents: ["claude"],
+  });
+});
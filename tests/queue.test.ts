@@ -0,0 +1,70 @@
+import { expect, test } from "bun:test";
+import {
+  buildQueueAddScript,
+  buildQueueRunnerScript,
+  buildQueueSettingsScript,
+  buildTaskSlotScript,
+  DEFAULT_QUEUE_CONCURRENCY,
+  parseQueueState,
+} from "../src/queue.ts";
+
+const task = (id: string, prompt: string) => ({ id, agent: "claude", prompt, queued: "2026-01-01T00:00:00.000Z" });
+
+test("buildQueueAddScript writes entries in order and starts the runner", () => {
+  const script = buildQueueAddScript([
+    { task: task("00000001", "first"), command: "claude -p 'first'" },
+    { task: task("00000002", "second"), command: "claude -p 'second'" },
+  ]);
+  const first = script.search(/pending\/\d+-0000-00000001\.sh/);
+  const second = script.search(/pending\/\d+-0001-00000002\.sh/);
+  expect(first).toBeGreaterThan(-1);
+  expect(second).toBeGreaterThan(first);
+  expect(script).toContain("# agent: claude");
+  expect(script.trimEnd().endsWith("setsid bash /home/ccc/.ccc/queue/runner.sh < /dev/null > /dev/null 2>&1 &")).toBe(true);
+});
+
+test("buildQueueSettingsScript writes concurrency and rate limits", () => {
+  const script = buildQueueSettingsScript({ concurrency: 3, rateLimits: { claude: 20 } });
+  expect(script).toContain("echo 3 > /home/ccc/.ccc/host-queue/concurrency");
+  expect(script).toContain("'claude 20'");
+});
+
+test("runner counts slots across the host and hands each task its own", () => {
+  const script = buildQueueRunnerScript();
+  expect(script).toContain("limit=$(cat /home/ccc/.ccc/host-queue/concurrency");
+  expect(script).toContain("for slot in /home/ccc/.ccc/host-queue/slots/*; do");
+  // Started tasks keep the slot lock on fd 9 but must not hold the host-wide lock
+  expect(script).toContain("exec 9>/home/ccc/.ccc/host-queue/slots/$(hostname)-$id");
+  expect(script).toContain(`setsid bash -c "$script" < /dev/null > /dev/null 2>&1 8>&- &`);
+});
+
+test("buildTaskSlotScript takes the slot under the host-wide lock", () => {
+  const lines = buildTaskSlotScript("00000001").split("\n");
+  expect(lines.indexOf("flock 8")).toBeLessThan(lines.indexOf("exec 9>/home/ccc/.ccc/host-queue/slots/$(hostname)-00000001"));
+  expect(lines.at(-1)).toBe("exec 8>&-");
+});
+
+test("parseQueueState reads settings, runner state and pending tasks", () => {
+  const output = [
+    "concurrency 4",
+    "rate claude 20",
+    "rate codex nope",
+    "runner running",
+    `pending ${JSON.stringify(task("00000001", "fix a"))}`,
+    "pending {broken",
+  ].join("\n");
+
+  expect(parseQueueState(output)).toEqual({
+    settings: { concurrency: 4, rateLimits: { claude: 20 } },
+    runnerActive: true,
+    pending: [task("00000001", "fix a")],
+  });
+});
+
+test("parseQueueState falls back to defaults", () => {
+  expect(parseQueueState("")).toEqual({
+    settings: { concurrency: DEFAULT_QUEUE_CONCURRENCY, rateLimits: {} },
+    runnerActive: false,
+    pending: [],
+  });
+});
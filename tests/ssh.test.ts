@@ -0,0 +1,32 @@
+import { expect, test } from "bun:test";
+import { buildControlArgs, buildSSHArgs, isMultiplexEnabled } from "../src/utils/ssh.ts";
+
+test("buildSSHArgs passes every connection option as -o", () => {
+  expect(
+    buildSSHArgs({
+      port: 2222,
+      user: "deploy",
+      identity: "~/.ssh/vps_ed25519",
+      jump: "ops@bastion",
+      ssh_options: ["ServerAliveInterval=30"],
+    })
+  ).toEqual([
+    "-o",
+    "Port=2222",
+    "-o",
+    "User=deploy",
+    "-o",
+    "IdentityFile=~/.ssh/vps_ed25519",
+    "-o",
+    "ProxyJump=ops@bastion",
+    "-o",
+    "ServerAliveInterval=30",
+  ]);
+  expect(buildSSHArgs({})).toEqual([]);
+});
+
+test("connections are shared through a per-host control socket unless disabled", () => {
+  expect(buildControlArgs("/home/dev/.config/ccc/ssh")).toEqual(["-o", "ControlPath=/home/dev/.config/ccc/ssh/%C"]);
+  expect(isMultiplexEnabled({})).toBe(true);
+  expect(isMultiplexEnabled({ CCC_SSH_MULTIPLEX: "0" })).toBe(false);
+});
@@ -0,0 +1,72 @@
+import { afterAll, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildLocalManifest,
+  buildRsyncArgs,
+  diffManifests,
+  parseItemizedChanges,
+  parseManifest,
+} from "../src/deploy/sync.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "ccc-sync-test-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const EMPTY_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+test("buildLocalManifest hashes managed files and directories only", () => {
+  writeFileSync(join(dir, "Dockerfile"), "");
+  writeFileSync(join(dir, "notes.txt"), "unmanaged");
+  mkdirSync(join(dir, "skills", "review"), { recursive: true });
+  writeFileSync(join(dir, "skills", "review", "SKILL.md"), "");
+
+  expect(buildLocalManifest(dir, ["Dockerfile", "squid.conf", "skills/", "mcp-configs/"])).toEqual({
+    Dockerfile: EMPTY_SHA256,
+    "skills/review/SKILL.md": EMPTY_SHA256,
+  });
+});
+
+test("diffManifests pushes changed files and prunes ones gone locally", () => {
+  const remote = parseManifest(
+    [`${EMPTY_SHA256}  Dockerfile`, `${"0".repeat(64)}  ./entrypoint.sh`, `${EMPTY_SHA256}  skills/old/SKILL.md`, "find: 'squid.conf': No such file"].join("\n")
+  );
+  expect(remote).toEqual({
+    Dockerfile: EMPTY_SHA256,
+    "entrypoint.sh": "0".repeat(64),
+    "skills/old/SKILL.md": EMPTY_SHA256,
+  });
+
+  const local = { Dockerfile: EMPTY_SHA256, "entrypoint.sh": EMPTY_SHA256, "skills/new/SKILL.md": EMPTY_SHA256 };
+  expect(diffManifests(local, remote)).toEqual({
+    changed: ["entrypoint.sh", "skills/new/SKILL.md"],
+    deleted: ["skills/old/SKILL.md"],
+  });
+  expect(diffManifests(local, local)).toEqual({ changed: [], deleted: [] });
+});
+
+test("rsync is limited to the managed paths and its itemized changes are parsed", () => {
+  expect(buildRsyncArgs(["Dockerfile", "skills/"])).toEqual([
+    "-rc",
+    "--delete",
+    "--itemize-changes",
+    "--include=/Dockerfile",
+    "--include=/skills/***",
+    "--exclude=*",
+  ]);
+
+  const output = [
+    "<f+++++++++ skills/new/SKILL.md",
+    "cd+++++++++ skills/new/",
+    "<fc.......... Dockerfile",
+    "*deleting   squid.conf",
+    "*deleting   skills/old/",
+  ].join("\n");
+  expect(parseItemizedChanges(output)).toEqual({
+    changed: ["skills/new/SKILL.md", "Dockerfile"],
+    deleted: ["squid.conf"],
+  });
+});
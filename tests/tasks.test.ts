@@ -0,0 +1,66 @@
+import { expect, test } from "bun:test";
+import type { Agent } from "../src/agents/types.ts";
+import {
+  buildTaskCommand,
+  buildTaskScript,
+  createTaskId,
+  isValidTaskId,
+  parseTaskList,
+} from "../src/tasks.ts";
+
+function makeAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    name: "claude",
+    installCmd: "install",
+    versionCmd: "claude --version",
+    runCmd: "claude",
+    firewallDomains: [],
+    skipPermissionsFlag: "--dangerously-skip-permissions",
+    getAuthInstructions: () => "",
+    getDockerfileSnippet: () => "",
+    ...overrides,
+  };
+}
+
+test("task IDs are short hex strings", () => {
+  const id = createTaskId();
+  expect(isValidTaskId(id)).toBe(true);
+  expect(isValidTaskId("../etc")).toBe(false);
+});
+
+test("buildTaskCommand defaults to the --yolo style prompt flag", () => {
+  expect(buildTaskCommand(makeAgent(), "fix it")).toBe("claude --dangerously-skip-permissions -p 'fix it'");
+  expect(buildTaskCommand(makeAgent({ skipPermissionsFlag: undefined }), "fix it")).toBe("claude -p 'fix it'");
+});
+
+test("buildTaskCommand uses headless_cmd and quotes the prompt", () => {
+  const agent = makeAgent({ headlessCmd: "codex exec --full-auto" });
+  expect(buildTaskCommand(agent, "don't $break")).toBe("codex exec --full-auto 'don'\\''t $break'");
+});
+
+test("buildTaskScript records the task and captures output in the project", () => {
+  const task = { id: "0a1b2c3d", agent: "claude", prompt: "it's", project: "api" };
+  const script = buildTaskScript(task, "claude -p 'fix'");
+  expect(script).toContain(`'{"id":"0a1b2c3d","agent":"claude","prompt":"it'\\''s","project":"api"'`);
+  expect(script).toContain("cd /workspace/api && claude -p 'fix'; } > /home/ccc/.ccc/tasks/0a1b2c3d/output.log 2>&1");
+  expect(script).toContain("echo $? > /home/ccc/.ccc/tasks/0a1b2c3d/exit");
+});
+
+test("parseTaskList maps exit status to state, newest first", () => {
+  const line = (id: string, state: string, started: string) =>
+    `task ${id} ${state} ${JSON.stringify({ id, agent: "claude", prompt: "p", started })}`;
+  const output = [
+    line("00000001", "0", "2026-01-01T00:00:00.000Z"),
+    line("00000002", "running", "2026-01-03T00:00:00.000Z"),
+    line("00000003", "2", "2026-01-02T00:00:00.000Z"),
+    line("00000004", "stopped", "2025-12-31T00:00:00.000Z"),
+    "task 00000005 0 {not json}",
+  ].join("\n");
+
+  expect(parseTaskList(output).map((task) => [task.id, task.state, task.exitCode])).toEqual([
+    ["00000002", "running", undefined],
+    ["00000003", "failed", 2],
+    ["00000001", "done", 0],
+    ["00000004", "stopped", undefined],
+  ]);
+});
@@ -1,7 +1,8 @@
 import { expect, test } from "bun:test";
 import type { Agent } from "../src/agents/types.ts";
 import type { Extension } from "../src/extensions/types.ts";
-import { generateCompose } from "../src/templates/compose.ts";
+import { generateCompose, generateProjectsCompose } from "../src/templates/compose.ts";
+import { generateProxyConfig } from "../src/templates/proxy.ts";
 import { generateDockerfile } from "../src/templates/dockerfile.ts";
 import { generateEntrypoint } from "../src/templates/entrypoint.ts";
 import { generateFirewall } from "../src/templates/firewall.ts";
@@ -40,6 +41,17 @@ test("generateFirewall de-duplicates domains", () => {
   expect(count).toBe(1);
 });
 
+test("generateEntrypoint leaves starting the firewall refresher to the firewall script", () => {
+  const entrypoint = generateEntrypoint({ agents: [agentA] });
+  expect(entrypoint).toContain("sudo /usr/local/bin/init-firewall.sh ||");
+  expect(entrypoint).not.toContain("--daemon");
+});
+
+test("generateEntrypoint resumes the task queue", () => {
+  const entrypoint = generateEntrypoint({ agents: [agentA] });
+  expect(entrypoint).toContain('setsid bash "$HOME/.ccc/queue/runner.sh"');
+});
+
 test("generateEntrypoint embeds version command", () => {
   const entrypoint = generateEntrypoint({ agents: [agentA] });
   expect(entrypoint).toContain(agentA.versionCmd);
@@ -104,6 +116,97 @@ test("generateFirewall merges all three sources", () => {
   expect(firewall).toContain("myapi.example.com"); // from user
 });
 
+test("generateFirewall adds per-port rules from agents and user config", () => {
+  const firewall = generateFirewall({
+    agents: [{ ...agentA, firewallRules: [{ host: "git.corp", ports: [22] }] }],
+    userRules: [{ host: "10.1.0.0/16", ports: [5432] }],
+  });
+  expect(firewall).toContain("git.corp,tcp:22");
+  expect(firewall).toContain("10.1.0.0/16,tcp:5432");
+  expect(firewall).toContain("--match-set allowed_ports dst,dst -j ACCEPT");
+  expect(firewall).toContain("--match-set allowed_net_ports dst,dst -j ACCEPT");
+});
+
+test("generateFirewall restricts SSH to allowlisted hosts when configured", () => {
+  expect(generateFirewall({ agents: [agentA] })).toContain("iptables -A OUTPUT -p tcp --dport 22 -j ACCEPT");
+  const firewall = generateFirewall({ agents: [agentA], sshPolicy: "allowlist" });
+  expect(firewall).not.toContain("iptables -A OUTPUT -p tcp --dport 22 -j ACCEPT");
+  expect(firewall).toContain("--dport 22 -m set --match-set allowed_ips dst -j ACCEPT");
+});
+
+test("generateFirewall mirrors the allowlist for IPv6", () => {
+  const firewall = generateFirewall({ agents: [agentA], userDomains: ["*.example.org"] });
+  expect(firewall).toContain('dig +short "$1" AAAA');
+  expect(firewall).toContain("ipset create allowed_ips6 hash:ip family inet6 -exist");
+  expect(firewall).toContain("ip6tables -A OUTPUT -p tcp --dport 443 -m set --match-set allowed_ips6 dst -j ACCEPT");
+  expect(firewall).toContain("ipset=/example.org/allowed_dns_ips,allowed_dns_ips6");
+  expect(firewall).toContain("block_ipv6");
+  expect(firewall).toContain('echo "$IPV6_STATE" > "$STATE_DIR/ipv6"');
+});
+
+test("generateProxyConfig allowlists hostnames, wildcards and addresses", () => {
+  const config = generateProxyConfig({ agents: [agentA], userDomains: ["*.example.org", "10.0.0.0/8"] });
+  expect(config).toContain("acl allowed_domains dstdomain api.example.com registry.example.com .example.org");
+  expect(config).toContain("acl allowed_addresses dst 10.0.0.0/8");
+  expect(config.indexOf("http_access allow allowed_domains")).toBeLessThan(config.indexOf("http_access deny all"));
+});
+
+test("generateCompose names the project and volume after the container", () => {
+  const compose = generateCompose({ containerName: "ccc-client-a", agents: [agentA] });
+  expect(compose).toStartWith("name: ccc-client-a\n");
+  expect(compose).toContain("container_name: ccc-client-a");
+  expect(compose).toContain("name: ccc-client-a-home");
+  // The queue volume is shared with the host's other environments
+  expect(compose).toContain("- ccc-queue:/home/ccc/.ccc/host-queue");
+  expect(compose).toContain("  ccc-queue:\n    name: ccc-queue\n");
+});
+
+test("generateProjectsCompose mounts each project under /workspace", () => {
+  const compose = generateProjectsCompose({
+    containerName: "ccc-client-a",
+    projects: { api: "/home/me/src/api", docs: "/home/me/My Docs" },
+  });
+  expect(compose).toContain("  ccc-client-a:\n    volumes:");
+  expect(compose).toContain('- "/home/me/src/api:/workspace/api:rw"');
+  expect(compose).toContain('- "/home/me/My Docs:/workspace/docs:rw"');
+});
+
+test("generateCompose adds the proxy sidecar in proxy mode", () => {
+  expect(generateCompose({ agents: [agentA] })).not.toContain("ccc-proxy");
+  const compose = generateCompose({ agents: [agentA], firewallMode: "proxy" });
+  expect(compose).toContain("  ccc-proxy:");
+  expect(compose).toContain("./squid.conf:/etc/squid/squid.conf:ro");
+  expect(compose).toContain("HTTPS_PROXY=http://ccc-proxy:3128");
+});
+
+test("generateFirewall only opens web ports to the proxy in proxy mode", () => {
+  const firewall = generateFirewall({ agents: [agentA], mode: "proxy", proxyHost: "ccc-proxy" });
+  expect(firewall).toContain("PROXY_HOST=ccc-proxy");
+  expect(firewall).toContain("iptables -A OUTPUT -p tcp --dport 3128 -m set --match-set proxy_ip dst -j ACCEPT");
+  // The sidecar's address is re-resolved by the refresher, since it changes when the sidecar is recreated
+  expect(firewall).toMatch(/--refresh\)[^;]*refresh_proxy/);
+  expect(firewall).not.toContain("--dport 443 -m set");
+});
+
+test("generateFirewall scopes profiles to their session group", () => {
+  const firewall = generateFirewall({ agents: [agentA], profiles: { research: { domains: ["*.wikipedia.org"] } } });
+  expect(firewall).toContain('FILTERED_PROFILES="strict research"');
+  expect(firewall).toContain("iptables -A OUTPUT -m owner --gid-owner ccc-fw-strict -j ccc_strict");
+  expect(firewall).toContain("iptables -A ccc_open -j ACCEPT");
+  expect(firewall).toContain("ip6tables -A OUTPUT -m owner --gid-owner ccc-fw-research -j DROP");
+  expect(firewall).toContain("ipset=/wikipedia.org/ccc_research_dns");
+  expect(firewall).toContain("/usr/local/bin/ccc-session");
+});
+
+test("generateFirewall keeps ccc out of profile groups so sessions can't switch profiles", () => {
+  const firewall = generateFirewall({ agents: [agentA] });
+  expect(firewall).not.toContain("usermod -aG");
+  expect(firewall).not.toContain("exec sg ");
+  expect(firewall).toContain('gpasswd -d ccc "$group"');
+  expect(firewall).toContain("ccc ALL=(: %s) NOPASSWD:SETENV: ALL");
+  expect(firewall).toContain('exec sudo -E -g "$group" -- env PATH="$PATH" "$@"');
+});
+
 // Agent with skills support
 const agentWithSkills: Agent = {
   ...agentA,
@@ -167,3 +270,55 @@ test("generateCompose includes mcp-configs volume mount", () => {
   const compose = generateCompose({ agents: [agentA] });
   expect(compose).toContain("./mcp-configs:/home/ccc/.ccc/mcp-configs");
 });
+
+test("generateFirewall routes wildcards through dnsmasq ipset", () => {
+  const firewall = generateFirewall({ agents: [agentA], userDomains: ["*.githubusercontent.com"] });
+  expect(firewall).toContain("ipset=/githubusercontent.com/allowed_dns_ips");
+  expect(firewall).not.toContain("*.githubusercontent.com");
+});
+
+test("generateFirewall adds CIDR blocks to a hash:net ipset", () => {
+  const firewall = generateFirewall({ agents: [agentA], userDomains: ["10.0.0.0/8", "192.168.1.10"] });
+  expect(firewall).toContain("ipset create allowed_nets hash:net");
+  expect(firewall).toMatch(/ALLOWED_NETS="\n10\.0\.0\.0\/8\n"/);
+  expect(firewall).toMatch(/ALLOWED_IPS="\n192\.168\.1\.10\n"/);
+  expect(firewall).toContain("--match-set allowed_nets dst");
+});
+
+test("generateFirewall only adds dnsmasq ipset rules for wildcards", () => {
+  const firewall = generateFirewall({ agents: [agentA] });
+  expect(firewall).not.toContain("ipset=/");
+  expect(firewall).toContain("log-queries=extra");
+});
+
+test("generateFirewall learn profile logs instead of dropping for its sessions only", () => {
+  const firewall = generateFirewall({ agents: [agentA] });
+  expect(firewall).toContain('iptables -A ccc_learn -j LOG --log-prefix "CCC-LEARN: " --log-level 4');
+  expect(firewall).toContain("iptables -A ccc_learn -j ACCEPT");
+  expect(firewall).toContain("iptables -A OUTPUT -m owner --gid-owner ccc-fw-learn -j ccc_learn");
+  // Allowlisted traffic isn't logged, and nothing outside the group is let through
+  expect(firewall).toContain("iptables -A ccc_learn -p tcp -m multiport --dports 80,443 -m set --match-set allowed_ips dst -j ACCEPT");
+  expect(firewall).not.toMatch(/-A OUTPUT -j (LOG --log-prefix "CCC-LEARN|ACCEPT)/);
+  expect(firewall).not.toContain("ccc_learn_ips");
+});
+
+test("generateFirewall supports refresh and daemon modes", () => {
+  const firewall = generateFirewall({ agents: [agentA], refreshInterval: 120 });
+  expect(firewall).toContain("REFRESH_INTERVAL=120");
+  expect(firewall).toContain("--refresh)");
+  expect(firewall).toContain("--daemon)");
+  expect(firewall).toContain("ipset swap allowed_ips_next allowed_ips");
+  // A full run (start or ccc firewall apply) restarts the refresher with the current interval
+  expect(firewall.trimEnd()).toMatch(/\nrestart_daemon\n\necho "Firewall initialized with allowed domains"$/);
+});
+
+test("generateFirewall keeps the current allowlist when nothing resolves", () => {
+  const firewall = generateFirewall({ agents: [agentA] });
+  const refresh = firewall.slice(firewall.indexOf("refresh_ips() {"));
+  expect(refresh.indexOf("if ! populate_ips allowed_ips_next allowed_ports_next; then")).toBeLessThan(
+    refresh.indexOf("ipset swap allowed_ips_next allowed_ips")
+  );
+  // Refreshes and full runs take the same lock before touching the scratch sets
+  expect(firewall).toMatch(/--refresh\)\n\s+lock_refresh\n/);
+  expect(firewall).toMatch(/\nlock_refresh\nIPV6_STATE=\$\(detect_ipv6\)/);
+});
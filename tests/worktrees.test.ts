@@ -0,0 +1,65 @@
+import { expect, test } from "bun:test";
+import {
+  getDefaultWorktreeBranch,
+  getWorktreePath,
+  isValidBranchName,
+  parseWorktreeList,
+  parseWorktreeRepos,
+  parseWorktreeSpec,
+} from "../src/worktrees.ts";
+
+test("parseWorktreeSpec splits project and optional branch", () => {
+  expect(parseWorktreeSpec("api")).toEqual({ project: "api", branch: undefined });
+  expect(parseWorktreeSpec("api@feature/login")).toEqual({ project: "api", branch: "feature/login" });
+  expect(parseWorktreeSpec("api@")).toBeNull();
+  expect(parseWorktreeSpec("../etc@main")).toBeNull();
+  expect(parseWorktreeSpec("api@-rf")).toBeNull();
+});
+
+test("isValidBranchName rejects names git would refuse", () => {
+  expect(isValidBranchName("ccc/fix-1")).toBe(true);
+  expect(isValidBranchName("a..b")).toBe(false);
+  expect(isValidBranchName("topic.lock")).toBe(false);
+  expect(isValidBranchName("topic/")).toBe(false);
+  expect(isValidBranchName("it's")).toBe(false);
+});
+
+test("session worktrees live under /workspace/.worktrees", () => {
+  expect(getWorktreePath("fix")).toBe("/workspace/.worktrees/fix");
+  expect(getDefaultWorktreeBranch("fix")).toBe("ccc/fix");
+});
+
+test("parseWorktreeRepos finds the repositories owning worktrees", () => {
+  const output = [
+    "/workspace/.worktrees/fix/.git:gitdir: /workspace/api/.git/worktrees/fix",
+    "/workspace/.worktrees/docs/.git:gitdir: /workspace/api/.git/worktrees/docs",
+    "/workspace/.worktrees/ui/.git:gitdir: /workspace/web/.git/worktrees/ui",
+  ].join("\n");
+  expect(parseWorktreeRepos(output)).toEqual(["/workspace/api", "/workspace/web"]);
+});
+
+test("parseWorktreeList keeps only session worktrees", () => {
+  const output = [
+    "worktree /workspace/api",
+    "HEAD 1111111111111111111111111111111111111111",
+    "branch refs/heads/main",
+    "",
+    "worktree /workspace/.worktrees/fix",
+    "HEAD 2222222222222222222222222222222222222222",
+    "branch refs/heads/ccc/fix",
+    "",
+    "worktree /workspace/.worktrees/bisect",
+    "HEAD 3333333333333333333333333333333333333333",
+    "detached",
+    "",
+    "worktree /tmp/other",
+    "HEAD 4444444444444444444444444444444444444444",
+    "branch refs/heads/other",
+    "",
+  ].join("\n");
+
+  expect(parseWorktreeList(output)).toEqual([
+    { session: "fix", project: "api", path: "/workspace/.worktrees/fix", branch: "ccc/fix" },
+    { session: "bisect", project: "api", path: "/workspace/.worktrees/bisect", branch: undefined },
+  ]);
+});